@@ -0,0 +1,28 @@
+import { ApiError, handle, readBody, readExpenseFields, repositoryForRequest } from '@/lib/api'
+
+type Context = { params: Promise<{ id: string }> }
+
+// PATCH /api/expenses/:id — change only the fields sent
+export async function PATCH(request: Request, { params }: Context) {
+  return handle(async () => {
+    const { id } = await params
+    const repository = await repositoryForRequest(request)
+    const fields = readExpenseFields(await readBody(request))
+
+    const updated = await repository.updateExpense(id, fields)
+    if (!updated) throw new ApiError(404, 'Expense not found')
+
+    return Response.json(updated)
+  })
+}
+
+// DELETE /api/expenses/:id
+export async function DELETE(request: Request, { params }: Context) {
+  return handle(async () => {
+    const { id } = await params
+    const repository = await repositoryForRequest(request)
+
+    await repository.deleteExpense(id)
+    return new Response(null, { status: 204 })
+  })
+}
@@ -0,0 +1,29 @@
+import { handle, readBody, readExpenseFields, readExpenseQuery, repositoryForRequest, required } from '@/lib/api'
+import { todayISO } from '@/lib/dates'
+
+// GET /api/expenses — one page of expenses, newest first: { rows, total }.
+// Filters: search, category, start, end, year. Also offset and limit.
+export async function GET(request: Request) {
+  return handle(async () => {
+    const query = readExpenseQuery(new URL(request.url))
+    const repository = await repositoryForRequest(request)
+    return Response.json(await repository.queryExpenses(query))
+  })
+}
+
+// POST /api/expenses — add an expense
+export async function POST(request: Request) {
+  return handle(async () => {
+    const repository = await repositoryForRequest(request)
+    const fields = readExpenseFields(await readBody(request))
+
+    const created = await repository.addExpense({
+      name: required(fields.name, 'name'),
+      amount: required(fields.amount, 'amount'),
+      category: fields.category ?? 'Other',
+      date_added: fields.date_added ?? todayISO()
+    })
+
+    return Response.json(created, { status: 201 })
+  })
+}
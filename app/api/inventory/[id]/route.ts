@@ -0,0 +1,28 @@
+import { ApiError, handle, loadPlatformRegistry, platformNames, readBody, readInventoryFields, repositoryForRequest } from '@/lib/api'
+
+type Context = { params: Promise<{ id: string }> }
+
+// PATCH /api/inventory/:id — change only the fields sent
+export async function PATCH(request: Request, { params }: Context) {
+  return handle(async () => {
+    const { id } = await params
+    const repository = await repositoryForRequest(request)
+    const fields = readInventoryFields(await readBody(request), platformNames(await loadPlatformRegistry(repository)))
+
+    const updated = await repository.updateInventoryItem(id, fields)
+    if (!updated) throw new ApiError(404, 'Item not found')
+
+    return Response.json(updated)
+  })
+}
+
+// DELETE /api/inventory/:id
+export async function DELETE(request: Request, { params }: Context) {
+  return handle(async () => {
+    const { id } = await params
+    const repository = await repositoryForRequest(request)
+
+    await repository.deleteInventoryItem(id)
+    return new Response(null, { status: 204 })
+  })
+}
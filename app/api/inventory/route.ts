@@ -0,0 +1,37 @@
+import { handle, loadPlatformRegistry, platformNames, readBody, readInventoryFields, readInventoryQuery, repositoryForRequest, required } from '@/lib/api'
+import { todayISO } from '@/lib/dates'
+import { generateSku } from '@/lib/sku'
+
+// GET /api/inventory — one page of items by name: { rows, total }.
+// Filters: search (name, SKU or bin), platform, status, start, end. Also offset and limit.
+export async function GET(request: Request) {
+  return handle(async () => {
+    const query = readInventoryQuery(new URL(request.url))
+    const repository = await repositoryForRequest(request)
+    return Response.json(await repository.queryInventory(query))
+  })
+}
+
+// POST /api/inventory — add an item. New items are always In Stock, and get a SKU unless one is sent.
+export async function POST(request: Request) {
+  return handle(async () => {
+    const repository = await repositoryForRequest(request)
+    const fields = readInventoryFields(await readBody(request), platformNames(await loadPlatformRegistry(repository)))
+    const dateAdded = fields.date_added ?? todayISO()
+
+    const created = await repository.addInventoryItem({
+      item_name: required(fields.item_name, 'item_name'),
+      item_cost: fields.item_cost ?? 0,
+      platforms: fields.platforms ?? [],
+      date_added: dateAdded,
+      lot_id: fields.lot_id ?? null,
+      lot_weight: fields.lot_weight ?? null,
+      expected_price: fields.expected_price ?? null,
+      source_id: fields.source_id ?? null,
+      sku: fields.sku ?? generateSku(dateAdded),
+      bin: fields.bin ?? null
+    })
+
+    return Response.json(created, { status: 201 })
+  })
+}
@@ -0,0 +1,30 @@
+import { readFile } from 'fs/promises'
+import { ApiError, handle } from '@/lib/api'
+import { PHOTO_EXTENSIONS, isPhotoPath } from '@/lib/photos'
+import { localPhotosOnly, photoFile } from '@/lib/local-photos'
+
+type Context = { params: Promise<{ path: string[] }> }
+
+// GET /api/photos/<item id>/<photo> — a photo saved by the local data store
+export async function GET(_request: Request, { params }: Context) {
+  return handle(async () => {
+    localPhotosOnly()
+    const photoPath = (await params).path.join('/')
+    if (!isPhotoPath(photoPath)) throw new ApiError(404, 'Photo not found')
+
+    let data: Buffer
+    try {
+      data = await readFile(photoFile(photoPath))
+    } catch {
+      throw new ApiError(404, 'Photo not found')
+    }
+
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': PHOTO_EXTENSIONS[photoPath.split('.').pop()!],
+        // Paths are never reused, so a photo never changes
+        'Cache-Control': 'private, max-age=31536000, immutable'
+      }
+    })
+  })
+}
@@ -0,0 +1,41 @@
+import { mkdir, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import { ApiError, handle, readBody } from '@/lib/api'
+import { MAX_PHOTO_BYTES, isPhotoPath } from '@/lib/photos'
+import { localPhotosOnly, photoFile } from '@/lib/local-photos'
+
+// Local data store only — see lib/local-photos.
+
+// POST /api/photos — multipart form with path (from photoPath) and file: { path }
+export async function POST(request: Request) {
+  return handle(async () => {
+    localPhotosOnly()
+    const form = await request.formData()
+    const photoPath = form.get('path')
+    const file = form.get('file')
+
+    if (typeof photoPath !== 'string' || !isPhotoPath(photoPath)) throw new ApiError(400, 'path is not a photo path')
+    if (!(file instanceof File)) throw new ApiError(400, 'file is required')
+    if (file.size > MAX_PHOTO_BYTES) throw new ApiError(413, 'Photo is too large')
+
+    const target = photoFile(photoPath)
+    await mkdir(path.dirname(target), { recursive: true })
+    await writeFile(target, Buffer.from(await file.arrayBuffer()))
+
+    return Response.json({ path: photoPath }, { status: 201 })
+  })
+}
+
+// DELETE /api/photos — { paths: [...] }. Paths already gone are ignored.
+export async function DELETE(request: Request) {
+  return handle(async () => {
+    localPhotosOnly()
+    const { paths } = await readBody(request)
+    if (!Array.isArray(paths) || paths.some(p => typeof p !== 'string' || !isPhotoPath(p))) {
+      throw new ApiError(400, 'paths must be a list of photo paths')
+    }
+
+    await Promise.all(paths.map(p => rm(photoFile(p), { force: true })))
+    return new Response(null, { status: 204 })
+  })
+}
@@ -0,0 +1,97 @@
+import { ApiError, amount, flag, handle, loadPlatformRegistry, platformNames, readBody, readSaleFields, repositoryForRequest } from '@/lib/api'
+import { todayISO } from '@/lib/dates'
+import { refundableFee } from '@/lib/fees'
+import { SALE_STATUS_TRANSITIONS, priceSale, reapplyRefund, refundedProfit } from '@/lib/sales'
+import { generateSku } from '@/lib/sku'
+import type { Sale } from '@/lib/types'
+
+type Context = { params: Promise<{ id: string }> }
+
+// PATCH /api/sales/:id — correct a sale's details or move it along its lifecycle.
+// Fee and profit are recomputed on every change. Moving to Returned or Cancelled also takes
+// fee_refunded (defaults to what the platform refunds), return_shipping_cost and restocked.
+// The linked inventory item can't be changed; delete the sale and record it again instead.
+export async function PATCH(request: Request, { params }: Context) {
+  return handle(async () => {
+    const { id } = await params
+    const repository = await repositoryForRequest(request)
+    const body = await readBody(request)
+    const registry = await loadPlatformRegistry(repository)
+    const { status, ...details } = readSaleFields(body, platformNames(registry))
+
+    const original = await repository.getSale(id)
+    if (!original) throw new ApiError(404, 'Sale not found')
+    if (details.inventory_id !== undefined && details.inventory_id !== (original.inventory_id ?? null)) {
+      throw new ApiError(400, "inventory_id can't be changed. Delete the sale and record it again.")
+    }
+
+    const schedules = await repository.getFeeSchedules()
+    const merged = { ...original, ...details }
+    const priced = reapplyRefund(original, { ...merged, ...priceSale(merged, schedules) })
+    let changes: Partial<Omit<Sale, 'id' | 'created_at'>> = {
+      ...details,
+      platform_fee: priced.platform_fee,
+      profit: priced.profit,
+      fee_refunded: priced.fee_refunded
+    }
+
+    const outcome = status && status !== original.status ? status : null
+    if (outcome && !SALE_STATUS_TRANSITIONS[original.status].includes(outcome)) {
+      throw new ApiError(409, `A ${original.status} sale can't move to ${outcome}`)
+    }
+
+    let restocked = false
+    if (outcome === 'Returned' || outcome === 'Cancelled') {
+      const adjustment = {
+        fee_refunded: Math.min(amount(body, 'fee_refunded') ?? refundableFee(priced, outcome, schedules, registry), priced.platform_fee),
+        return_shipping_cost: amount(body, 'return_shipping_cost') ?? 0,
+        restocked: flag(body, 'restocked') ?? false
+      }
+      changes = { ...changes, status: outcome, ...adjustment, profit: refundedProfit(priced, adjustment) }
+      restocked = adjustment.restocked
+    } else if (outcome) {
+      changes.status = outcome
+    }
+
+    const updated = await repository.updateSale(id, changes)
+    if (!updated) throw new ApiError(404, 'Sale not found')
+
+    // Put a restocked item back on the shelf, as the return dialog in the app does
+    if (restocked) {
+      if (original.inventory_id) {
+        await repository.updateInventoryItem(original.inventory_id, { status: 'In Stock' })
+      } else {
+        const dateAdded = todayISO()
+        await repository.addInventoryItem({
+          item_name: updated.item_name,
+          item_cost: updated.item_cost,
+          platforms: [updated.platform],
+          date_added: dateAdded,
+          source_id: updated.source_id ?? null,
+          sku: generateSku(dateAdded)
+        })
+      }
+    }
+
+    return Response.json(updated)
+  })
+}
+
+// DELETE /api/sales/:id — a linked item that was marked Sold goes back into stock
+export async function DELETE(request: Request, { params }: Context) {
+  return handle(async () => {
+    const { id } = await params
+    const repository = await repositoryForRequest(request)
+
+    const sale = await repository.getSale(id)
+    if (!sale) throw new ApiError(404, 'Sale not found')
+
+    await repository.deleteSale(id)
+    if (sale.inventory_id) {
+      const [item] = await repository.getInventoryItems([sale.inventory_id])
+      if (item?.status === 'Sold') await repository.updateInventoryItem(item.id, { status: 'In Stock' })
+    }
+
+    return new Response(null, { status: 204 })
+  })
+}
@@ -0,0 +1,67 @@
+import { ApiError, handle, loadPlatformRegistry, platformNames, readBody, readSaleFields, readSaleQuery, repositoryForRequest, required } from '@/lib/api'
+import { todayISO } from '@/lib/dates'
+import { isRefunded, priceSale } from '@/lib/sales'
+
+// GET /api/sales — one page of sales: { rows, total }.
+// Filters: search, platform, status, start, end, year. Also sort, offset and limit.
+export async function GET(request: Request) {
+  return handle(async () => {
+    const query = readSaleQuery(new URL(request.url))
+    const repository = await repositoryForRequest(request)
+    return Response.json(await repository.querySales(query))
+  })
+}
+
+// POST /api/sales — record a sale. Fee and profit are computed here from the fee schedules.
+// Linking inventory_id marks that item Sold, like Mark Sold in the app, and the sale takes the item's
+// name, cost and source unless they're sent. The item has to be In Stock.
+export async function POST(request: Request) {
+  return handle(async () => {
+    const repository = await repositoryForRequest(request)
+    const fields = readSaleFields(await readBody(request), platformNames(await loadPlatformRegistry(repository)))
+
+    const status = fields.status ?? 'Pending'
+    if (isRefunded({ status })) {
+      throw new ApiError(400, 'Record the sale first, then PATCH its status to Returned or Cancelled')
+    }
+
+    const [item] = fields.inventory_id ? await repository.getInventoryItems([fields.inventory_id]) : []
+    if (fields.inventory_id) {
+      if (!item) throw new ApiError(404, 'Inventory item not found')
+      if (item.status !== 'In Stock') throw new ApiError(400, `The inventory item is ${item.status}, not In Stock`)
+    }
+
+    const sale = {
+      item_name: fields.item_name ?? item?.item_name ?? required(fields.item_name, 'item_name'),
+      platform: required(fields.platform, 'platform'),
+      sale_date: fields.sale_date ?? todayISO(),
+      sale_price: required(fields.sale_price, 'sale_price'),
+      item_cost: fields.item_cost ?? item?.item_cost ?? 0,
+      shipping_cost: fields.shipping_cost ?? 0,
+      shipping_charged: fields.shipping_charged ?? null,
+      carrier: fields.carrier ?? null,
+      shipping_service: fields.shipping_service ?? null,
+      tracking_number: fields.tracking_number ?? null,
+      package_weight: fields.package_weight ?? null,
+      package_length: fields.package_length ?? null,
+      package_width: fields.package_width ?? null,
+      package_height: fields.package_height ?? null,
+      ship_by: fields.ship_by ?? null,
+      gross_total: fields.gross_total ?? null,
+      actual_received: fields.actual_received ?? null,
+      order_number: fields.order_number ?? null,
+      inventory_id: fields.inventory_id ?? null,
+      source_id: fields.source_id ?? item?.source_id ?? null,
+      status
+    }
+
+    const schedules = await repository.getFeeSchedules()
+    const created = await repository.addSale({ ...sale, ...priceSale(sale, schedules) })
+
+    if (sale.inventory_id) {
+      await repository.updateInventoryItem(sale.inventory_id, { status: 'Sold' })
+    }
+
+    return Response.json(created, { status: 201 })
+  })
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { InventoryItem, Sale } from '@/lib/types'
+import { STALE_AFTER_DAYS, ageInDays, bucketInventory, salesHistory, suggestForItem } from '@/lib/aging'
+import { todayISO } from '@/lib/dates'
+import { FALLBACK_PLATFORM_COLOR } from '@/lib/platforms'
+
+type Props = {
+  inventory: InventoryItem[]
+  sales: Sale[]
+  // Where stale items may be crosslisted
+  platforms: string[]
+  platformColors: Record<string, string>
+}
+
+const BUCKET_COLORS = ['#16a34a', '#f59e0b', '#f97316', '#dc2626']
+
+export default function AgingReport({ inventory, sales, platforms, platformColors }: Props) {
+  const [selectedBucket, setSelectedBucket] = useState<number | null>(null)
+  const today = todayISO()
+
+  const inStock = useMemo(() => inventory.filter(item => item.status === 'In Stock'), [inventory])
+  const buckets = useMemo(() => bucketInventory(inStock, today), [inStock, today])
+  const totalCapital = buckets.reduce((sum, b) => sum + b.capital, 0)
+
+  const history = useMemo(
+    () => salesHistory(sales, new Map(inventory.map(item => [item.id, item]))),
+    [sales, inventory]
+  )
+
+  const listed = (selectedBucket !== null ? buckets[selectedBucket].items : inStock)
+    .map(item => ({ item, age: ageInDays(item, today) ?? 0 }))
+    .filter(({ age }) => selectedBucket !== null || age > STALE_AFTER_DAYS)
+    .sort((a, b) => b.age - a.age)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {/* Left column: Buckets */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-1">Inventory Age</h2>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+          In-stock items by days since they were added. Click a bucket to see its items.
+        </div>
+
+        {/* Capital split */}
+        <div className="flex h-3 rounded-full overflow-hidden bg-gray-100 mb-4">
+          {buckets.map((bucket, i) => (
+            <div
+              key={bucket.label}
+              style={{
+                width: `${totalCapital > 0 ? bucket.capital / totalCapital * 100 : 0}%`,
+                backgroundColor: BUCKET_COLORS[i]
+              }}
+            />
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {buckets.map((bucket, i) => (
+            <button
+              key={bucket.label}
+              onClick={() => setSelectedBucket(selectedBucket === i ? null : i)}
+              className={`p-4 rounded-lg border-2 text-left transition-colors ${
+                selectedBucket === i ? 'bg-gray-50' : 'border-transparent bg-white shadow-sm hover:bg-gray-50'
+              }`}
+              style={selectedBucket === i ? { borderColor: BUCKET_COLORS[i] } : undefined}
+            >
+              <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">{bucket.label}</div>
+              <div className="text-xl font-bold" style={{ color: BUCKET_COLORS[i] }}>${bucket.capital.toFixed(2)}</div>
+              <div className="text-xs text-gray-500">
+                {bucket.items.length} item{bucket.items.length === 1 ? '' : 's'}
+                {totalCapital > 0 && ` · ${(bucket.capital / totalCapital * 100).toFixed(0)}% of capital`}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Right column: Items */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-bold">
+            {selectedBucket !== null ? buckets[selectedBucket].label : 'Stale Items'} ({listed.length})
+          </h2>
+          {selectedBucket !== null && (
+            <button
+              onClick={() => setSelectedBucket(null)}
+              className="px-3 py-1.5 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              Show stale items
+            </button>
+          )}
+        </div>
+        <div className="space-y-2 max-h-[600px] overflow-y-auto">
+          {listed.map(({ item, age }) => {
+            const suggestion = age > STALE_AFTER_DAYS ? suggestForItem(item, age, history, platforms) : null
+            return (
+              <div key={item.id} className="p-3 border rounded-lg hover:shadow-sm transition-shadow">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 flex-1">
+                    <div className="font-semibold text-sm truncate">{item.item_name}</div>
+                    <div className="flex flex-wrap items-center gap-1.5 mt-1 text-xs text-gray-500">
+                      <span>Cost: ${item.item_cost.toFixed(2)}</span>
+                      {item.platforms.map(p => (
+                        <span
+                          key={p}
+                          className="px-2 py-0.5 rounded-full text-white text-xs font-medium"
+                          style={{ backgroundColor: platformColors[p] || FALLBACK_PLATFORM_COLOR }}
+                        >
+                          {p}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <span className="font-bold text-sm text-gray-700 shrink-0">{age}d</span>
+                </div>
+
+                {suggestion && (
+                  <div className="mt-2 border-l-4 border-amber-400 bg-amber-50 p-2 rounded-r text-xs text-amber-800 space-y-0.5">
+                    <div>Suggest a {suggestion.markdownPercent}% markdown.</div>
+                    {suggestion.crosslistTo && (
+                      <div>
+                        Crosslist to <span className="font-semibold">{suggestion.crosslistTo}</span>
+                        {' '}— {suggestion.similarCount > 0 ? 'similar items' : 'items'} sold there in ~{suggestion.crosslistDays} days.
+                      </div>
+                    )}
+                    {suggestion.similarMedianPrice !== null && (
+                      <div>
+                        {suggestion.similarCount} similar item{suggestion.similarCount === 1 ? '' : 's'} sold for a median of ${suggestion.similarMedianPrice.toFixed(2)}.
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+          {listed.length === 0 && (
+            <div className="text-center text-gray-400 py-8 text-sm">
+              {selectedBucket !== null ? 'No items in this bucket' : `Nothing in stock longer than ${STALE_AFTER_DAYS} days`}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
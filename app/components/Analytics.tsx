@@ -0,0 +1,216 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { Expense, MileageRate, Sale, Trip } from '@/lib/types'
+import { FALLBACK_PLATFORM_COLOR } from '@/lib/platforms'
+import { monthlyPnL, platformBreakdown, yearlyPnL, type PeriodPnL } from '@/lib/analytics'
+import BarChart from '@/app/components/BarChart'
+
+type Props = {
+  // Already narrowed by search/platform/date filters, but not by year
+  sales: Sale[]
+  expenses: Expense[]
+  // Narrowed by the date filters only
+  trips: Trip[]
+  mileageRates: MileageRate[]
+  year: string
+  years: string[]
+  platformColors: Record<string, string>
+}
+
+function percentChange(current: number, previous: number) {
+  if (previous === 0) return null
+  return (current - previous) / Math.abs(previous) * 100
+}
+
+function Change({ current, previous }: { current: number, previous: number }) {
+  const change = percentChange(current, previous)
+  if (change === null) return <span className="text-gray-400">—</span>
+  return (
+    <span className={change >= 0 ? 'text-green-600' : 'text-red-600'}>
+      {change >= 0 ? '+' : ''}{change.toFixed(1)}%
+    </span>
+  )
+}
+
+function totals(rows: PeriodPnL[]) {
+  return rows.reduce((sum, r) => ({
+    label: 'Total',
+    revenue: sum.revenue + r.revenue,
+    fees: sum.fees + r.fees,
+    cogs: sum.cogs + r.cogs,
+    shipping: sum.shipping + r.shipping,
+    expenses: sum.expenses + r.expenses,
+    mileage: sum.mileage + r.mileage,
+    netProfit: sum.netProfit + r.netProfit
+  }), { label: 'Total', revenue: 0, fees: 0, cogs: 0, shipping: 0, expenses: 0, mileage: 0, netProfit: 0 })
+}
+
+export default function Analytics({ sales, expenses, trips, mileageRates, year, years, platformColors }: Props) {
+  const previousYear = year === 'all' ? null : (parseInt(year) - 1).toString()
+
+  const periods = useMemo(
+    () => year === 'all'
+      ? yearlyPnL(years, sales, expenses, trips, mileageRates)
+      : monthlyPnL(year, sales, expenses, trips, mileageRates),
+    [year, years, sales, expenses, trips, mileageRates]
+  )
+  const previousPeriods = useMemo(
+    () => previousYear ? monthlyPnL(previousYear, sales, expenses, trips, mileageRates) : [],
+    [previousYear, sales, expenses, trips, mileageRates]
+  )
+  const platforms = useMemo(
+    () => platformBreakdown(year === 'all' ? sales : sales.filter(s => s.sale_date.startsWith(year))),
+    [year, sales]
+  )
+
+  const total = totals(periods)
+  const previousTotal = totals(previousPeriods)
+  const cell = (value: number) => `$${value.toFixed(2)}`
+
+  return (
+    <div className="space-y-4">
+      {/* P&L chart + table */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-3">
+          {year === 'all' ? 'Profit & Loss by Year' : `Monthly Profit & Loss — ${year}`}
+        </h2>
+        <BarChart
+          labels={periods.map(p => p.label)}
+          series={[
+            { name: 'Revenue', color: '#16a34a', values: periods.map(p => p.revenue) },
+            { name: 'Fees', color: '#dc2626', values: periods.map(p => p.fees) },
+            { name: 'COGS', color: '#f59e0b', values: periods.map(p => p.cogs) },
+            { name: 'Expenses', color: '#f97316', values: periods.map(p => p.expenses) },
+            { name: 'Mileage', color: '#14b8a6', values: periods.map(p => p.mileage) },
+            { name: 'Net Profit', color: '#6366f1', values: periods.map(p => p.netProfit) }
+          ]}
+        />
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1 pr-2">{year === 'all' ? 'Year' : 'Month'}</th>
+                <th className="py-1 pr-2 text-right">Revenue</th>
+                <th className="py-1 pr-2 text-right">Fees</th>
+                <th className="py-1 pr-2 text-right">COGS</th>
+                <th className="py-1 pr-2 text-right">Shipping</th>
+                <th className="py-1 pr-2 text-right">Expenses</th>
+                <th className="py-1 pr-2 text-right">Mileage</th>
+                <th className="py-1 text-right">Net Profit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...periods, total].map(p => (
+                <tr key={p.label} className={`border-b ${p === total ? 'font-bold' : ''}`}>
+                  <td className="py-1 pr-2">{p.label}</td>
+                  <td className="py-1 pr-2 text-right">{cell(p.revenue)}</td>
+                  <td className="py-1 pr-2 text-right">{cell(p.fees)}</td>
+                  <td className="py-1 pr-2 text-right">{cell(p.cogs)}</td>
+                  <td className="py-1 pr-2 text-right">{cell(p.shipping)}</td>
+                  <td className="py-1 pr-2 text-right">{cell(p.expenses)}</td>
+                  <td className="py-1 pr-2 text-right">{cell(p.mileage)}</td>
+                  <td className={`py-1 text-right ${p.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {cell(p.netProfit)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Year over year */}
+        {previousYear && (
+          <div className="bg-white p-5 rounded-lg shadow-md">
+            <h2 className="text-xl font-bold mb-3">{year} vs {previousYear}</h2>
+            <BarChart
+              height={180}
+              labels={periods.map(p => p.label)}
+              series={[
+                { name: `${year} Net Profit`, color: '#6366f1', values: periods.map(p => p.netProfit) },
+                { name: `${previousYear} Net Profit`, color: '#c7d2fe', values: previousPeriods.map(p => p.netProfit) }
+              ]}
+            />
+            <table className="w-full text-sm mt-4">
+              <thead>
+                <tr className="text-left text-gray-500 border-b text-xs">
+                  <th className="py-1 pr-2"></th>
+                  <th className="py-1 pr-2 text-right">{year}</th>
+                  <th className="py-1 pr-2 text-right">{previousYear}</th>
+                  <th className="py-1 text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {([
+                  ['Revenue', 'revenue'],
+                  ['Fees', 'fees'],
+                  ['COGS', 'cogs'],
+                  ['Expenses', 'expenses'],
+                  ['Mileage', 'mileage'],
+                  ['Net Profit', 'netProfit']
+                ] as const).map(([label, key]) => (
+                  <tr key={key} className="border-b">
+                    <td className="py-1 pr-2">{label}</td>
+                    <td className="py-1 pr-2 text-right">{cell(total[key])}</td>
+                    <td className="py-1 pr-2 text-right">{cell(previousTotal[key])}</td>
+                    <td className="py-1 text-right"><Change current={total[key]} previous={previousTotal[key]} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Per-platform breakdown */}
+        <div className="bg-white p-5 rounded-lg shadow-md">
+          <h2 className="text-xl font-bold mb-3">By Platform</h2>
+          <div className="space-y-3">
+            {platforms.map(p => (
+              <div key={p.platform}>
+                <div className="flex items-center justify-between text-sm">
+                  <span
+                    className="px-2 py-0.5 rounded-full text-white text-xs font-medium"
+                    style={{ backgroundColor: platformColors[p.platform] || FALLBACK_PLATFORM_COLOR }}
+                  >
+                    {p.platform}
+                  </span>
+                  <span className="text-xs text-gray-500">{p.count} sales · {cell(p.revenue)}</span>
+                </div>
+                <div className="grid grid-cols-3 gap-2 mt-1 text-xs">
+                  <div>
+                    <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Avg Price</div>
+                    <div className="font-bold">{cell(p.averagePrice)}</div>
+                  </div>
+                  <div>
+                    <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Fee %</div>
+                    <div className="font-bold text-red-600">{p.feePercent.toFixed(1)}%</div>
+                  </div>
+                  <div>
+                    <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Margin</div>
+                    <div className={`font-bold ${p.marginPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {p.marginPercent.toFixed(1)}%
+                    </div>
+                  </div>
+                </div>
+                <div className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full"
+                    style={{
+                      width: `${Math.max(0, Math.min(p.marginPercent, 100))}%`,
+                      backgroundColor: platformColors[p.platform] || FALLBACK_PLATFORM_COLOR
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+            {platforms.length === 0 && (
+              <div className="text-center text-gray-400 py-8 text-sm">No sales in this period</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
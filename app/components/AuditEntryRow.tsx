@@ -0,0 +1,65 @@
+'use client'
+
+import type { AuditAction, AuditEntry } from '@/lib/types'
+import { AUDIT_ACTION_LABELS, AUDIT_TABLE_LABELS, auditChanges, fieldLabel, formatAuditValue } from '@/lib/audit'
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  restore: 'bg-amber-100 text-amber-800',
+  purge: 'bg-gray-200 text-gray-800',
+  mark_sold: 'bg-indigo-100 text-indigo-800'
+}
+
+type Props = {
+  entry: AuditEntry
+  // The signed-in user, shown as "You"
+  userId: string
+  // The full log names the record; a record's own history doesn't need to
+  showRecord?: boolean
+}
+
+export default function AuditEntryRow({ entry, userId, showRecord = false }: Props) {
+  const changes = auditChanges(entry)
+  const who = entry.changed_by === userId ? 'You' : entry.changed_by_email ?? 'Someone'
+  // A create or purge lists the whole row; only changes show before → after
+  const showsChange = entry.before !== null && entry.after !== null
+
+  return (
+    <div className="p-3 border rounded-lg">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className={`px-2 py-0.5 rounded-full font-medium ${ACTION_COLORS[entry.action]}`}>
+          {AUDIT_ACTION_LABELS[entry.action]}
+        </span>
+        {showRecord && (
+          <span className="font-semibold text-sm text-gray-900">
+            {AUDIT_TABLE_LABELS[entry.table_name]}: {entry.record_name ?? 'Untitled'}
+          </span>
+        )}
+        <span className="text-gray-500">{who}</span>
+        <span className="text-gray-400">{new Date(entry.created_at).toLocaleString()}</span>
+      </div>
+      {changes.length > 0 && (
+        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+          {changes.map(({ field, before, after }) => (
+            <div key={field} className="contents">
+              <dt className="text-gray-500">{fieldLabel(field)}</dt>
+              <dd className="text-gray-800 break-all">
+                {showsChange ? (
+                  <>
+                    <span className="text-red-700 line-through">{formatAuditValue(before)}</span>
+                    {' → '}
+                    <span className="text-green-700">{formatAuditValue(after)}</span>
+                  </>
+                ) : (
+                  formatAuditValue(after ?? before)
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { queryAuditLog } from '@/lib/repository'
+import type { AuditAction, AuditEntry } from '@/lib/types'
+import { PAGE_SIZE, type AuditFilters } from '@/lib/queries'
+import { AUDIT_ACTION_LABELS, AUDIT_TABLE_LABELS } from '@/lib/audit'
+import AuditEntryRow from '@/app/components/AuditEntryRow'
+
+type Props = {
+  userId: string
+}
+
+// Every logged change to sales, inventory and expenses, newest first
+export default function AuditLog({ userId }: Props) {
+  const [filters, setFilters] = useState<AuditFilters>({ start: '', end: '' })
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  async function load(query: AuditFilters, offset: number) {
+    try {
+      const page = await queryAuditLog({ ...query, offset, limit: PAGE_SIZE })
+      setEntries(current => offset === 0 ? page.rows : [...current, ...page.rows])
+      setTotal(page.total)
+    } catch (error) {
+      console.error('Error loading change history:', error)
+      alert('Error loading change history. Check console for details.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load(filters, 0)
+  }, [filters])
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-md max-w-3xl mx-auto">
+      <h2 className="text-xl font-bold mb-1">Change History ({total})</h2>
+      <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+        Every create, edit, delete and sale of a sale, inventory item or expense, with who made it and the
+        values before and after. Each card&apos;s History link shows just that record.
+      </div>
+      <div className="flex flex-wrap items-end gap-2 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.start}
+            onChange={(e) => setFilters({...filters, start: e.target.value})}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.end}
+            onChange={(e) => setFilters({...filters, end: e.target.value})}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Records</label>
+          <select
+            value={filters.table ?? ''}
+            onChange={(e) => setFilters({...filters, table: (e.target.value || undefined) as AuditFilters['table']})}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">All</option>
+            {Object.entries(AUDIT_TABLE_LABELS).map(([table, label]) => (
+              <option key={table} value={table}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Change</label>
+          <select
+            value={filters.action ?? ''}
+            onChange={(e) => setFilters({...filters, action: (e.target.value || undefined) as AuditAction | undefined})}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">All</option>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+              <option key={action} value={action}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {(filters.start || filters.end || filters.table || filters.action) && (
+          <button
+            onClick={() => setFilters({ start: '', end: '' })}
+            className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="space-y-2 max-h-[600px] overflow-y-auto">
+        {entries.map(entry => <AuditEntryRow key={entry.id} entry={entry} userId={userId} showRecord />)}
+        {!loading && entries.length === 0 && (
+          <div className="text-center text-gray-400 py-8 text-sm">No changes logged</div>
+        )}
+        {entries.length < total && (
+          <button
+            onClick={() => load(filters, entries.length)}
+            className="w-full py-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            Load more ({total - entries.length} left)
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getCurrentUser, onAuthChange, signIn, signUp } from '@/lib/repository'
+import type { AppUser } from '@/lib/types'
+
+type Props = {
+  children: (user: AppUser) => React.ReactNode
+}
+
+// Shows a sign-in form until there is a session, then renders the app for that user
+export default function AuthGate({ children }: Props) {
+  const [user, setUser] = useState<AppUser | null>(null)
+  const [checking, setChecking] = useState(true)
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getCurrentUser()
+      .then(setUser)
+      .catch(error => console.error('Error checking session:', error))
+      .finally(() => setChecking(false))
+
+    return onAuthChange(setUser)
+  }, [])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      if (mode === 'sign-in') {
+        await signIn(email, password)
+      } else {
+        const signedIn = await signUp(email, password)
+        if (!signedIn) setMessage('Check your email to confirm your account, then sign in.')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-white text-xl font-semibold">Loading...</div>
+      </div>
+    )
+  }
+
+  if (user) return <>{children(user)}</>
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
+        <h1 className="text-2xl font-bold mb-1">Resale Tracker</h1>
+        <p className="text-sm text-gray-500 mb-4">
+          {mode === 'sign-in' ? 'Sign in to your books' : 'Create an account'}
+        </p>
+
+        {error && (
+          <div className="border-l-4 border-red-400 bg-red-50 p-3 rounded-r mb-4 text-sm text-red-800">{error}</div>
+        )}
+        {message && (
+          <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">{message}</div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Email</label>
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Password</label>
+            <input
+              type="password"
+              required
+              minLength={6}
+              autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-indigo-500 text-white py-2.5 rounded-lg font-semibold hover:bg-indigo-600 transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Please wait...' : mode === 'sign-in' ? 'Sign In' : 'Sign Up'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => {
+            setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')
+            setError(null)
+            setMessage(null)
+          }}
+          className="w-full mt-3 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          {mode === 'sign-in' ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+// Grouped bar chart drawn as inline SVG, so charts work offline and need no chart library
+
+export type BarSeries = {
+  name: string
+  color: string
+  values: number[]
+}
+
+type Props = {
+  labels: string[]
+  series: BarSeries[]
+  height?: number
+}
+
+const WIDTH = 640
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 }
+
+function formatAxis(value: number) {
+  const abs = Math.abs(value)
+  if (abs >= 1000) return `${value < 0 ? '-' : ''}$${(abs / 1000).toFixed(1)}k`
+  return `${value < 0 ? '-' : ''}$${abs.toFixed(0)}`
+}
+
+export default function BarChart({ labels, series, height = 220 }: Props) {
+  const values = series.flatMap(s => s.values)
+  const max = Math.max(0, ...values)
+  const min = Math.min(0, ...values)
+  const range = max - min || 1
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const y = (value: number) => PADDING.top + (max - value) / range * plotHeight
+  const groupWidth = plotWidth / Math.max(labels.length, 1)
+  const barWidth = groupWidth * 0.8 / Math.max(series.length, 1)
+  const ticks = [max, max - range / 2, min]
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {ticks.map((tick, i) => (
+          <g key={i}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+              {formatAxis(tick)}
+            </text>
+          </g>
+        ))}
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" />
+
+        {labels.map((label, i) => {
+          const groupX = PADDING.left + i * groupWidth + groupWidth * 0.1
+          return (
+            <g key={label}>
+              {series.map((s, j) => {
+                const value = s.values[i] ?? 0
+                return (
+                  <rect
+                    key={s.name}
+                    x={groupX + j * barWidth}
+                    y={Math.min(y(value), y(0))}
+                    width={Math.max(barWidth - 1, 1)}
+                    height={Math.abs(y(value) - y(0))}
+                    fill={s.color}
+                  >
+                    <title>{`${s.name} ${label}: $${value.toFixed(2)}`}</title>
+                  </rect>
+                )
+              })}
+              <text
+                x={PADDING.left + i * groupWidth + groupWidth / 2}
+                y={height - 8}
+                textAnchor="middle"
+                fontSize="10"
+                fill="#6b7280"
+              >
+                {label}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-3 mt-1">
+        {series.map(s => (
+          <span key={s.name} className="flex items-center gap-1 text-xs text-gray-600">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }} />
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
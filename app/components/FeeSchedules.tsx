@@ -0,0 +1,326 @@
+'use client'
+
+import { useState } from 'react'
+import { addFeeSchedule, updateFeeSchedule, deleteFeeSchedule } from '@/lib/repository'
+import type { FeeSchedule } from '@/lib/types'
+import { DEFAULT_FEE_SCHEDULES, applyFeeSchedule, type FeeScheduleRules } from '@/lib/fees'
+
+type TierForm = { up_to: string, percent: string, fixed: string }
+
+const emptyForm = (platform: string) => ({
+  platform,
+  effective_from: new Date().toISOString().split('T')[0],
+  tier_mode: 'bracket' as FeeSchedule['tier_mode'],
+  tiers: [{ up_to: '', percent: '', fixed: '' }] as TierForm[],
+  fixed_per_order: '',
+  max_fee: ''
+})
+
+type Props = {
+  schedules: FeeSchedule[]
+  // Every registered platform, active or not
+  platforms: string[]
+  onChanged: () => Promise<void>
+}
+
+export default function FeeSchedules({ schedules, platforms, onChanged }: Props) {
+  const [form, setForm] = useState(emptyForm(platforms[0]))
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [samplePrice, setSamplePrice] = useState('25')
+
+  function scheduleFromForm(): FeeScheduleRules {
+    return {
+      platform: form.platform,
+      effective_from: form.effective_from,
+      tier_mode: form.tier_mode,
+      tiers: form.tiers.map(t => ({
+        up_to: t.up_to ? parseFloat(t.up_to) : null,
+        percent: parseFloat(t.percent) || 0,
+        fixed: parseFloat(t.fixed) || 0
+      })),
+      fixed_per_order: parseFloat(form.fixed_per_order) || 0,
+      max_fee: form.max_fee ? parseFloat(form.max_fee) : null
+    }
+  }
+
+  function resetForm() {
+    setEditingId(null)
+    setForm(emptyForm(form.platform))
+  }
+
+  function startEdit(schedule: FeeSchedule) {
+    setEditingId(schedule.id)
+    setForm({
+      platform: schedule.platform,
+      effective_from: schedule.effective_from,
+      tier_mode: schedule.tier_mode,
+      tiers: schedule.tiers.map(t => ({
+        up_to: t.up_to !== null ? t.up_to.toString() : '',
+        percent: t.percent.toString(),
+        fixed: t.fixed.toString()
+      })),
+      fixed_per_order: schedule.fixed_per_order.toString(),
+      max_fee: schedule.max_fee !== null ? schedule.max_fee.toString() : ''
+    })
+  }
+
+  function updateTier(index: number, changes: Partial<TierForm>) {
+    setForm({ ...form, tiers: form.tiers.map((t, i) => i === index ? { ...t, ...changes } : t) })
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+
+    // The open-ended tier catches every price above the others
+    const openTiers = form.tiers.filter(t => !t.up_to).length
+    if (openTiers !== 1) {
+      alert('Exactly one tier must have no upper limit.')
+      return
+    }
+
+    try {
+      if (editingId) {
+        await updateFeeSchedule(editingId, scheduleFromForm())
+      } else {
+        await addFeeSchedule(scheduleFromForm())
+      }
+      await onChanged()
+      resetForm()
+    } catch (error) {
+      // A teammate saved a schedule for this platform and date meanwhile
+      if ((error as { code?: string }).code === '23505') {
+        alert('There is already a fee schedule for this platform from that date.')
+        await onChanged()
+        return
+      }
+      console.error('Error saving fee schedule:', error)
+      alert('Error saving fee schedule. Check console for details.')
+    }
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this fee schedule? Sales on those dates will fall back to the previous schedule.')) return
+    try {
+      await deleteFeeSchedule(id)
+      if (editingId === id) resetForm()
+      await onChanged()
+    } catch (error) {
+      console.error('Error deleting fee schedule:', error)
+    }
+  }
+
+  const sampleFee = applyFeeSchedule(scheduleFromForm(), parseFloat(samplePrice) || 0)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {/* Left column: Form */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-1">{editingId ? 'Edit Fee Schedule' : 'Add Fee Schedule'}</h2>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+          When a platform changes its fees, add a new schedule starting on that date. Sales before it keep using the old rates.
+        </div>
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Platform</label>
+              <select
+                value={form.platform}
+                onChange={(e) => setForm({...form, platform: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Effective From</label>
+              <input
+                type="date"
+                required
+                value={form.effective_from}
+                onChange={(e) => setForm({...form, effective_from: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Fixed Per Order</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.fixed_per_order}
+                onChange={(e) => setForm({...form, fixed_per_order: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Fee Cap</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.max_fee}
+                onChange={(e) => setForm({...form, max_fee: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="No cap"
+              />
+            </div>
+          </div>
+
+          <div className="border-t pt-3 mt-3">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-gray-700 text-sm">Tiers</h3>
+              <select
+                value={form.tier_mode}
+                onChange={(e) => setForm({...form, tier_mode: e.target.value as FeeSchedule['tier_mode']})}
+                className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+              >
+                <option value="bracket">Whole price at its tier</option>
+                <option value="marginal">Each slice at its own tier</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              {form.tiers.map((tier, i) => (
+                <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Price Below</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={tier.up_to}
+                      onChange={(e) => updateTier(i, { up_to: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="No limit"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Percent</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={tier.percent}
+                      onChange={(e) => updateTier(i, { percent: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="0"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Flat Fee</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={tier.fixed}
+                      onChange={(e) => updateTier(i, { fixed: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    disabled={form.tiers.length === 1}
+                    onClick={() => setForm({...form, tiers: form.tiers.filter((_, j) => j !== i)})}
+                    className="text-red-400 hover:text-red-600 text-xs pb-2 disabled:opacity-30"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setForm({...form, tiers: [...form.tiers, { up_to: '', percent: '', fixed: '' }]})}
+              className="mt-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              + Add Tier
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>Fee on a</span>
+            <input
+              type="number"
+              step="0.01"
+              value={samplePrice}
+              onChange={(e) => setSamplePrice(e.target.value)}
+              className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+            <span>sale: <span className="font-semibold text-red-600">${sampleFee.toFixed(2)}</span></span>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 bg-indigo-500 text-white py-2.5 rounded-lg font-semibold hover:bg-indigo-600 transition-colors"
+            >
+              {editingId ? 'Save Changes' : 'Add Schedule'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {/* Right column: Schedules list */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-3">Fee Schedules ({schedules.length})</h2>
+        <div className="space-y-4 max-h-[600px] overflow-y-auto">
+          {platforms.map(platform => {
+            const platformSchedules = schedules.filter(s => s.platform === platform)
+            return (
+              <div key={platform}>
+                <h3 className="font-semibold text-sm text-gray-700 mb-2">{platform}</h3>
+                <div className="space-y-2">
+                  {platformSchedules.map(schedule => (
+                    <div key={schedule.id} className="p-3 border rounded-lg hover:shadow-sm transition-shadow">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0 flex-1 text-xs text-gray-600">
+                          <div className="font-semibold text-sm text-gray-900">
+                            From {new Date(schedule.effective_from + 'T00:00:00').toLocaleDateString()}
+                          </div>
+                          {schedule.tiers.map((tier, i) => (
+                            <div key={i}>
+                              {tier.up_to !== null ? `Under $${tier.up_to.toFixed(2)}: ` : i > 0 ? 'Above: ' : ''}
+                              {tier.percent}%{tier.fixed ? ` + $${tier.fixed.toFixed(2)}` : ''}
+                            </div>
+                          ))}
+                          {schedule.fixed_per_order > 0 && <div>+ ${schedule.fixed_per_order.toFixed(2)} per order</div>}
+                          {schedule.max_fee !== null && <div>Capped at ${schedule.max_fee.toFixed(2)}</div>}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <button
+                            onClick={() => startEdit(schedule)}
+                            className="text-indigo-400 hover:text-indigo-600 text-xs"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(schedule.id)}
+                            className="text-red-400 hover:text-red-600 text-xs"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                  {platformSchedules.length === 0 && (
+                    <div className="text-xs text-gray-400">
+                      {DEFAULT_FEE_SCHEDULES.some(s => s.platform === platform)
+                        ? 'No schedules — using built-in default rates'
+                        : 'No schedules — no fees charged'}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
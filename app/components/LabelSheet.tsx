@@ -0,0 +1,83 @@
+'use client'
+
+import type { InventoryItem } from '@/lib/types'
+import { code128 } from '@/lib/barcode'
+
+type Props = {
+  items: InventoryItem[]
+  onClose: () => void
+}
+
+// Null when the SKU has characters a barcode can't carry; the label still shows it as text
+function encode(sku: string) {
+  try {
+    return code128(sku)
+  } catch {
+    return null
+  }
+}
+
+function Barcode({ value }: { value: string }) {
+  const barcode = encode(value)
+  if (!barcode) return null
+
+  return (
+    <svg
+      viewBox={`0 0 ${barcode.width} 30`}
+      preserveAspectRatio="none"
+      shapeRendering="crispEdges"
+      className="w-full h-10"
+      role="img"
+      aria-label={`Barcode ${value}`}
+    >
+      {barcode.bars.map(bar => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={30} fill="#000" />
+      ))}
+    </svg>
+  )
+}
+
+// A sheet of labels for the selected items, three across when printed
+export default function LabelSheet({ items, onClose }: Props) {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50 print:static print:block print:bg-white print:p-0">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-5 print:max-w-none print:max-h-none print:overflow-visible print:shadow-none print:p-0">
+        <div className="flex items-center justify-between mb-1 print:hidden">
+          <h2 className="text-xl font-bold">Labels ({items.length})</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm">Close</button>
+        </div>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800 print:hidden">
+          Print on plain paper or a 3-across label sheet, then stick each label on the item or its bag.
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 print:grid-cols-3">
+          {items.map(item => (
+            <div key={item.id} className="border border-gray-300 rounded p-2 text-xs break-inside-avoid">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="font-mono font-bold">{item.sku}</span>
+                {item.bin && <span className="font-semibold shrink-0">Bin {item.bin}</span>}
+              </div>
+              <div className="truncate mb-1">{item.item_name}</div>
+              {item.sku && <Barcode value={item.sku} />}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-4 print:hidden">
+          <button
+            onClick={() => window.print()}
+            className="flex-1 bg-indigo-500 text-white py-2.5 rounded-lg font-semibold hover:bg-indigo-600 transition-colors"
+          >
+            Print
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
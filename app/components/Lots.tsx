@@ -0,0 +1,423 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  addLot,
+  updateLot,
+  deleteLot,
+  addInventoryItem,
+  updateInventoryItem,
+  updateSale
+} from '@/lib/repository'
+import type {
+  InventoryItem,
+  Lot,
+  LotAllocationMethod,
+  Sale
+} from '@/lib/types'
+import { allocateLotCost, lotPerformance } from '@/lib/lots'
+import { isRefunded } from '@/lib/sales'
+
+const ALLOCATION_LABELS: Record<LotAllocationMethod, string> = {
+  even: 'Evenly',
+  weight: 'By weight',
+  expected_price: 'By expected sale price'
+}
+
+const emptyLotForm = () => ({
+  name: '',
+  total_cost: '',
+  purchase_date: new Date().toISOString().split('T')[0],
+  allocation_method: 'even' as LotAllocationMethod
+})
+
+const emptyItemForm = () => ({
+  item_name: '',
+  platforms: [] as string[],
+  lot_weight: '',
+  expected_price: ''
+})
+
+type Props = {
+  lots: Lot[]
+  inventory: InventoryItem[]
+  sales: Sale[]
+  // Active platforms, for crosslisting new items
+  platforms: string[]
+  onChanged: () => Promise<void>
+}
+
+export default function Lots({ lots, inventory, sales, platforms, onChanged }: Props) {
+  const [lotForm, setLotForm] = useState(emptyLotForm())
+  const [editingLotId, setEditingLotId] = useState<string | null>(null)
+  const [selectedLotId, setSelectedLotId] = useState<string | null>(null)
+  const [itemForm, setItemForm] = useState(emptyItemForm())
+
+  const selectedLot = lots.find(lot => lot.id === selectedLotId) ?? null
+  const itemsInLot = (lotId: string) => inventory.filter(item => item.lot_id === lotId)
+
+  // Write each item's share of the lot cost. Sold items carried their cost
+  // into the sale, so that sale's cost and profit are kept in step too.
+  async function applyAllocation(lot: Pick<Lot, 'total_cost' | 'allocation_method'>, items: InventoryItem[]) {
+    const shares = allocateLotCost(lot, items)
+    for (const item of items) {
+      const cost = shares.get(item.id) ?? 0
+      if (cost === item.item_cost) continue
+      await updateInventoryItem(item.id, { item_cost: cost })
+
+      for (const sale of sales.filter(s => s.inventory_id === item.id)) {
+        const countsCost = !(isRefunded(sale) && sale.restocked)
+        await updateSale(sale.id, {
+          item_cost: cost,
+          profit: countsCost ? sale.profit + sale.item_cost - cost : sale.profit
+        })
+      }
+    }
+  }
+
+  function resetLotForm() {
+    setEditingLotId(null)
+    setLotForm(emptyLotForm())
+  }
+
+  async function handleSaveLot(e: React.FormEvent) {
+    e.preventDefault()
+
+    const lot = {
+      name: lotForm.name,
+      total_cost: parseFloat(lotForm.total_cost) || 0,
+      purchase_date: lotForm.purchase_date,
+      allocation_method: lotForm.allocation_method
+    }
+
+    try {
+      if (editingLotId) {
+        await updateLot(editingLotId, lot)
+        await applyAllocation(lot, itemsInLot(editingLotId))
+      } else {
+        const created = await addLot(lot)
+        setSelectedLotId(created.id)
+      }
+      await onChanged()
+      resetLotForm()
+    } catch (error) {
+      console.error('Error saving lot:', error)
+      alert('Error saving lot. Check console for details.')
+    }
+  }
+
+  function startEditLot(lot: Lot) {
+    setEditingLotId(lot.id)
+    setLotForm({
+      name: lot.name,
+      total_cost: lot.total_cost.toString(),
+      purchase_date: lot.purchase_date,
+      allocation_method: lot.allocation_method
+    })
+  }
+
+  async function handleDeleteLot(id: string) {
+    if (!confirm('Delete this lot? Its items stay in inventory with their current cost.')) return
+    try {
+      await deleteLot(id)
+      if (editingLotId === id) resetLotForm()
+      if (selectedLotId === id) setSelectedLotId(null)
+      await onChanged()
+    } catch (error) {
+      console.error('Error deleting lot:', error)
+    }
+  }
+
+  async function handleAddItem(e: React.FormEvent) {
+    e.preventDefault()
+    if (!selectedLot) return
+
+    try {
+      const item = await addInventoryItem({
+        item_name: itemForm.item_name,
+        item_cost: 0,
+        platforms: itemForm.platforms,
+        date_added: selectedLot.purchase_date,
+        lot_id: selectedLot.id,
+        lot_weight: itemForm.lot_weight ? parseFloat(itemForm.lot_weight) : null,
+        expected_price: itemForm.expected_price ? parseFloat(itemForm.expected_price) : null
+      })
+      await applyAllocation(selectedLot, [...itemsInLot(selectedLot.id), item])
+      await onChanged()
+      setItemForm({ ...emptyItemForm(), platforms: itemForm.platforms })
+    } catch (error) {
+      console.error('Error adding item to lot:', error)
+      alert('Error adding item to lot. Check console for details.')
+    }
+  }
+
+  async function handleItemBasis(lot: Lot, item: InventoryItem, value: string) {
+    const amount = value ? parseFloat(value) : null
+    const field = lot.allocation_method === 'weight' ? 'lot_weight' : 'expected_price'
+    if (amount === (item[field] ?? null)) return
+
+    try {
+      await updateInventoryItem(item.id, { [field]: amount })
+      await applyAllocation(lot, itemsInLot(lot.id).map(i => i.id === item.id ? { ...i, [field]: amount } : i))
+      await onChanged()
+    } catch (error) {
+      console.error('Error updating lot item:', error)
+      alert('Error updating lot item. Check console for details.')
+    }
+  }
+
+  async function handleRemoveItem(lot: Lot, item: InventoryItem) {
+    if (!confirm(`Take ${item.item_name} out of this lot? It keeps its current cost.`)) return
+    try {
+      await updateInventoryItem(item.id, { lot_id: null })
+      await applyAllocation(lot, itemsInLot(lot.id).filter(i => i.id !== item.id))
+      await onChanged()
+    } catch (error) {
+      console.error('Error removing item from lot:', error)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {/* Left column: Forms */}
+      <div className="space-y-4">
+        <div className="bg-white p-5 rounded-lg shadow-md">
+          <h2 className="text-xl font-bold mb-1">{editingLotId ? 'Edit Lot' : 'Add Lot'}</h2>
+          <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+            Bought a bag or bin for one price? Enter the total once, then add its items. Each item&apos;s cost is its share of the lot.
+          </div>
+          <form onSubmit={handleSaveLot} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Lot Name</label>
+                <input
+                  type="text"
+                  required
+                  value={lotForm.name}
+                  onChange={(e) => setLotForm({...lotForm, name: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  placeholder="e.g., Goodwill bins 3/14"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Total Cost</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  required
+                  value={lotForm.total_cost}
+                  onChange={(e) => setLotForm({...lotForm, total_cost: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Purchase Date</label>
+                <input
+                  type="date"
+                  required
+                  value={lotForm.purchase_date}
+                  onChange={(e) => setLotForm({...lotForm, purchase_date: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Allocate Cost</label>
+                <select
+                  value={lotForm.allocation_method}
+                  onChange={(e) => setLotForm({...lotForm, allocation_method: e.target.value as LotAllocationMethod})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {(Object.keys(ALLOCATION_LABELS) as LotAllocationMethod[]).map(method => (
+                    <option key={method} value={method}>{ALLOCATION_LABELS[method]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="flex-1 bg-amber-500 text-white py-2.5 rounded-lg font-semibold hover:bg-amber-600 transition-colors"
+              >
+                {editingLotId ? 'Save Changes' : 'Add Lot'}
+              </button>
+              {editingLotId && (
+                <button
+                  type="button"
+                  onClick={resetLotForm}
+                  className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        {selectedLot && (
+          <div className="bg-white p-5 rounded-lg shadow-md">
+            <h2 className="text-xl font-bold mb-3">Add Item to {selectedLot.name}</h2>
+            <form onSubmit={handleAddItem} className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Item Name</label>
+                  <input
+                    type="text"
+                    required
+                    value={itemForm.item_name}
+                    onChange={(e) => setItemForm({...itemForm, item_name: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                {selectedLot.allocation_method === 'weight' && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Weight</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={itemForm.lot_weight}
+                      onChange={(e) => setItemForm({...itemForm, lot_weight: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="Any unit, e.g. 1 or 2.5"
+                    />
+                  </div>
+                )}
+                {selectedLot.allocation_method === 'expected_price' && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Expected Sale Price</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={itemForm.expected_price}
+                      onChange={(e) => setItemForm({...itemForm, expected_price: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="0.00"
+                    />
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-2">Platforms (Crosslisting)</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {platforms.map((platform) => (
+                    <label key={platform} className="flex items-center text-sm">
+                      <input
+                        type="checkbox"
+                        checked={itemForm.platforms.includes(platform)}
+                        onChange={(e) => setItemForm({
+                          ...itemForm,
+                          platforms: e.target.checked
+                            ? [...itemForm.platforms, platform]
+                            : itemForm.platforms.filter(p => p !== platform)
+                        })}
+                        className="mr-2"
+                      />
+                      {platform}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <button
+                type="submit"
+                className="w-full bg-amber-500 text-white py-2.5 rounded-lg font-semibold hover:bg-amber-600 transition-colors"
+              >
+                Add to Lot
+              </button>
+            </form>
+          </div>
+        )}
+      </div>
+
+      {/* Right column: Lots list */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-3">Lots ({lots.length})</h2>
+        <div className="space-y-2 max-h-[600px] overflow-y-auto">
+          {lots.map(lot => {
+            const items = itemsInLot(lot.id)
+            const stats = lotPerformance(lot, items, sales)
+            const selected = lot.id === selectedLotId
+            return (
+              <div
+                key={lot.id}
+                className={`p-3 border rounded-lg hover:shadow-sm transition-shadow ${selected ? 'border-amber-500' : ''}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    onClick={() => setSelectedLotId(selected ? null : lot.id)}
+                    className="min-w-0 flex-1 text-left"
+                  >
+                    <div className="font-semibold text-sm truncate">{lot.name}</div>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                      <span>{new Date(lot.purchase_date + 'T00:00:00').toLocaleDateString()}</span>
+                      <span>Cost: ${lot.total_cost.toFixed(2)}</span>
+                      <span>{stats.soldCount}/{stats.itemCount} sold</span>
+                      <span>{ALLOCATION_LABELS[lot.allocation_method]}</span>
+                    </div>
+                    <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-green-500" style={{ width: `${stats.recoveredPercent}%` }} />
+                    </div>
+                    <div className="flex justify-between mt-1 text-xs">
+                      <span className="text-gray-500">{stats.recoveredPercent.toFixed(0)}% of cost recovered</span>
+                      <span className={`font-bold ${stats.profitToDate >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {stats.profitToDate >= 0 ? '+' : ''}${stats.profitToDate.toFixed(2)}
+                      </span>
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => startEditLot(lot)}
+                      className="text-indigo-400 hover:text-indigo-600 text-xs"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDeleteLot(lot.id)}
+                      className="text-red-400 hover:text-red-600 text-xs"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {selected && (
+                  <div className="mt-3 border-t pt-2 space-y-1">
+                    {items.map(item => (
+                      <div key={item.id} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="min-w-0 flex-1 truncate">
+                          {item.item_name}
+                          {item.status !== 'In Stock' && <span className="text-gray-400"> · {item.status}</span>}
+                        </span>
+                        {lot.allocation_method !== 'even' && (
+                          <input
+                            type="number"
+                            step="0.01"
+                            defaultValue={(lot.allocation_method === 'weight' ? item.lot_weight : item.expected_price) ?? ''}
+                            onBlur={(e) => handleItemBasis(lot, item, e.target.value)}
+                            className="w-20 px-2 py-0.5 border border-gray-300 rounded text-xs"
+                            title={lot.allocation_method === 'weight' ? 'Weight' : 'Expected sale price'}
+                          />
+                        )}
+                        <span className="w-16 text-right text-gray-600">${item.item_cost.toFixed(2)}</span>
+                        <button
+                          onClick={() => handleRemoveItem(lot, item)}
+                          className="text-red-400 hover:text-red-600"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                    {items.length === 0 && (
+                      <div className="text-gray-400 text-xs">No items yet — add them with the form on the left</div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+          {lots.length === 0 && (
+            <div className="text-center text-gray-400 py-8 text-sm">No lots yet</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import type { FeeSchedule, InventoryItem, NewSale } from '@/lib/types'
+import { emptySaleForm, saleFromForm, type SaleForm } from '@/lib/sales'
+import SaleFormFields from '@/app/components/SaleFormFields'
+
+type Props = {
+  item: InventoryItem
+  feeSchedules: FeeSchedule[]
+  // Active platforms
+  platforms: string[]
+  onClose: () => void
+  onConfirm: (sale: NewSale) => Promise<void>
+}
+
+export default function MarkSoldDialog({ item, feeSchedules, platforms: activePlatforms, onClose, onConfirm }: Props) {
+  // Only offer the platforms the item is crosslisted on, if any were recorded
+  const listedPlatforms = activePlatforms.filter(p => item.platforms.includes(p))
+  const platforms = listedPlatforms.length > 0 ? listedPlatforms : activePlatforms
+
+  const [form, setForm] = useState<SaleForm>({
+    ...emptySaleForm(platforms[0]),
+    item_name: item.item_name,
+    item_cost: item.item_cost.toString()
+  })
+  const [saving, setSaving] = useState(false)
+
+  const preview = form.sale_price ? saleFromForm(form, feeSchedules) : null
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    try {
+      setSaving(true)
+      await onConfirm(saleFromForm(form, feeSchedules))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-5">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-xl font-bold">Mark as Sold</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm">Close</button>
+        </div>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+          Record the sale of this item. It stays in inventory marked as sold.
+        </div>
+        {(item.bin || item.sku) && (
+          <div className="border-l-4 border-amber-400 bg-amber-50 p-3 rounded-r mb-4 text-sm text-amber-800">
+            {item.bin ? <>Pull it from <span className="font-bold">{item.bin}</span></> : 'No bin recorded'}
+            {item.sku && <> — SKU <span className="font-mono font-semibold">{item.sku}</span></>}
+          </div>
+        )}
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <SaleFormFields form={form} onChange={setForm} platforms={platforms} />
+
+          {/* Live preview of what this sale will record */}
+          <div className="grid grid-cols-2 gap-3 bg-gray-50 rounded-lg p-3 text-sm">
+            <div>
+              <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Platform Fee</div>
+              <div className="font-bold text-red-600">
+                {preview ? `$${preview.platform_fee.toFixed(2)}` : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Profit</div>
+              {preview ? (
+                <div className={`font-bold ${preview.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {preview.profit >= 0 ? '+' : ''}${preview.profit.toFixed(2)}
+                </div>
+              ) : (
+                <div className="font-bold text-gray-400">—</div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-green-600 text-white py-2.5 rounded-lg font-semibold hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Confirm Sale'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
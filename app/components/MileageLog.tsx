@@ -0,0 +1,265 @@
+'use client'
+
+import { useState } from 'react'
+import { addTrip, updateTrip, deleteTrip } from '@/lib/repository'
+import type { MileageRate, Trip } from '@/lib/types'
+import { mileageDeduction, mileageRate, tripDeduction, tripDistance, tripYear } from '@/lib/mileage'
+import { downloadCSV } from '@/lib/csv'
+import { todayISO } from '@/lib/dates'
+
+const emptyForm = () => ({
+  trip_date: todayISO(),
+  purpose: '',
+  location: '',
+  start_odometer: '',
+  end_odometer: '',
+  distance: ''
+})
+
+type Props = {
+  trips: Trip[]
+  rates: MileageRate[]
+  // Four-digit year, or 'all'
+  year: string
+  onChanged: () => Promise<void>
+}
+
+export default function MileageLog({ trips, rates, year, onChanged }: Props) {
+  const [form, setForm] = useState(emptyForm())
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const yearTrips = year === 'all' ? trips : trips.filter(trip => trip.trip_date.startsWith(year))
+  const totalMiles = yearTrips.reduce((sum, trip) => sum + trip.distance, 0)
+  const totalDeduction = mileageDeduction(yearTrips, rates)
+
+  const formMiles = tripDistance(form)
+  const formRate = mileageRate(Number(form.trip_date.substring(0, 4)) || new Date().getFullYear(), rates)
+  const usingOdometer = form.start_odometer !== '' && form.end_odometer !== ''
+
+  function resetForm() {
+    setEditingId(null)
+    setForm(emptyForm())
+  }
+
+  function startEdit(trip: Trip) {
+    setEditingId(trip.id)
+    setForm({
+      trip_date: trip.trip_date,
+      purpose: trip.purpose,
+      location: trip.location ?? '',
+      start_odometer: trip.start_odometer !== null ? trip.start_odometer.toString() : '',
+      end_odometer: trip.end_odometer !== null ? trip.end_odometer.toString() : '',
+      distance: trip.distance.toString()
+    })
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+
+    if (usingOdometer && parseFloat(form.end_odometer) < parseFloat(form.start_odometer)) {
+      alert('The ending odometer reading must be at least the starting one.')
+      return
+    }
+
+    const trip = {
+      trip_date: form.trip_date,
+      purpose: form.purpose,
+      location: form.location.trim() || null,
+      start_odometer: form.start_odometer ? parseFloat(form.start_odometer) : null,
+      end_odometer: form.end_odometer ? parseFloat(form.end_odometer) : null,
+      distance: formMiles
+    }
+
+    try {
+      if (editingId) {
+        await updateTrip(editingId, trip)
+      } else {
+        await addTrip(trip)
+      }
+      await onChanged()
+      resetForm()
+    } catch (error) {
+      console.error('Error saving trip:', error)
+      alert('Error saving trip. Check console for details.')
+    }
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this trip?')) return
+    try {
+      await deleteTrip(id)
+      if (editingId === id) resetForm()
+      await onChanged()
+    } catch (error) {
+      console.error('Error deleting trip:', error)
+    }
+  }
+
+  // A mileage log with what the IRS asks for: date, destination, purpose and miles
+  function exportTripsCSV() {
+    const headers = ['Date', 'Purpose', 'Location', 'Start Odometer', 'End Odometer', 'Miles', 'Rate', 'Deduction']
+    const rows = yearTrips.map(trip => [
+      trip.trip_date, trip.purpose, trip.location ?? '',
+      trip.start_odometer?.toString() ?? '', trip.end_odometer?.toString() ?? '',
+      trip.distance.toFixed(1), mileageRate(tripYear(trip), rates).toFixed(3), tripDeduction(trip, rates).toFixed(2)
+    ])
+    downloadCSV(`mileage-${year}.csv`, headers, rows)
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {/* Left column: Form */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-1">{editingId ? 'Edit Trip' : 'Log a Trip'}</h2>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+          Business drives — sourcing runs, post office trips — are deducted at the standard mileage rate for their year.
+          Enter odometer readings, or just the miles.
+        </div>
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Purpose</label>
+              <input
+                type="text"
+                required
+                value={form.purpose}
+                onChange={(e) => setForm({...form, purpose: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="e.g., Estate sale sourcing"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
+              <input
+                type="date"
+                required
+                value={form.trip_date}
+                onChange={(e) => setForm({...form, trip_date: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Location</label>
+            <input
+              type="text"
+              value={form.location}
+              onChange={(e) => setForm({...form, location: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="e.g., Goodwill on Main St"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Start Odometer</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                value={form.start_odometer}
+                onChange={(e) => setForm({...form, start_odometer: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">End Odometer</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                value={form.end_odometer}
+                onChange={(e) => setForm({...form, end_odometer: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Miles</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                required={!usingOdometer}
+                disabled={usingOdometer}
+                value={usingOdometer ? formMiles.toFixed(1) : form.distance}
+                onChange={(e) => setForm({...form, distance: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm disabled:bg-gray-50"
+              />
+            </div>
+          </div>
+
+          <div className="text-sm text-gray-600">
+            Deduction: <span className="font-semibold text-teal-600">${(formMiles * formRate).toFixed(2)}</span>
+            <span className="text-xs text-gray-400"> at ${formRate.toFixed(3)}/mi</span>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 bg-teal-500 text-white py-2.5 rounded-lg font-semibold hover:bg-teal-600 transition-colors"
+            >
+              {editingId ? 'Save Changes' : 'Log Trip'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {/* Right column: Trips list */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-bold">Mileage ({yearTrips.length})</h2>
+          <button
+            onClick={exportTripsCSV}
+            className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors"
+          >
+            Export CSV
+          </button>
+        </div>
+        <div className="flex justify-between text-sm p-3 bg-gray-50 rounded-lg mb-3">
+          <span>{totalMiles.toFixed(1)} miles</span>
+          <span className="font-bold text-teal-600">${totalDeduction.toFixed(2)} deduction</span>
+        </div>
+        <div className="space-y-2 max-h-[600px] overflow-y-auto">
+          {yearTrips.map(trip => (
+            <div key={trip.id} className="flex items-center justify-between p-3 border rounded-lg hover:shadow-sm transition-shadow">
+              <div className="min-w-0">
+                <div className="font-semibold text-sm">{trip.purpose}</div>
+                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                  <span>{new Date(trip.trip_date + 'T00:00:00').toLocaleDateString()}</span>
+                  {trip.location && <span>{trip.location}</span>}
+                  <span>{trip.distance.toFixed(1)} mi</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <div className="text-base font-bold text-teal-600">${tripDeduction(trip, rates).toFixed(2)}</div>
+                <button
+                  onClick={() => startEdit(trip)}
+                  className="text-indigo-400 hover:text-indigo-600 text-xs"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(trip.id)}
+                  className="text-red-400 hover:text-red-600 text-xs"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+          {yearTrips.length === 0 && (
+            <div className="text-center text-gray-400 py-8 text-sm">No trips logged</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
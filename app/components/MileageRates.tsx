@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { addMileageRate, updateMileageRate, deleteMileageRate } from '@/lib/repository'
+import type { MileageRate } from '@/lib/types'
+import { DEFAULT_MILEAGE_RATES, defaultMileageRate, savedMileageRate } from '@/lib/mileage'
+
+type Props = {
+  rates: MileageRate[]
+  // Years with data, so each can be given a rate
+  years: string[]
+  onChanged: () => Promise<void>
+}
+
+export default function MileageRates({ rates, years, onChanged }: Props) {
+  // Rates being typed, by year
+  const [drafts, setDrafts] = useState<Record<number, string>>({})
+
+  const allYears = Array.from(new Set([
+    new Date().getFullYear(),
+    ...Object.keys(DEFAULT_MILEAGE_RATES).map(Number),
+    ...rates.map(r => r.year),
+    ...years.map(Number)
+  ])).sort((a, b) => b - a)
+
+  function clearDraft(year: number) {
+    setDrafts(Object.fromEntries(Object.entries(drafts).filter(([y]) => Number(y) !== year)))
+  }
+
+  async function handleSave(year: number) {
+    const rate = parseFloat(drafts[year])
+    if (isNaN(rate) || rate < 0) {
+      alert('Enter a rate in dollars per mile, e.g. 0.70')
+      return
+    }
+
+    try {
+      const existing = savedMileageRate(year, rates)
+      if (existing) {
+        await updateMileageRate(existing.id, { rate })
+      } else {
+        await addMileageRate({ year, rate })
+      }
+      await onChanged()
+      clearDraft(year)
+    } catch (error) {
+      // A teammate saved a rate for this year meanwhile
+      if ((error as { code?: string }).code === '23505') {
+        alert(`${year} already has a mileage rate.`)
+        await onChanged()
+        return
+      }
+      console.error('Error saving mileage rate:', error)
+      alert('Error saving mileage rate. Check console for details.')
+    }
+  }
+
+  async function handleReset(rate: MileageRate) {
+    try {
+      await deleteMileageRate(rate.id)
+      await onChanged()
+      clearDraft(rate.year)
+    } catch (error) {
+      console.error('Error deleting mileage rate:', error)
+    }
+  }
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-md">
+      <h2 className="text-xl font-bold mb-1">Mileage Rates</h2>
+      <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+        Trips are deducted at the IRS standard mileage rate for their year. Change a year&apos;s rate if the IRS revises it
+        or if the built-in one is out of date.
+      </div>
+      <div className="space-y-2 max-w-xl">
+        {allYears.map(year => {
+          const custom = savedMileageRate(year, rates)
+          const rate = custom?.rate ?? defaultMileageRate(year)
+          return (
+            <div key={year} className="flex items-center gap-3 text-sm">
+              <span className="w-12 font-semibold">{year}</span>
+              <div className="flex items-center gap-1">
+                <span className="text-gray-500">$</span>
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={drafts[year] ?? rate.toString()}
+                  onChange={(e) => setDrafts({ ...drafts, [year]: e.target.value })}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+                <span className="text-gray-500">/ mi</span>
+              </div>
+              <span className="text-xs text-gray-400">
+                {custom ? 'Custom' : year in DEFAULT_MILEAGE_RATES ? 'IRS rate' : 'Nearest IRS rate'}
+              </span>
+              {drafts[year] !== undefined && (
+                <button
+                  onClick={() => handleSave(year)}
+                  className="px-3 py-1.5 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                  Save
+                </button>
+              )}
+              {custom && (
+                <button
+                  onClick={() => handleReset(custom)}
+                  className="text-red-400 hover:text-red-600 text-xs"
+                >
+                  Use built-in
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
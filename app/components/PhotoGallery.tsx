@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import { deletePhotos, photoUrl, updateInventoryItem, uploadPhoto } from '@/lib/repository'
+import type { InventoryItem } from '@/lib/types'
+import { MAX_PHOTO_BYTES, PHOTO_EXTENSIONS, isAllowedPhoto } from '@/lib/photos'
+import PhotoThumb from '@/app/components/PhotoThumb'
+
+type Props = {
+  item: InventoryItem
+  onClose: () => void
+  onChanged: () => Promise<void>
+}
+
+// An item's photos, large, with adding, removing and picking the cover
+export default function PhotoGallery({ item, onClose, onChanged }: Props) {
+  const photos = item.photos ?? []
+  const [selected, setSelected] = useState(0)
+  const [uploading, setUploading] = useState(false)
+  const index = Math.min(selected, Math.max(photos.length - 1, 0))
+  const current = photos[index]
+
+  async function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    const unsupported = files.filter(file => !isAllowedPhoto(file))
+    if (unsupported.length > 0) {
+      alert(`${unsupported.map(file => file.name).join(', ')} ${unsupported.length === 1 ? 'is' : 'are'} not a JPEG, PNG, WebP, GIF or HEIC image.`)
+      return
+    }
+    const tooLarge = files.filter(file => file.size > MAX_PHOTO_BYTES)
+    if (tooLarge.length > 0) {
+      alert(`${tooLarge.map(file => file.name).join(', ')} ${tooLarge.length === 1 ? 'is' : 'are'} over ${MAX_PHOTO_BYTES / 1024 / 1024} MB.`)
+      return
+    }
+    if (files.length === 0) return
+
+    try {
+      setUploading(true)
+      const paths: string[] = []
+      for (const file of files) {
+        paths.push(await uploadPhoto(item.id, file))
+      }
+      await updateInventoryItem(item.id, { photos: [...photos, ...paths] })
+      await onChanged()
+      setSelected(photos.length)
+    } catch (error) {
+      console.error('Error uploading photos:', error)
+      alert('Error uploading photos. Photos need a connection — check console for details.')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  async function handleRemove(path: string) {
+    if (!confirm('Remove this photo?')) return
+    try {
+      await updateInventoryItem(item.id, { photos: photos.filter(p => p !== path) })
+      await deletePhotos([path])
+      await onChanged()
+    } catch (error) {
+      console.error('Error removing photo:', error)
+      alert('Error removing photo. Check console for details.')
+    }
+  }
+
+  async function handleMakeCover(path: string) {
+    try {
+      await updateInventoryItem(item.id, { photos: [path, ...photos.filter(p => p !== path)] })
+      await onChanged()
+      setSelected(0)
+    } catch (error) {
+      console.error('Error setting cover photo:', error)
+      alert('Error setting cover photo. Check console for details.')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-5">
+        <div className="flex items-center justify-between mb-3">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold truncate">{item.item_name}</h2>
+            <div className="text-xs text-gray-500">
+              {photos.length === 0 ? 'No photos yet' : `Photo ${index + 1} of ${photos.length}`}
+              {item.sku && <span className="ml-2 font-mono">{item.sku}</span>}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm">Close</button>
+        </div>
+
+        {current ? (
+          <div className="relative bg-gray-100 rounded-lg overflow-hidden">
+            <Image
+              src={photoUrl(current)}
+              alt={item.item_name}
+              width={800}
+              height={600}
+              unoptimized
+              className="w-full h-[50vh] object-contain"
+            />
+            {photos.length > 1 && (
+              <>
+                <button
+                  onClick={() => setSelected((index - 1 + photos.length) % photos.length)}
+                  className="absolute left-2 top-1/2 -translate-y-1/2 bg-white/80 hover:bg-white rounded-full w-8 h-8 font-bold"
+                  aria-label="Previous photo"
+                >
+                  ‹
+                </button>
+                <button
+                  onClick={() => setSelected((index + 1) % photos.length)}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 bg-white/80 hover:bg-white rounded-full w-8 h-8 font-bold"
+                  aria-label="Next photo"
+                >
+                  ›
+                </button>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="border-2 border-dashed border-gray-300 rounded-lg py-16 text-center text-gray-400 text-sm">
+            Add photos so you can tell this item apart from similar ones
+          </div>
+        )}
+
+        {current && (
+          <div className="flex items-center gap-3 mt-2 text-xs">
+            {index === 0 ? (
+              <span className="text-gray-500">Cover photo</span>
+            ) : (
+              <button onClick={() => handleMakeCover(current)} className="text-indigo-400 hover:text-indigo-600">
+                Make Cover
+              </button>
+            )}
+            <button onClick={() => handleRemove(current)} className="text-red-400 hover:text-red-600">
+              Remove
+            </button>
+          </div>
+        )}
+
+        {photos.length > 1 && (
+          <div className="flex gap-2 mt-3 overflow-x-auto pb-1">
+            {photos.map((path, i) => (
+              <div key={path} className={`rounded ${i === index ? 'ring-2 ring-indigo-500' : ''}`}>
+                <PhotoThumb path={path} alt={`${item.item_name} photo ${i + 1}`} size={56} onClick={() => setSelected(i)} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <label className={`block mt-4 text-center bg-indigo-500 text-white py-2.5 rounded-lg font-semibold transition-colors ${
+          uploading ? 'opacity-50' : 'hover:bg-indigo-600 cursor-pointer'
+        }`}>
+          {uploading ? 'Uploading…' : 'Add Photos'}
+          <input
+            type="file"
+            accept={Object.keys(PHOTO_EXTENSIONS).map(extension => `.${extension}`).join(',')}
+            multiple
+            disabled={uploading}
+            onChange={handleUpload}
+            className="hidden"
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
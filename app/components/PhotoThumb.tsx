@@ -0,0 +1,34 @@
+'use client'
+
+import Image from 'next/image'
+import { photoUrl } from '@/lib/repository'
+
+type Props = {
+  path: string
+  alt: string
+  // Square size in pixels
+  size?: number
+  onClick?: () => void
+}
+
+// An item's photo cropped square, for cards and the gallery strip. Photos come straight from
+// storage, so Next's image optimizer is skipped.
+export default function PhotoThumb({ path, alt, size = 48, onClick }: Props) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="shrink-0 rounded overflow-hidden border border-gray-200 bg-gray-50 hover:opacity-90"
+      style={{ width: size, height: size }}
+    >
+      <Image
+        src={photoUrl(path)}
+        alt={alt}
+        width={size}
+        height={size}
+        unoptimized
+        className="w-full h-full object-cover"
+      />
+    </button>
+  )
+}
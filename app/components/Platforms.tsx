@@ -0,0 +1,231 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { addPlatform, updatePlatform, deletePlatform } from '@/lib/repository'
+import type { FeeRefundRule, Platform } from '@/lib/types'
+import { DEFAULT_PLATFORMS, platformRegistry, type RegisteredPlatform } from '@/lib/platforms'
+
+const REFUND_RULES: { rule: FeeRefundRule, label: string }[] = [
+  { rule: 'all', label: 'Refunds the whole fee' },
+  { rule: 'variable', label: 'Refunds the percentage fee only' },
+  { rule: 'none', label: 'Keeps the fee' }
+]
+
+const emptyForm = () => ({
+  name: '',
+  color: '#6366f1',
+  refund_on_return: 'all' as FeeRefundRule,
+  refund_on_cancel: 'all' as FeeRefundRule,
+  active: true
+})
+
+type Props = {
+  // Saved platforms; the built-in ones are added here
+  platforms: Platform[]
+  onChanged: () => Promise<void>
+}
+
+export default function Platforms({ platforms, onChanged }: Props) {
+  const [form, setForm] = useState(emptyForm())
+  // Null when adding; otherwise the registry entry being edited, which for a built-in may not be saved yet
+  const [editing, setEditing] = useState<RegisteredPlatform | null>(null)
+
+  const registry = useMemo(() => platformRegistry(platforms), [platforms])
+  const isBuiltIn = (name: string) => DEFAULT_PLATFORMS.some(p => p.name === name)
+
+  function resetForm() {
+    setEditing(null)
+    setForm(emptyForm())
+  }
+
+  function startEdit(platform: RegisteredPlatform) {
+    setEditing(platform)
+    setForm({
+      name: platform.name,
+      color: platform.color,
+      refund_on_return: platform.refund_on_return,
+      refund_on_cancel: platform.refund_on_cancel,
+      active: platform.active
+    })
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+
+    const name = form.name.trim()
+    if (!editing && registry.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+      alert(`${name} is already a platform.`)
+      return
+    }
+
+    // Names can't change once sales refer to them, so only the rules are saved when editing
+    const rules = {
+      color: form.color,
+      refund_on_return: form.refund_on_return,
+      refund_on_cancel: form.refund_on_cancel,
+      active: form.active
+    }
+
+    try {
+      if (editing?.id) {
+        await updatePlatform(editing.id, rules)
+      } else {
+        await addPlatform({ name: editing ? editing.name : name, ...rules })
+      }
+      await onChanged()
+      resetForm()
+    } catch (error) {
+      // A teammate saved the same platform meanwhile
+      if ((error as { code?: string }).code === '23505') {
+        alert(`${name || editing?.name} is already a platform.`)
+        await onChanged()
+        return
+      }
+      console.error('Error saving platform:', error)
+      alert('Error saving platform. Check console for details.')
+    }
+  }
+
+  async function handleDelete(platform: RegisteredPlatform) {
+    if (!platform.id) return
+    const message = isBuiltIn(platform.name)
+      ? `Go back to the built-in settings for ${platform.name}?`
+      : `Delete ${platform.name}? Sales already recorded on it keep its name. To stop offering it but keep its color, make it inactive instead.`
+    if (!confirm(message)) return
+    try {
+      await deletePlatform(platform.id)
+      if (editing?.name === platform.name) resetForm()
+      await onChanged()
+    } catch (error) {
+      console.error('Error deleting platform:', error)
+    }
+  }
+
+  const ruleLabel = (rule: FeeRefundRule) => REFUND_RULES.find(r => r.rule === rule)?.label
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {/* Left column: Form */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-1">{editing ? `Edit ${editing.name}` : 'Add Platform'}</h2>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+          Active platforms are offered when recording sales and crosslisting items. Inactive ones stay on past
+          sales and in filters. Set a platform&apos;s fees under Fee Schedules below.
+        </div>
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+              <input
+                type="text"
+                required
+                disabled={editing !== null}
+                value={form.name}
+                onChange={(e) => setForm({...form, name: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm disabled:bg-gray-50 disabled:text-gray-500"
+                placeholder="e.g., Vinted"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Color</label>
+              <input
+                type="color"
+                value={form.color}
+                onChange={(e) => setForm({...form, color: e.target.value})}
+                className="h-[38px] w-16 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">On a return, the platform</label>
+              <select
+                value={form.refund_on_return}
+                onChange={(e) => setForm({...form, refund_on_return: e.target.value as FeeRefundRule})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {REFUND_RULES.map(r => <option key={r.rule} value={r.rule}>{r.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">On a cancellation, the platform</label>
+              <select
+                value={form.refund_on_cancel}
+                onChange={(e) => setForm({...form, refund_on_cancel: e.target.value as FeeRefundRule})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {REFUND_RULES.map(r => <option key={r.rule} value={r.rule}>{r.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setForm({...form, active: e.target.checked})}
+              className="rounded"
+            />
+            Active — offer it for new sales and crosslisting
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 bg-indigo-500 text-white py-2.5 rounded-lg font-semibold hover:bg-indigo-600 transition-colors"
+            >
+              {editing ? 'Save Changes' : 'Add Platform'}
+            </button>
+            {editing && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {/* Right column: Registry */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-3">Platforms ({registry.length})</h2>
+        <div className="space-y-2 max-h-[600px] overflow-y-auto">
+          {registry.map(platform => (
+            <div
+              key={platform.name}
+              className={`flex items-center justify-between p-3 border rounded-lg hover:shadow-sm transition-shadow ${platform.active ? '' : 'opacity-60'}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 font-semibold text-sm">
+                  <span className="inline-block w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: platform.color }} />
+                  {platform.name}
+                  {!platform.active && <span className="text-xs font-normal text-gray-500">Inactive</span>}
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  Return: {ruleLabel(platform.refund_on_return)} · Cancel: {ruleLabel(platform.refund_on_cancel)}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <button
+                  onClick={() => startEdit(platform)}
+                  className="text-indigo-400 hover:text-indigo-600 text-xs"
+                >
+                  Edit
+                </button>
+                {platform.id && (
+                  <button
+                    onClick={() => handleDelete(platform)}
+                    className="text-red-400 hover:text-red-600 text-xs"
+                  >
+                    {isBuiltIn(platform.name) ? 'Reset' : 'Delete'}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,539 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { addPayouts, deletePayout, getPayouts, addForm1099K, updateForm1099K, deleteForm1099K } from '@/lib/repository'
+import type { Form1099K, Payout, Sale } from '@/lib/types'
+import { form1099K, parsePayoutReport, payoutKey, payoutWindow, reconcile, type MismatchKind } from '@/lib/reconciliation'
+import { downloadCSV } from '@/lib/csv'
+import { todayISO } from '@/lib/dates'
+
+const MISMATCH_LABELS: Record<MismatchKind, string> = {
+  missing_sale: 'Paid, no sale recorded',
+  unpaid_sale: 'Sale never paid out',
+  fee_difference: 'Fee differs'
+}
+
+const emptyPayoutForm = () => ({
+  payout_date: todayISO(),
+  net: '',
+  gross: '',
+  fees: '',
+  sales_tax: '',
+  order_number: '',
+  reference: ''
+})
+
+const money = (value: number) => `$${value.toFixed(2)}`
+
+function Difference({ value }: { value: number }) {
+  const matches = Math.abs(value) < 0.01
+  return (
+    <span className={`font-semibold ${matches ? 'text-green-600' : 'text-red-600'}`}>
+      {matches ? 'Matches' : `${value > 0 ? '+' : '−'}${money(Math.abs(value))}`}
+    </span>
+  )
+}
+
+type Form1099KEditorProps = {
+  platform: string
+  year: string
+  form: Form1099K | undefined
+  onChanged: () => Promise<void>
+}
+
+// Keyed by platform and year, so it starts over with that form's figures
+function Form1099KEditor({ platform, year, form, onChanged }: Form1099KEditorProps) {
+  const [grossAmount, setGrossAmount] = useState(form ? form.gross_amount.toString() : '')
+  const [transactionCount, setTransactionCount] = useState(form?.transaction_count != null ? form.transaction_count.toString() : '')
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+
+    const values = {
+      gross_amount: parseFloat(grossAmount),
+      transaction_count: transactionCount ? parseInt(transactionCount) : null
+    }
+
+    try {
+      if (form) {
+        await updateForm1099K(form.id, values)
+      } else {
+        await addForm1099K({ platform, year: parseInt(year), ...values })
+      }
+      await onChanged()
+    } catch (error) {
+      // A teammate saved this 1099-K meanwhile
+      if ((error as { code?: string }).code === '23505') {
+        alert(`${platform} already has a ${year} 1099-K.`)
+        await onChanged()
+        return
+      }
+      console.error('Error saving 1099-K:', error)
+      alert('Error saving 1099-K. Check console for details.')
+    }
+  }
+
+  async function handleDelete() {
+    if (!form || !confirm(`Remove the ${year} 1099-K from ${platform}?`)) return
+    try {
+      await deleteForm1099K(form.id)
+      await onChanged()
+    } catch (error) {
+      console.error('Error deleting 1099-K:', error)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSave} className="flex flex-wrap items-end gap-2">
+      <div className="flex-1 min-w-[120px]">
+        <label className="block text-xs font-medium text-gray-600 mb-1">Box 1a gross ($)</label>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          required
+          value={grossAmount}
+          onChange={(e) => setGrossAmount(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+      </div>
+      <div className="w-28">
+        <label className="block text-xs font-medium text-gray-600 mb-1">Box 3 transactions</label>
+        <input
+          type="number"
+          step="1"
+          min="0"
+          value={transactionCount}
+          onChange={(e) => setTransactionCount(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+      </div>
+      <button
+        type="submit"
+        className="px-4 py-2 bg-teal-500 text-white text-sm rounded-lg font-semibold hover:bg-teal-600 transition-colors"
+      >
+        {form ? 'Update' : 'Save'}
+      </button>
+      {form && (
+        <button type="button" onClick={handleDelete} className="text-red-400 hover:text-red-600 text-xs py-2">
+          Remove
+        </button>
+      )}
+    </form>
+  )
+}
+
+type Props = {
+  sales: Sale[]
+  forms: Form1099K[]
+  // Every registered platform, active or not
+  platforms: string[]
+  years: string[]
+  defaultYear: string
+  onChanged: () => Promise<void>
+}
+
+export default function Reconciliation({ sales, forms, platforms, years, defaultYear, onChanged }: Props) {
+  const [year, setYear] = useState(defaultYear === 'all' ? years[0] : defaultYear)
+  const [platform, setPlatform] = useState(platforms[0])
+  const [payoutForm, setPayoutForm] = useState(emptyPayoutForm())
+  // Payouts for the platform and year on screen
+  const [payouts, setPayouts] = useState<Payout[]>([])
+
+  async function loadPayouts(forPlatform: string, forYear: string) {
+    const { start, end } = payoutWindow(forYear)
+    return getPayouts(forPlatform, start, end)
+  }
+
+  async function reloadPayouts() {
+    setPayouts(await loadPayouts(platform, year))
+  }
+
+  useEffect(() => {
+    // Switching platform or year again before this loads drops the older answer
+    let current = true
+    loadPayouts(platform, year)
+      .then(rows => {
+        if (current) setPayouts(rows)
+      })
+      .catch(error => {
+        console.error('Error loading payouts:', error)
+        alert('Error loading payouts. Check console for details.')
+      })
+    return () => {
+      current = false
+    }
+  }, [platform, year])
+
+  const result = useMemo(
+    () => reconcile(platform, year, sales, payouts, forms),
+    [platform, year, sales, payouts, forms]
+  )
+  const form = form1099K(forms, platform, year)
+  const yearPayouts = payouts.filter(p => p.platform === platform && p.payout_date.startsWith(year))
+
+  async function handleAddPayout(e: React.FormEvent) {
+    e.preventDefault()
+
+    const amountOrNull = (value: string) => value ? parseFloat(value) : null
+    try {
+      const added = await addPayouts([{
+        platform,
+        payout_date: payoutForm.payout_date,
+        net: parseFloat(payoutForm.net),
+        gross: amountOrNull(payoutForm.gross),
+        fees: amountOrNull(payoutForm.fees),
+        sales_tax: amountOrNull(payoutForm.sales_tax),
+        order_number: payoutForm.order_number.trim() || null,
+        reference: payoutForm.reference.trim() || null
+      }])
+      if (added.length === 0) {
+        alert('This payout is already recorded.')
+        return
+      }
+      await reloadPayouts()
+      setPayoutForm(emptyPayoutForm())
+    } catch (error) {
+      console.error('Error adding payout:', error)
+      alert('Error adding payout. Check console for details.')
+    }
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const report = parsePayoutReport(await file.text(), platform)
+    if (!report) {
+      alert('Could not find a date and a net amount column in this file.')
+      return
+    }
+
+    // Compare against everything recorded over the report's dates, not just the year on screen
+    const dates = report.payouts.map(payout => payout.payout_date).sort()
+    let existingKeys: Set<string>
+    try {
+      existingKeys = dates.length > 0
+        ? new Set((await getPayouts(platform, dates[0], dates[dates.length - 1])).map(payoutKey))
+        : new Set()
+    } catch (error) {
+      console.error('Error checking for existing payouts:', error)
+      alert('Error checking for previously imported payouts. Check console for details.')
+      return
+    }
+    const fresh = report.payouts.filter(payout => !existingKeys.has(payoutKey(payout)))
+    const skipped = report.payouts.length - fresh.length
+    const notes = [
+      skipped > 0 ? `${skipped} already imported will be skipped.` : '',
+      report.errors.length > 0 ? `${report.errors.length} rows couldn't be read (first on line ${report.errors[0].line}).` : ''
+    ].filter(Boolean)
+    if (fresh.length === 0) {
+      alert(['Nothing new to import.', ...notes].join('\n'))
+      return
+    }
+    if (!confirm([`Import ${fresh.length} ${platform} payout lines?`, ...notes].join('\n'))) return
+
+    try {
+      await addPayouts(fresh)
+      await reloadPayouts()
+    } catch (error) {
+      console.error('Error importing payouts:', error)
+      alert('Error importing payouts. Check console for details.')
+    }
+  }
+
+  async function handleDeletePayout(id: string) {
+    if (!confirm('Delete this payout?')) return
+    try {
+      await deletePayout(id)
+      await reloadPayouts()
+    } catch (error) {
+      console.error('Error deleting payout:', error)
+    }
+  }
+
+  function exportCSV() {
+    const headers = ['Platform', 'Year', 'Issue', 'Order Number', 'Date', 'Item', 'Recorded Fee', 'Reported Fee']
+    const rows = result.mismatches.map(m => [
+      platform,
+      year,
+      MISMATCH_LABELS[m.kind],
+      m.order_number,
+      m.date,
+      m.item_name ?? '',
+      m.recorded !== null ? m.recorded.toFixed(2) : '',
+      m.reported !== null ? m.reported.toFixed(2) : ''
+    ])
+    downloadCSV(`reconciliation-${platform}-${year}.csv`, headers, rows)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+          <h2 className="text-xl font-bold">Reconciliation — {platform} {year}</h2>
+          <div className="flex gap-2">
+            <select
+              value={platform}
+              onChange={(e) => setPlatform(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+            >
+              {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <select
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+            >
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+            <button
+              onClick={exportCSV}
+              disabled={result.mismatches.length === 0}
+              className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors disabled:opacity-50"
+            >
+              Export CSV
+            </button>
+          </div>
+        </div>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+          A 1099-K reports what buyers paid, including returned sales and any sales tax the marketplace
+          collected for the state. Import the platform&apos;s transaction report to match payouts to sales by order number.
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Form 1099-K</h3>
+            <table className="w-full text-sm mb-3">
+              <tbody>
+                <tr className="border-b">
+                  <td className="py-1.5">Recorded sales ({result.salesCount})</td>
+                  <td className="py-1.5 text-right tabular-nums">{money(result.recordedGross)}</td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1.5">Sales tax collected by {platform}</td>
+                  <td className="py-1.5 text-right tabular-nums">{money(result.salesTax)}</td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1.5">Reported on 1099-K</td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {result.reportedGross !== null ? money(result.reportedGross) : '—'}
+                  </td>
+                </tr>
+                <tr className="font-bold">
+                  <td className="py-1.5">Unexplained</td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {result.grossDifference !== null ? <Difference value={result.grossDifference} /> : 'Enter the 1099-K'}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <Form1099KEditor key={`${platform}-${year}`} platform={platform} year={year} form={form} onChanged={onChanged} />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Payouts</h3>
+            <table className="w-full text-sm">
+              <tbody>
+                <tr className="border-b">
+                  <td className="py-1.5">Expected from sales</td>
+                  <td className="py-1.5 text-right tabular-nums">{money(result.expectedNet)}</td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1.5">Paid out ({yearPayouts.length})</td>
+                  <td className="py-1.5 text-right tabular-nums">{money(result.paidOut)}</td>
+                </tr>
+                <tr className="font-bold">
+                  <td className="py-1.5">Difference</td>
+                  <td className="py-1.5 text-right tabular-nums"><Difference value={result.payoutDifference} /></td>
+                </tr>
+              </tbody>
+            </table>
+            <div className="text-xs text-gray-500 mt-2">
+              Shipping labels bought on the platform and payouts that cross the new year also show up here.
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Order-by-order mismatches */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-1">Mismatches ({result.mismatches.length})</h2>
+        {result.orderLevel ? (
+          <div className="text-xs text-gray-500 mb-3">
+            {result.matchedOrders} orders matched.
+            {result.salesWithoutOrderNumber > 0 && ` ${result.salesWithoutOrderNumber} sales have no order number and can't be matched.`}
+          </div>
+        ) : (
+          <div className="text-xs text-gray-500 mb-3">
+            No payouts with order numbers for {platform} in {year} — import a transaction report to match sales one by one.
+          </div>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1 pr-2">Issue</th>
+                <th className="py-1 pr-2">Order</th>
+                <th className="py-1 pr-2">Date</th>
+                <th className="py-1 pr-2">Item</th>
+                <th className="py-1 pr-2 text-right">Our Fee</th>
+                <th className="py-1 text-right">{platform}&apos;s Fee</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.mismatches.map(m => (
+                <tr key={`${m.kind}-${m.order_number}`} className="border-b">
+                  <td className={`py-1 pr-2 font-semibold ${m.kind === 'fee_difference' ? 'text-amber-600' : 'text-red-600'}`}>
+                    {MISMATCH_LABELS[m.kind]}
+                  </td>
+                  <td className="py-1 pr-2 font-mono">{m.order_number}</td>
+                  <td className="py-1 pr-2">{m.date}</td>
+                  <td className="py-1 pr-2">{m.item_name ?? '—'}</td>
+                  <td className="py-1 pr-2 text-right">{m.recorded !== null ? money(m.recorded) : ''}</td>
+                  <td className="py-1 text-right">{m.reported !== null ? money(m.reported) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.mismatches.length === 0 && (
+            <div className="text-center text-gray-400 py-8 text-sm">Nothing to chase</div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Left column: Add payouts */}
+        <div className="bg-white p-5 rounded-lg shadow-md">
+          <h2 className="text-xl font-bold mb-1">Add {platform} Payouts</h2>
+          <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+            Import a payout or transaction report as CSV, or enter a deposit from your bank statement.
+          </div>
+          <input type="file" accept=".csv,text/csv" onChange={handleImport} className="text-sm mb-4" />
+          <form onSubmit={handleAddPayout} className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
+                <input
+                  type="date"
+                  required
+                  value={payoutForm.payout_date}
+                  onChange={(e) => setPayoutForm({...payoutForm, payout_date: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Net Deposited ($)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  required
+                  value={payoutForm.net}
+                  onChange={(e) => setPayoutForm({...payoutForm, net: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Gross ($)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={payoutForm.gross}
+                  onChange={(e) => setPayoutForm({...payoutForm, gross: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Fees ($)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={payoutForm.fees}
+                  onChange={(e) => setPayoutForm({...payoutForm, fees: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Sales Tax ($)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={payoutForm.sales_tax}
+                  onChange={(e) => setPayoutForm({...payoutForm, sales_tax: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Order Number</label>
+                <input
+                  type="text"
+                  value={payoutForm.order_number}
+                  onChange={(e) => setPayoutForm({...payoutForm, order_number: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  placeholder="For a single order"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Reference</label>
+                <input
+                  type="text"
+                  value={payoutForm.reference}
+                  onChange={(e) => setPayoutForm({...payoutForm, reference: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  placeholder="Payout ID"
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              className="w-full bg-teal-500 text-white py-2.5 rounded-lg font-semibold hover:bg-teal-600 transition-colors"
+            >
+              Add Payout
+            </button>
+          </form>
+        </div>
+
+        {/* Right column: Payouts list */}
+        <div className="bg-white p-5 rounded-lg shadow-md">
+          <h2 className="text-xl font-bold mb-3">{platform} Payouts {year} ({yearPayouts.length})</h2>
+          <div className="space-y-2 max-h-[600px] overflow-y-auto">
+            {yearPayouts.map(payout => (
+              <div key={payout.id} className="flex items-center justify-between p-3 border rounded-lg hover:shadow-sm transition-shadow">
+                <div className="min-w-0">
+                  <div className="font-semibold text-sm">
+                    {money(payout.net)}
+                    {payout.order_number && <span className="font-mono font-normal text-gray-500"> · {payout.order_number}</span>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                    <span>{payout.payout_date}</span>
+                    {payout.gross !== null && <span>Gross {money(payout.gross)}</span>}
+                    {payout.fees !== null && <span>Fees {money(payout.fees)}</span>}
+                    {payout.sales_tax !== null && payout.sales_tax > 0 && <span>Tax {money(payout.sales_tax)}</span>}
+                    {payout.reference && <span>{payout.reference}</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDeletePayout(payout.id)}
+                  className="text-red-400 hover:text-red-600 text-xs shrink-0"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+            {yearPayouts.length === 0 && (
+              <div className="text-center text-gray-400 py-8 text-sm">No payouts yet</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { queryAuditLog } from '@/lib/repository'
+import type { AuditEntry } from '@/lib/types'
+import { PAGE_SIZE, type AuditFilters } from '@/lib/queries'
+import AuditEntryRow from '@/app/components/AuditEntryRow'
+
+type Props = {
+  table: AuditEntry['table_name']
+  recordId: string
+  title: string
+  userId: string
+  onClose: () => void
+}
+
+// Every logged change to one sale, inventory item or expense, newest first
+export default function RecordHistory({ table, recordId, title, userId, onClose }: Props) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  async function load(record: Pick<AuditFilters, 'table' | 'record_id'>, offset: number) {
+    try {
+      const page = await queryAuditLog({ ...record, offset, limit: PAGE_SIZE })
+      setEntries(current => offset === 0 ? page.rows : [...current, ...page.rows])
+      setTotal(page.total)
+    } catch (error) {
+      console.error('Error loading history:', error)
+      alert('Error loading history. Check console for details.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load({ table, record_id: recordId }, 0)
+  }, [table, recordId])
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-5">
+        <div className="flex items-center justify-between mb-3">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold truncate">History: {title}</h2>
+            <div className="text-xs text-gray-500">{total} change{total === 1 ? '' : 's'} logged</div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm">Close</button>
+        </div>
+        <div className="space-y-2">
+          {entries.map(entry => <AuditEntryRow key={entry.id} entry={entry} userId={userId} />)}
+          {!loading && entries.length === 0 && (
+            <div className="text-center text-gray-400 py-8 text-sm">No changes logged for this record</div>
+          )}
+          {entries.length < total && (
+            <button
+              onClick={() => load({ table, record_id: recordId }, entries.length)}
+              className="w-full py-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              Load older changes
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
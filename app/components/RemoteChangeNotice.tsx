@@ -0,0 +1,38 @@
+'use client'
+
+type Props = {
+  // What the record is, e.g. "sale"
+  noun: string
+  change: 'updated' | 'deleted'
+  // Refill the form with the other device's version; omitted when that version isn't loaded here
+  onReload?: () => void
+  onDiscard: () => void
+}
+
+// Shown on an edit form when the record being edited changed or disappeared on another device
+export default function RemoteChangeNotice({ noun, change, onReload, onDiscard }: Props) {
+  return (
+    <div className="border-l-4 border-amber-400 bg-amber-50 p-3 rounded-r mb-4 text-sm text-amber-800">
+      <div className="font-semibold">
+        {change === 'deleted'
+          ? `This ${noun} was deleted on another device.`
+          : `This ${noun} was changed on another device.`}
+      </div>
+      <div className="mt-0.5">
+        {change === 'deleted'
+          ? 'Your edits can no longer be saved.'
+          : 'Saving now will overwrite their changes with yours.'}
+      </div>
+      <div className="flex gap-3 mt-2">
+        {change === 'updated' && onReload && (
+          <button type="button" onClick={onReload} className="font-medium text-amber-900 hover:underline">
+            Load their version
+          </button>
+        )}
+        <button type="button" onClick={onDiscard} className="font-medium text-amber-900 hover:underline">
+          Discard my edits
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import type { SaleForm } from '@/lib/sales'
+import { CARRIERS } from '@/lib/shipping'
+
+type Props = {
+  form: SaleForm
+  onChange: (form: SaleForm) => void
+  // The active platforms, or fewer, e.g. where an inventory item is listed
+  platforms: string[]
+}
+
+// Fields shared by the Add Sale form and the Mark Sold dialog
+export default function SaleFormFields({ form, onChange, platforms }: Props) {
+  // A sale being edited keeps its platform even after that platform is made inactive
+  const options = platforms.includes(form.platform) ? platforms : [form.platform, ...platforms]
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Item Name</label>
+          <input
+            type="text"
+            required
+            value={form.item_name}
+            onChange={(e) => onChange({...form, item_name: e.target.value})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Platform</label>
+          <select
+            value={form.platform}
+            onChange={(e) => onChange({...form, platform: e.target.value})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {options.map(p => (
+              <option key={p} value={p}>{p}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Sale Date</label>
+          <input
+            type="date"
+            required
+            value={form.sale_date}
+            onChange={(e) => onChange({...form, sale_date: e.target.value})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Sale Price</label>
+          <input
+            type="number"
+            step="0.01"
+            required
+            value={form.sale_price}
+            onChange={(e) => onChange({...form, sale_price: e.target.value})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Item Cost</label>
+          <input
+            type="number"
+            step="0.01"
+            value={form.item_cost}
+            onChange={(e) => onChange({...form, item_cost: e.target.value})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            placeholder="0.00"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Shipping Cost (Label)</label>
+          <input
+            type="number"
+            step="0.01"
+            value={form.shipping_cost}
+            onChange={(e) => onChange({...form, shipping_cost: e.target.value})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            placeholder="0.00"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Buyer Paid Shipping</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={form.shipping_charged}
+            onChange={(e) => onChange({...form, shipping_charged: e.target.value})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            placeholder="Free shipping"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Ship By</label>
+          <input
+            type="date"
+            value={form.ship_by}
+            onChange={(e) => onChange({...form, ship_by: e.target.value})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+      </div>
+
+      <details className="border-t pt-3 mt-3" open={!!(form.carrier || form.tracking_number)}>
+        <summary className="font-semibold text-gray-700 text-sm cursor-pointer">Shipping Details (Optional)</summary>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Carrier</label>
+            <select
+              value={form.carrier}
+              onChange={(e) => onChange({...form, carrier: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Not recorded</option>
+              {CARRIERS.map(carrier => (
+                <option key={carrier} value={carrier}>{carrier}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Service</label>
+            <input
+              type="text"
+              value={form.shipping_service}
+              onChange={(e) => onChange({...form, shipping_service: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="e.g., Ground Advantage"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Tracking Number</label>
+            <input
+              type="text"
+              value={form.tracking_number}
+              onChange={(e) => onChange({...form, tracking_number: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-4 gap-3 mt-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Weight (oz)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={form.package_weight}
+              onChange={(e) => onChange({...form, package_weight: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">L (in)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={form.package_length}
+              onChange={(e) => onChange({...form, package_length: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">W (in)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={form.package_width}
+              onChange={(e) => onChange({...form, package_width: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">H (in)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={form.package_height}
+              onChange={(e) => onChange({...form, package_height: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+        </div>
+      </details>
+
+      {form.platform === 'eBay' && (
+        <div className="border-t pt-3 mt-3">
+          <h3 className="font-semibold mb-2 text-gray-700 text-sm">eBay Special Fields (Optional)</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Gross Total (w/ tax)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.gross_total}
+                onChange={(e) => onChange({...form, gross_total: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">What I Actually Received</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.actual_received}
+                onChange={(e) => onChange({...form, actual_received: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
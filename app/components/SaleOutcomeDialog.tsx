@@ -0,0 +1,120 @@
+'use client'
+
+import { useState } from 'react'
+import type { FeeSchedule, Sale } from '@/lib/types'
+import { refundableFee } from '@/lib/fees'
+import type { RegisteredPlatform } from '@/lib/platforms'
+import { refundedProfit, type RefundAdjustment, type SaleOutcome } from '@/lib/sales'
+
+type Props = {
+  sale: Sale
+  outcome: SaleOutcome
+  feeSchedules: FeeSchedule[]
+  platforms: RegisteredPlatform[]
+  onClose: () => void
+  onConfirm: (adjustment: RefundAdjustment) => Promise<void>
+}
+
+export default function SaleOutcomeDialog({ sale, outcome, feeSchedules, platforms, onClose, onConfirm }: Props) {
+  const [feeRefunded, setFeeRefunded] = useState(refundableFee(sale, outcome, feeSchedules, platforms).toFixed(2))
+  const [returnShipping, setReturnShipping] = useState('')
+  const [restock, setRestock] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const adjustment: RefundAdjustment = {
+    fee_refunded: Math.min(parseFloat(feeRefunded) || 0, sale.platform_fee),
+    return_shipping_cost: outcome === 'Returned' ? parseFloat(returnShipping) || 0 : 0,
+    restocked: restock
+  }
+  const profit = refundedProfit(sale, adjustment)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    try {
+      setSaving(true)
+      await onConfirm(adjustment)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-5">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-xl font-bold">{outcome === 'Returned' ? 'Record Return' : 'Cancel Sale'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm">Close</button>
+        </div>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+          {sale.item_name} — the ${sale.sale_price.toFixed(2)} sale will stop counting toward total sales.
+          The refunded fee is pre-filled from {sale.platform}&apos;s rules.
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Fee Refunded (of ${sale.platform_fee.toFixed(2)})
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                max={sale.platform_fee.toFixed(2)}
+                value={feeRefunded}
+                onChange={(e) => setFeeRefunded(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            {outcome === 'Returned' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Return Shipping Cost</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={returnShipping}
+                  onChange={(e) => setReturnShipping(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  placeholder="0.00"
+                />
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={restock}
+              onChange={(e) => setRestock(e.target.checked)}
+              className="mr-2"
+            />
+            Put the item back into inventory
+          </label>
+
+          <div className="bg-gray-50 rounded-lg p-3 text-sm">
+            <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Profit After {outcome === 'Returned' ? 'Return' : 'Cancellation'}</div>
+            <div className={`font-bold ${profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {profit >= 0 ? '+' : ''}${profit.toFixed(2)}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-red-500 text-white py-2.5 rounded-lg font-semibold hover:bg-red-600 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : outcome === 'Returned' ? 'Record Return' : 'Cancel Sale'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Back
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
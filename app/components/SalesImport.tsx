@@ -0,0 +1,194 @@
+'use client'
+
+import { useState } from 'react'
+import { addSales, getSalesByOrderNumbers } from '@/lib/repository'
+import type { FeeSchedule } from '@/lib/types'
+import { IMPORT_PLATFORMS, importKey, parseSalesReport, type ImportPlatform, type ImportRow } from '@/lib/csv-import'
+
+type Props = {
+  feeSchedules: FeeSchedule[]
+  onClose: () => void
+  onImported: () => Promise<void>
+}
+
+export default function SalesImport({ feeSchedules, onClose, onImported }: Props) {
+  const [platform, setPlatform] = useState<ImportPlatform | 'auto'>('auto')
+  const [fileText, setFileText] = useState<string | null>(null)
+  const [detectedPlatform, setDetectedPlatform] = useState<string | null>(null)
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  const readyRows = rows.filter(r => r.sale && r.errors.length === 0 && !r.duplicate)
+  const errorRows = rows.filter(r => r.errors.length > 0)
+  const duplicateRows = rows.filter(r => r.duplicate)
+
+  async function loadPreview(text: string, selected: ImportPlatform | 'auto') {
+    setParseError(null)
+    setRows([])
+    setDetectedPlatform(null)
+
+    const report = parseSalesReport(text, feeSchedules, selected === 'auto' ? undefined : selected)
+    if (!report) {
+      setParseError(selected === 'auto'
+        ? 'Could not recognise this file as an eBay, Mercari, Poshmark or Depop sales report.'
+        : `This file doesn't have the columns we expect in a ${selected} sales report.`)
+      return
+    }
+
+    try {
+      // Skip anything we've already recorded from an earlier import
+      const orderNumbers = Array.from(new Set(
+        report.rows.flatMap(r => r.sale?.order_number ? [r.sale.order_number] : [])
+      ))
+      const existing = await getSalesByOrderNumbers(orderNumbers)
+      const existingKeys = new Set(existing.map(importKey))
+
+      setDetectedPlatform(report.platform)
+      setRows(report.rows.map(r => ({
+        ...r,
+        duplicate: r.sale !== null && existingKeys.has(importKey(r.sale))
+      })))
+    } catch (error) {
+      console.error('Error checking for existing sales:', error)
+      setParseError('Error checking for previously imported sales. Check console for details.')
+    }
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const text = await file.text()
+    setFileText(text)
+    await loadPreview(text, platform)
+  }
+
+  async function handleImport() {
+    if (readyRows.length === 0) return
+    try {
+      setImporting(true)
+      await addSales(readyRows.map(r => r.sale!))
+      await onImported()
+      onClose()
+    } catch (error) {
+      console.error('Error importing sales:', error)
+      alert('Error importing sales. Check console for details.')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-5 border-b">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold">Import Sales</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm">Close</button>
+          </div>
+          <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mt-3 text-sm text-blue-800">
+            Upload a sales or transactions report exported from eBay, Mercari, Poshmark or Depop.
+            Item cost isn&apos;t in these reports, so imported sales start at $0 cost — edit them afterwards.
+          </div>
+          <div className="flex gap-2 flex-wrap items-center mt-3">
+            <select
+              value={platform}
+              onChange={(e) => {
+                const selected = e.target.value as ImportPlatform | 'auto'
+                setPlatform(selected)
+                if (fileText) loadPreview(fileText, selected)
+              }}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="auto">Auto-detect platform</option>
+              {IMPORT_PLATFORMS.map(p => (
+                <option key={p} value={p}>{p}</option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFile}
+              className="text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="p-5 overflow-y-auto flex-1">
+          {parseError && (
+            <div className="border-l-4 border-red-400 bg-red-50 p-3 rounded-r text-sm text-red-800">{parseError}</div>
+          )}
+
+          {detectedPlatform && (
+            <>
+              <div className="flex flex-wrap gap-3 text-sm mb-3">
+                <span className="font-semibold">{detectedPlatform} report</span>
+                <span className="text-green-600">{readyRows.length} ready</span>
+                <span className="text-gray-500">{duplicateRows.length} already imported</span>
+                <span className="text-red-600">{errorRows.length} with errors</span>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-1 pr-2">Line</th>
+                    <th className="py-1 pr-2">Order</th>
+                    <th className="py-1 pr-2">Item</th>
+                    <th className="py-1 pr-2">Date</th>
+                    <th className="py-1 pr-2 text-right">Price</th>
+                    <th className="py-1 pr-2 text-right">Fee</th>
+                    <th className="py-1 pr-2 text-right">Profit</th>
+                    <th className="py-1">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr
+                      key={row.line}
+                      className={`border-b ${row.errors.length > 0 ? 'bg-red-50' : row.duplicate ? 'text-gray-400' : ''}`}
+                    >
+                      <td className="py-1 pr-2">{row.line}</td>
+                      <td className="py-1 pr-2">{row.sale?.order_number}</td>
+                      <td className="py-1 pr-2 max-w-[200px] truncate">{row.sale?.item_name}</td>
+                      <td className="py-1 pr-2">{row.sale?.sale_date}</td>
+                      <td className="py-1 pr-2 text-right">{row.sale ? `$${row.sale.sale_price.toFixed(2)}` : ''}</td>
+                      <td className="py-1 pr-2 text-right">{row.sale ? `$${row.sale.platform_fee.toFixed(2)}` : ''}</td>
+                      <td className="py-1 pr-2 text-right">{row.sale ? `$${row.sale.profit.toFixed(2)}` : ''}</td>
+                      <td className="py-1">
+                        {row.errors.length > 0
+                          ? <span className="text-red-600">{row.errors.join('; ')}</span>
+                          : row.duplicate
+                            ? 'Already imported'
+                            : <span className="text-green-600">Ready</span>}
+                      </td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="text-center text-gray-400 py-8">No sales rows found in this report</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        <div className="p-5 border-t flex gap-2">
+          <button
+            onClick={handleImport}
+            disabled={importing || readyRows.length === 0}
+            className="flex-1 bg-indigo-500 text-white py-2.5 rounded-lg font-semibold hover:bg-indigo-600 transition-colors disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : `Import ${readyRows.length} Sale${readyRows.length === 1 ? '' : 's'}`}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { InventoryItem, Sale } from '@/lib/types'
+import { CARRIERS, awaitingShipment, packageSummary } from '@/lib/shipping'
+import { FALLBACK_PLATFORM_COLOR } from '@/lib/platforms'
+import { daysBetween, todayISO } from '@/lib/dates'
+
+export type Shipment = Pick<Sale, 'carrier' | 'tracking_number'>
+
+type RowProps = {
+  sale: Sale
+  item: InventoryItem | undefined
+  today: string
+  platformColor: string
+  onShip: (sale: Sale, shipment: Shipment) => Promise<void>
+}
+
+function QueueRow({ sale, item, today, platformColor, onShip }: RowProps) {
+  const [carrier, setCarrier] = useState(sale.carrier ?? '')
+  const [trackingNumber, setTrackingNumber] = useState(sale.tracking_number ?? '')
+
+  const daysLeft = sale.ship_by ? daysBetween(today, sale.ship_by) : null
+  const urgency = daysLeft === null ? 'text-gray-500' : daysLeft < 0 ? 'text-red-600' : daysLeft === 0 ? 'text-amber-600' : 'text-gray-700'
+  const packageInfo = packageSummary(sale)
+
+  return (
+    <div className="p-3 border rounded-lg border-l-4 hover:shadow-sm transition-shadow" style={{ borderLeftColor: platformColor }}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0 flex-1">
+          <div className="font-semibold text-sm truncate">{sale.item_name}</div>
+          <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+            <span>{sale.platform}</span>
+            <span>Sold {new Date(sale.sale_date).toLocaleDateString()}</span>
+            {sale.shipping_service && <span>{sale.shipping_service}</span>}
+            {packageInfo && <span>{packageInfo}</span>}
+            {item?.bin && <span className="font-semibold text-amber-700">Bin {item.bin}</span>}
+            {item?.sku && <span className="font-mono">{item.sku}</span>}
+          </div>
+        </div>
+        <div className={`text-sm font-semibold shrink-0 ${urgency}`}>
+          {daysLeft === null
+            ? 'No ship-by date'
+            : daysLeft < 0
+              ? `${-daysLeft}d overdue`
+              : daysLeft === 0 ? 'Ship today' : `Ship by ${new Date(sale.ship_by!).toLocaleDateString()}`}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-2">
+        <select
+          value={carrier}
+          onChange={(e) => setCarrier(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+        >
+          <option value="">Carrier…</option>
+          {CARRIERS.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <input
+          type="text"
+          value={trackingNumber}
+          onChange={(e) => setTrackingNumber(e.target.value)}
+          placeholder="Tracking number"
+          className="flex-1 min-w-[140px] px-2 py-1 border border-gray-300 rounded-md text-xs font-mono"
+        />
+        <button
+          onClick={() => onShip(sale, { carrier: carrier || null, tracking_number: trackingNumber.trim() || null })}
+          className="px-3 py-1 bg-blue-500 text-white text-xs rounded-lg font-semibold hover:bg-blue-600 transition-colors"
+        >
+          Mark Shipped
+        </button>
+      </div>
+    </div>
+  )
+}
+
+type Props = {
+  sales: Sale[]
+  inventory: InventoryItem[]
+  platformColors: Record<string, string>
+  onShip: (sale: Sale, shipment: Shipment) => Promise<void>
+}
+
+// Pending sales to pack and ship, most urgent first
+export default function ShippingQueue({ sales, inventory, platformColors, onShip }: Props) {
+  const today = todayISO()
+  const queue = useMemo(() => awaitingShipment(sales), [sales])
+  const itemsById = useMemo(() => new Map(inventory.map(item => [item.id, item])), [inventory])
+  const overdue = queue.filter(sale => sale.ship_by && sale.ship_by < today).length
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-md max-w-3xl mx-auto">
+      <h2 className="text-xl font-bold mb-1">Awaiting Shipment ({queue.length})</h2>
+      <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+        Pending sales, soonest ship-by date first.
+        {overdue > 0 && <span className="font-semibold text-red-700"> {overdue} overdue.</span>}
+        {' '}Add the tracking number as you ship so buyers and returns can be traced.
+      </div>
+      <div className="space-y-2">
+        {queue.map(sale => (
+          <QueueRow
+            key={sale.id}
+            sale={sale}
+            item={sale.inventory_id ? itemsById.get(sale.inventory_id) : undefined}
+            today={today}
+            platformColor={platformColors[sale.platform] || FALLBACK_PLATFORM_COLOR}
+            onShip={onShip}
+          />
+        ))}
+        {queue.length === 0 && (
+          <div className="text-center text-gray-400 py-8 text-sm">Nothing waiting to ship</div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { addSource, updateSource, deleteSource } from '@/lib/repository'
+import type { InventoryItem, Sale, Source, SourceKind } from '@/lib/types'
+import { SOURCE_KINDS, sourceReport } from '@/lib/sources'
+
+const emptyForm = () => ({
+  name: '',
+  kind: 'Thrift Store' as SourceKind,
+  location: ''
+})
+
+type Props = {
+  sources: Source[]
+  inventory: InventoryItem[]
+  sales: Sale[]
+  // Four-digit year, or 'all'
+  year: string
+  onChanged: () => Promise<void>
+}
+
+export default function Sources({ sources, inventory, sales, year, onChanged }: Props) {
+  const [form, setForm] = useState(emptyForm())
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  // Best return first; sources with nothing spent yet go last
+  const report = useMemo(
+    () => sourceReport(sources, inventory, sales, year)
+      .sort((a, b) => (b.roi ?? -Infinity) - (a.roi ?? -Infinity) || b.profit - a.profit),
+    [sources, inventory, sales, year]
+  )
+
+  const itemCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    inventory.forEach(item => {
+      if (item.source_id) counts.set(item.source_id, (counts.get(item.source_id) ?? 0) + 1)
+    })
+    return counts
+  }, [inventory])
+
+  function resetForm() {
+    setEditingId(null)
+    setForm(emptyForm())
+  }
+
+  function startEdit(source: Source) {
+    setEditingId(source.id)
+    setForm({
+      name: source.name,
+      kind: source.kind,
+      location: source.location ?? ''
+    })
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+
+    const source = {
+      name: form.name.trim(),
+      kind: form.kind,
+      location: form.location.trim() || null
+    }
+
+    try {
+      if (editingId) {
+        await updateSource(editingId, source)
+      } else {
+        await addSource(source)
+      }
+      await onChanged()
+      resetForm()
+    } catch (error) {
+      console.error('Error saving source:', error)
+      alert('Error saving source. Check console for details.')
+    }
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this source? Its items and sales stay, with no source recorded.')) return
+    try {
+      await deleteSource(id)
+      if (editingId === id) resetForm()
+      await onChanged()
+    } catch (error) {
+      console.error('Error deleting source:', error)
+    }
+  }
+
+  const money = (value: number) => `$${value.toFixed(2)}`
+
+  return (
+    <div className="space-y-4">
+      {/* Report */}
+      <div className="bg-white p-5 rounded-lg shadow-md">
+        <h2 className="text-xl font-bold mb-1">
+          {year === 'all' ? 'Source Performance' : `Source Performance — ${year}`}
+        </h2>
+        <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+          Items are counted in the year they were sourced. ROI is the profit on sold items against everything
+          spent at the source, so unsold stock still counts against it.
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1 pr-2">Source</th>
+                <th className="py-1 pr-2 text-right">Spend</th>
+                <th className="py-1 pr-2 text-right">Items</th>
+                <th className="py-1 pr-2 text-right">Sold</th>
+                <th className="py-1 pr-2 text-right">Sell-Through</th>
+                <th className="py-1 pr-2 text-right">Avg Days to Sell</th>
+                <th className="py-1 pr-2 text-right">Profit</th>
+                <th className="py-1 text-right">ROI</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.map(row => (
+                <tr key={row.source?.id ?? 'none'} className="border-b">
+                  <td className="py-1 pr-2">
+                    {row.source ? (
+                      <>
+                        <span className="font-semibold">{row.source.name}</span>
+                        <span className="text-gray-400"> · {row.source.kind}</span>
+                      </>
+                    ) : (
+                      <span className="text-gray-500">No source recorded</span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{money(row.spend)}</td>
+                  <td className="py-1 pr-2 text-right">{row.itemCount}</td>
+                  <td className="py-1 pr-2 text-right">{row.soldCount}</td>
+                  <td className="py-1 pr-2 text-right">{row.itemCount > 0 ? `${(row.sellThrough * 100).toFixed(0)}%` : '—'}</td>
+                  <td className="py-1 pr-2 text-right">{row.avgDaysToSell !== null ? row.avgDaysToSell.toFixed(0) : '—'}</td>
+                  <td className={`py-1 pr-2 text-right ${row.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {money(row.profit)}
+                  </td>
+                  <td className={`py-1 text-right font-semibold ${(row.roi ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {row.roi !== null ? `${(row.roi * 100).toFixed(0)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.length === 0 && (
+            <div className="text-center text-gray-400 py-8 text-sm">Add a source, then pick it when adding inventory</div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Left column: Form */}
+        <div className="bg-white p-5 rounded-lg shadow-md">
+          <h2 className="text-xl font-bold mb-1">{editingId ? 'Edit Source' : 'Add Source'}</h2>
+          <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+            Thrift stores, bins, estate sales, suppliers — anywhere you buy inventory. Pick one when adding an item to see which pay off.
+          </div>
+          <form onSubmit={handleSave} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+                <input
+                  type="text"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({...form, name: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  placeholder="e.g., Goodwill Outlet"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Type</label>
+                <select
+                  value={form.kind}
+                  onChange={(e) => setForm({...form, kind: e.target.value as SourceKind})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {SOURCE_KINDS.map(kind => (
+                    <option key={kind} value={kind}>{kind}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Location</label>
+              <input
+                type="text"
+                value={form.location}
+                onChange={(e) => setForm({...form, location: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="e.g., 1200 Main St"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="flex-1 bg-sky-500 text-white py-2.5 rounded-lg font-semibold hover:bg-sky-600 transition-colors"
+              >
+                {editingId ? 'Save Changes' : 'Add Source'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        {/* Right column: Sources list */}
+        <div className="bg-white p-5 rounded-lg shadow-md">
+          <h2 className="text-xl font-bold mb-3">Sources ({sources.length})</h2>
+          <div className="space-y-2 max-h-[600px] overflow-y-auto">
+            {sources.map(source => (
+              <div key={source.id} className="flex items-center justify-between p-3 border rounded-lg hover:shadow-sm transition-shadow">
+                <div className="min-w-0">
+                  <div className="font-semibold text-sm">{source.name}</div>
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                    <span>{source.kind}</span>
+                    {source.location && <span>{source.location}</span>}
+                    <span>{itemCounts.get(source.id) ?? 0} items</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button
+                    onClick={() => startEdit(source)}
+                    className="text-indigo-400 hover:text-indigo-600 text-xs"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(source.id)}
+                    className="text-red-400 hover:text-red-600 text-xs"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+            {sources.length === 0 && (
+              <div className="text-center text-gray-400 py-8 text-sm">No sources yet</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import type { OutboxState, PendingWrite } from '@/lib/outbox'
+
+type Props = {
+  state: OutboxState
+  onRetry: (id: string) => void
+  onDiscard: (id: string) => void
+}
+
+const NOUNS: Record<PendingWrite['table'], string> = {
+  sales: 'sale',
+  inventory: 'inventory item',
+  expenses: 'expense'
+}
+
+function describe(write: PendingWrite) {
+  const noun = NOUNS[write.table]
+  if (write.type === 'delete') return `Deleting a ${noun}`
+  if (write.type === 'restore') return `Restoring a ${noun}`
+
+  const fields = (write.type === 'insert' ? write.row : write.changes) as { item_name?: string, name?: string }
+  const name = fields.item_name ?? fields.name
+  const label = write.type === 'insert' ? `New ${noun}` : `Edit to a ${noun}`
+  return name ? `${label} "${name}"` : label
+}
+
+// Writes saved on this device that haven't reached the data store: a count while they wait,
+// and each one the store refused, to retry or throw away
+export default function SyncStatus({ state, onRetry, onDiscard }: Props) {
+  const conflicts = state.writes.filter(write => write.conflict)
+  const waiting = state.writes.length - conflicts.length
+  if (waiting === 0 && conflicts.length === 0 && state.online) return null
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mb-4 text-sm print:hidden">
+      <div className="flex items-center gap-2">
+        <span className={`w-2 h-2 rounded-full ${state.online ? 'bg-green-500' : 'bg-gray-400'}`} />
+        <span className="font-semibold">
+          {!state.online ? 'Offline' : state.syncing ? 'Syncing…' : 'Online'}
+        </span>
+        {waiting > 0 && (
+          <span className="text-gray-600">
+            — {waiting} {waiting === 1 ? 'change' : 'changes'} saved on this device
+            {state.online ? ' waiting to sync' : ', will sync when you’re back online'}
+          </span>
+        )}
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="border-l-4 border-red-400 bg-red-50 p-3 rounded-r mt-3 text-red-800 space-y-2">
+          <div className="font-semibold">
+            {conflicts.length === 1 ? 'A change' : `${conflicts.length} changes`} couldn&apos;t be saved
+          </div>
+          {conflicts.map(write => (
+            <div key={write.id} className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <div>{describe(write)}</div>
+                <div className="text-xs text-red-600">{write.conflict}</div>
+              </div>
+              <div className="flex gap-3 shrink-0">
+                <button onClick={() => onRetry(write.id)} className="font-medium text-red-900 hover:underline">
+                  Retry
+                </button>
+                <button onClick={() => onDiscard(write.id)} className="font-medium text-red-900 hover:underline">
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { Expense, InventoryItem, MileageRate, Sale, Trip } from '@/lib/types'
+import { buildTaxSummary, type TaxLine } from '@/lib/tax'
+import { downloadCSV } from '@/lib/csv'
+
+type Props = {
+  sales: Sale[]
+  inventory: InventoryItem[]
+  expenses: Expense[]
+  trips: Trip[]
+  mileageRates: MileageRate[]
+  years: string[]
+  defaultYear: string
+}
+
+function TaxLines({ lines }: { lines: TaxLine[] }) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {lines.map((l, i) => (
+          <tr key={i} className={`border-b ${l.total ? 'font-bold' : ''}`}>
+            <td className="py-1.5 pr-2 w-12 text-gray-400 text-xs">{l.line}</td>
+            <td className="py-1.5 pr-2">{l.label}</td>
+            <td className="py-1.5 text-right tabular-nums">${l.amount.toFixed(2)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function TaxReport({ sales, inventory, expenses, trips, mileageRates, years, defaultYear }: Props) {
+  const [year, setYear] = useState(defaultYear === 'all' ? years[0] : defaultYear)
+
+  const summary = useMemo(
+    () => buildTaxSummary(year, sales, inventory, expenses, trips, mileageRates),
+    [year, sales, inventory, expenses, trips, mileageRates]
+  )
+
+  function exportTaxCSV() {
+    const headers = ['Section', 'Line', 'Description', 'Amount']
+    const rows = [
+      ...summary.income.map(l => ['Income', l.line, l.label, l.amount.toFixed(2)]),
+      ...summary.expenses.map(l => ['Expenses', l.line, l.label, l.amount.toFixed(2)]),
+      ['Net', '31', 'Net profit (or loss)', summary.netProfit.toFixed(2)]
+    ]
+    downloadCSV(`tax-summary-${year}.csv`, headers, rows)
+  }
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-md max-w-3xl mx-auto print:shadow-none print:max-w-none">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h2 className="text-xl font-bold">Tax Summary {year}</h2>
+        <div className="flex gap-2 print:hidden">
+          <select
+            value={year}
+            onChange={(e) => setYear(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <button
+            onClick={() => window.print()}
+            className="px-3 py-1.5 bg-indigo-500 text-white text-sm rounded-lg font-semibold hover:bg-indigo-600 transition-colors"
+          >
+            Print
+          </button>
+          <button
+            onClick={exportTaxCSV}
+            className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+      <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800 print:hidden">
+        Laid out like Schedule C. Line numbers are a guide for your preparer — check them against the current form.
+      </div>
+
+      <h3 className="font-semibold text-gray-700 text-sm mt-4 mb-1">Part I — Income</h3>
+      <TaxLines lines={summary.income} />
+
+      <h3 className="font-semibold text-gray-700 text-sm mt-4 mb-1">Part II — Expenses</h3>
+      <TaxLines lines={summary.expenses} />
+
+      <div className="flex justify-between items-center mt-4 p-3 bg-gray-50 rounded-lg">
+        <span className="font-bold">Net profit (or loss)</span>
+        <span className={`text-xl font-bold ${summary.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {summary.netProfit >= 0 ? '+' : ''}${summary.netProfit.toFixed(2)}
+        </span>
+      </div>
+      <div className="text-xs text-gray-500 mt-2">
+        Inventory on hand at cost (today): ${summary.endingInventory.toFixed(2)}
+      </div>
+    </div>
+  )
+}
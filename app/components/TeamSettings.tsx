@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import { createTeam, joinTeam, leaveTeam, rotateInviteCode } from '@/lib/repository'
+import type { AppUser, Team, TeamMember } from '@/lib/types'
+
+type Props = {
+  user: AppUser
+  team: Team | null
+  members: TeamMember[]
+  // Joining or leaving a team also changes which rows are visible, so reload everything
+  onChanged: () => Promise<void>
+}
+
+export default function TeamSettings({ user, team, members, onChanged }: Props) {
+  const [teamName, setTeamName] = useState('')
+  const [inviteCode, setInviteCode] = useState('')
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    try {
+      await createTeam(teamName.trim())
+      setTeamName('')
+      await onChanged()
+    } catch (error) {
+      console.error('Error creating team:', error)
+      alert('Error creating team. Check console for details.')
+    }
+  }
+
+  async function handleJoin(e: React.FormEvent) {
+    e.preventDefault()
+    try {
+      await joinTeam(inviteCode)
+      setInviteCode('')
+      await onChanged()
+    } catch (error) {
+      console.error('Error joining team:', error)
+      alert(`Error joining team: ${(error as { message?: string }).message ?? 'check the invite code and try again.'}`)
+    }
+  }
+
+  async function handleNewCode() {
+    if (!confirm('Replace the invite code? The current one will stop working.')) return
+    try {
+      await rotateInviteCode()
+      await onChanged()
+    } catch (error) {
+      console.error('Error replacing invite code:', error)
+      alert('Error replacing invite code. Check console for details.')
+    }
+  }
+
+  async function handleLeave() {
+    if (!confirm('Leave this team? You will stop seeing your teammates\' records, and they will stop seeing yours.')) return
+    try {
+      await leaveTeam(user.id)
+      await onChanged()
+    } catch (error) {
+      console.error('Error leaving team:', error)
+      alert('Error leaving team. Check console for details.')
+    }
+  }
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-md">
+      <h2 className="text-xl font-bold mb-1">Team</h2>
+      <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+        Everyone on a team shares one set of books: sales, inventory, lots, expenses and fee schedules.
+      </div>
+
+      {team ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <div className="font-semibold">{team.name}</div>
+              <div className="text-xs text-gray-500">
+                Invite code: <span className="font-mono font-semibold text-gray-700">{team.invite_code}</span>
+                {' · '}
+                {new Date(team.invite_expires_at) > new Date()
+                  ? `expires ${new Date(team.invite_expires_at).toLocaleDateString()}`
+                  : 'expired'}
+                {' · '}
+                <button onClick={handleNewCode} className="text-indigo-600 hover:text-indigo-800">New code</button>
+              </div>
+            </div>
+            <button
+              onClick={handleLeave}
+              className="text-red-400 hover:text-red-600 text-xs"
+            >
+              Leave Team
+            </button>
+          </div>
+          <div className="space-y-1">
+            {members.map(member => (
+              <div key={member.user_id} className="p-2 border rounded-lg text-sm flex items-center justify-between">
+                <span className="truncate">{member.email ?? 'Unknown'}</span>
+                {member.user_id === user.id && <span className="text-xs text-gray-400">You</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <form onSubmit={handleCreate} className="space-y-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Start a team</label>
+            <input
+              type="text"
+              required
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="Household name"
+            />
+            <button
+              type="submit"
+              className="w-full bg-indigo-500 text-white py-2.5 rounded-lg font-semibold hover:bg-indigo-600 transition-colors"
+            >
+              Create Team
+            </button>
+          </form>
+          <form onSubmit={handleJoin} className="space-y-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Join with an invite code</label>
+            <input
+              type="text"
+              required
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+              placeholder="e.g. q7Xk2mPa-9rT_w4B"
+            />
+            <button
+              type="submit"
+              className="w-full px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Join Team
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
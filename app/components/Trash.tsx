@@ -0,0 +1,170 @@
+'use client'
+
+import { getInventoryItems, purgeFromTrash, purgeTrash, restoreFromTrash, saveSettings, updateInventoryItem } from '@/lib/repository'
+import type { Sale, Trash as TrashContents, TrashTable } from '@/lib/types'
+import { TRASH_RETENTION_CHOICES, purgeDate, trashCount } from '@/lib/trash'
+
+type Entry = {
+  table: TrashTable
+  id: string
+  name: string
+  details: string
+  deletedAt: string
+}
+
+// Newest deletions first, across all three tables
+function entries(trash: TrashContents): Entry[] {
+  return [
+    ...trash.sales.map(sale => ({
+      table: 'sales' as const,
+      id: sale.id,
+      name: sale.item_name,
+      details: `Sale · ${sale.platform} · ${new Date(sale.sale_date).toLocaleDateString()} · $${sale.sale_price.toFixed(2)}`,
+      deletedAt: sale.deleted_at!
+    })),
+    ...trash.inventory.map(item => ({
+      table: 'inventory' as const,
+      id: item.id,
+      name: item.item_name,
+      details: `Inventory${item.sku ? ` · ${item.sku}` : ''} · Cost $${item.item_cost.toFixed(2)}${item.photos?.length ? ` · ${item.photos.length} photo${item.photos.length === 1 ? '' : 's'}` : ''}`,
+      deletedAt: item.deleted_at!
+    })),
+    ...trash.expenses.map(expense => ({
+      table: 'expenses' as const,
+      id: expense.id,
+      name: expense.name,
+      details: `Expense · ${expense.category} · ${new Date(expense.date_added).toLocaleDateString()} · $${expense.amount.toFixed(2)}`,
+      deletedAt: expense.deleted_at!
+    }))
+  ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+}
+
+type Props = {
+  trash: TrashContents
+  retentionDays: number
+  onChanged: () => Promise<void>
+}
+
+export default function Trash({ trash, retentionDays, onChanged }: Props) {
+  const list = entries(trash)
+
+  // Deleting a sale put its item back in stock, so restoring it marks the item sold again
+  async function restoreSale(sale: Sale) {
+    await restoreFromTrash('sales', sale.id)
+    if (!sale.inventory_id) return
+    const [item] = await getInventoryItems([sale.inventory_id])
+    if (item?.status === 'In Stock') await updateInventoryItem(item.id, { status: 'Sold' })
+  }
+
+  async function handleRestore(entry: Entry) {
+    try {
+      const sale = entry.table === 'sales' ? trash.sales.find(s => s.id === entry.id) : undefined
+      if (sale) await restoreSale(sale)
+      else await restoreFromTrash(entry.table, entry.id)
+      await onChanged()
+    } catch (error) {
+      console.error('Error restoring from trash:', error)
+      alert('Error restoring from trash. Check console for details.')
+    }
+  }
+
+  async function handlePurge(entry: Entry) {
+    if (!confirm(`Delete ${entry.name} for good? This can't be undone.`)) return
+    try {
+      await purgeFromTrash(entry.table, entry.id)
+      await onChanged()
+    } catch (error) {
+      console.error('Error purging from trash:', error)
+      alert('Error purging from trash. Check console for details.')
+    }
+  }
+
+  async function handleEmpty() {
+    if (!confirm(`Delete all ${list.length} records in the trash for good? This can't be undone.`)) return
+    try {
+      await purgeTrash(new Date().toISOString())
+      await onChanged()
+    } catch (error) {
+      console.error('Error emptying trash:', error)
+      alert('Error emptying trash. Check console for details.')
+    }
+  }
+
+  async function handleRetentionChange(days: number) {
+    try {
+      await saveSettings({ trash_retention_days: days })
+      await onChanged()
+    } catch (error) {
+      console.error('Error saving trash settings:', error)
+      alert('Error saving trash settings. Check console for details.')
+    }
+  }
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-md max-w-3xl mx-auto">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h2 className="text-xl font-bold">Trash ({trashCount(trash)})</h2>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            Keep for
+            <select
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+            >
+              {/* A retention saved outside the usual choices still shows */}
+              {Array.from(new Set([...TRASH_RETENTION_CHOICES, retentionDays])).sort((a, b) => a - b).map(days => (
+                <option key={days} value={days}>{days} days</option>
+              ))}
+            </select>
+          </label>
+          {list.length > 0 && (
+            <button
+              onClick={handleEmpty}
+              className="px-3 py-1 bg-red-500 text-white text-xs rounded-lg font-semibold hover:bg-red-600 transition-colors"
+            >
+              Empty Trash
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+        Deleted sales, inventory and expenses wait here for {retentionDays} days before they&apos;re deleted for
+        good, along with any photos. Restoring a sale marks its item sold again.
+      </div>
+      <div className="space-y-2 max-h-[600px] overflow-y-auto">
+        {list.map(entry => (
+          <div
+            key={`${entry.table}-${entry.id}`}
+            className="flex items-center justify-between gap-2 p-3 border rounded-lg hover:shadow-sm transition-shadow"
+          >
+            <div className="min-w-0">
+              <div className="font-semibold text-sm truncate">{entry.name}</div>
+              <div className="text-xs text-gray-500 mt-1">{entry.details}</div>
+              <div className="text-xs text-gray-400 mt-0.5">
+                Deleted {new Date(entry.deletedAt).toLocaleDateString()} · Purged {purgeDate(entry.deletedAt, retentionDays).toLocaleDateString()}
+              </div>
+            </div>
+            <div className="flex items-center gap-3 shrink-0">
+              <button
+                onClick={() => handleRestore(entry)}
+                className="text-indigo-400 hover:text-indigo-600 text-xs"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => handlePurge(entry)}
+                className="text-red-400 hover:text-red-600 text-xs"
+              >
+                Delete Forever
+              </button>
+            </div>
+          </div>
+        ))}
+        {list.length === 0 && (
+          <div className="text-center text-gray-400 py-8 text-sm">The trash is empty</div>
+        )}
+      </div>
+    </div>
+  )
+}
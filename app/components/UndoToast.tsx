@@ -0,0 +1,36 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { UNDO_WINDOW_MS } from '@/lib/trash'
+
+type Props = {
+  message: string
+  onUndo: () => void
+  onDismiss: () => void
+}
+
+// Offered right after a delete, then dismissed on its own. Key it by what was deleted so a
+// second delete starts a fresh countdown.
+export default function UndoToast({ message, onUndo, onDismiss }: Props) {
+  const dismiss = useRef(onDismiss)
+  useEffect(() => {
+    dismiss.current = onDismiss
+  }, [onDismiss])
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismiss.current(), UNDO_WINDOW_MS)
+    return () => clearTimeout(timer)
+  }, [])
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 bg-gray-900 text-white text-sm px-4 py-3 rounded-lg shadow-xl print:hidden">
+      <span>{message}</span>
+      <button onClick={onUndo} className="font-semibold text-indigo-300 hover:text-indigo-200">
+        Undo
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white" aria-label="Dismiss">
+        ×
+      </button>
+    </div>
+  )
+}
@@ -1,90 +1,537 @@
 'use client'
 
-import { useEffect, useState, useMemo } from 'react'
+import { useEffect, useState, useMemo, useRef } from 'react'
 import {
   getSales,
   getInventory,
   getExpenses,
+  querySales,
+  queryInventory,
+  queryExpenses,
+  getInventoryItems,
+  getDashboardStats,
+  getYears,
+  getFeeSchedules,
+  getLots,
+  getSources,
+  getPlatforms,
+  getForms1099K,
+  getTrips,
+  getMileageRates,
+  getTeam,
+  getTeamMembers,
+  getTrash,
+  getSettings,
+  purgeTrash,
+  restoreFromTrash,
   addSale,
   addInventoryItem,
   addExpense,
+  updateSale,
+  updateInventoryItem,
+  updateExpense,
   deleteSale,
   deleteInventoryItem,
   deleteExpense,
-  type Sale,
-  type InventoryItem,
-  type Expense
-} from '@/lib/supabase'
-
-const PLATFORM_COLORS: Record<string, string> = {
-  eBay: '#e53238',
-  Mercari: '#ff6f61',
-  Poshmark: '#630d1e',
-  Depop: '#ff0000'
+  signOut,
+  subscribeToChanges,
+  subscribeToOutbox,
+  retryPendingWrite,
+  discardPendingWrite,
+  DATA_STORE
+} from '@/lib/repository'
+import type {
+  Sale,
+  InventoryItem,
+  InventoryStatus,
+  SaleStatus,
+  Expense,
+  ExpenseCategory,
+  FeeSchedule,
+  Form1099K,
+  Lot,
+  MileageRate,
+  NewSale,
+  Source,
+  Platform,
+  Settings,
+  Trash as TrashContents,
+  Team,
+  TeamMember,
+  AppUser,
+  DataChange,
+  Trip
+} from '@/lib/types'
+import { downloadCSV } from '@/lib/csv'
+import { generateSku } from '@/lib/sku'
+import {
+  PAGE_SIZE,
+  SALE_SORTS,
+  compareSales,
+  fetchAllPages,
+  matchesExpenseFilters,
+  matchesInventoryFilters,
+  matchesSaleFilters,
+  type DashboardStats,
+  type ExpenseFilters,
+  type InventoryFilters,
+  tripsInRange,
+  type Page,
+  type SaleFilters,
+  type SaleSort
+} from '@/lib/queries'
+import { daysBetween, todayISO } from '@/lib/dates'
+import { mileageRate, tripDeduction, tripYear } from '@/lib/mileage'
+import { applyToPage, applyToRows, pendingRecordIds, withPendingWrites } from '@/lib/realtime'
+import { UnsyncedWritesError, isNetworkError, type OutboxState } from '@/lib/outbox'
+import { FALLBACK_PLATFORM_COLOR, activePlatformNames, platformColors, platformRegistry } from '@/lib/platforms'
+import { EXPENSE_CATEGORIES, EXPENSE_CATEGORY_COLORS } from '@/lib/expenses'
+import { trashCutoff, trashRetentionDays } from '@/lib/trash'
+import {
+  SALE_STATUS_TRANSITIONS,
+  emptySaleForm,
+  isRefunded,
+  reapplyRefund,
+  refundedProfit,
+  saleFromForm,
+  type RefundAdjustment,
+  type SaleForm,
+  type SaleOutcome
+} from '@/lib/sales'
+import SalesImport from '@/app/components/SalesImport'
+import FeeSchedules from '@/app/components/FeeSchedules'
+import SaleFormFields from '@/app/components/SaleFormFields'
+import MarkSoldDialog from '@/app/components/MarkSoldDialog'
+import SaleOutcomeDialog from '@/app/components/SaleOutcomeDialog'
+import Lots from '@/app/components/Lots'
+import Sources from '@/app/components/Sources'
+import LabelSheet from '@/app/components/LabelSheet'
+import TaxReport from '@/app/components/TaxReport'
+import Analytics from '@/app/components/Analytics'
+import AgingReport from '@/app/components/AgingReport'
+import AuthGate from '@/app/components/AuthGate'
+import TeamSettings from '@/app/components/TeamSettings'
+import RemoteChangeNotice from '@/app/components/RemoteChangeNotice'
+import SyncStatus from '@/app/components/SyncStatus'
+import MileageLog from '@/app/components/MileageLog'
+import MileageRates from '@/app/components/MileageRates'
+import Platforms from '@/app/components/Platforms'
+import Reconciliation from '@/app/components/Reconciliation'
+import ShippingQueue, { type Shipment } from '@/app/components/ShippingQueue'
+import PhotoThumb from '@/app/components/PhotoThumb'
+import PhotoGallery from '@/app/components/PhotoGallery'
+import Trash from '@/app/components/Trash'
+import UndoToast from '@/app/components/UndoToast'
+import AuditLog from '@/app/components/AuditLog'
+import RecordHistory from '@/app/components/RecordHistory'
+
+const STATUS_COLORS: Record<InventoryStatus, string> = {
+  'In Stock': '#f59e0b',
+  Sold: '#16a34a',
+  Donated: '#6366f1',
+  Lost: '#6b7280'
 }
 
-function downloadCSV(filename: string, headers: string[], rows: string[][]) {
-  const csvContent = [
-    headers.join(','),
-    ...rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
-  ].join('\n')
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = filename
-  a.click()
-  URL.revokeObjectURL(url)
+const SALE_STATUS_COLORS: Record<SaleStatus, string> = {
+  Pending: '#f59e0b',
+  Shipped: '#3b82f6',
+  Delivered: '#16a34a',
+  Returned: '#dc2626',
+  Cancelled: '#6b7280'
 }
 
-export default function ResellTracker() {
-  // Data state
+// Everything the list tabs and stats cards are filtered by
+type ListQuery = {
+  sales: SaleFilters
+  saleSort: SaleSort
+  inventory: InventoryFilters
+  expenses: ExpenseFilters
+}
+
+// List order for inventory and expenses, as the data stores sort them
+function compareInventory(a: InventoryItem, b: InventoryItem) {
+  return a.item_name.localeCompare(b.item_name)
+}
+
+function compareExpenses(a: Expense, b: Expense) {
+  return b.date_added.localeCompare(a.date_added)
+}
+
+// A page of sales plus the inventory items they were sold from
+async function fetchSalesPage(filters: SaleFilters, sort: SaleSort, offset: number) {
+  const page = await querySales({ ...filters, sort, offset, limit: PAGE_SIZE })
+  const linkedIds = Array.from(new Set(page.rows.flatMap(sale => sale.inventory_id ? [sale.inventory_id] : [])))
+  return { ...page, linkedItems: await getInventoryItems(linkedIds) }
+}
+
+// Purge whatever has been in the trash longer than the retention period. Runs once per visit;
+// if it fails, offline say, the next visit catches up.
+async function purgeExpiredTrash() {
+  try {
+    await purgeTrash(trashCutoff(trashRetentionDays(await getSettings())))
+  } catch (error) {
+    console.error('Error purging trash:', error)
+  }
+}
+
+// Rows merged in live can shift the pages, so the next page may repeat some already shown
+function appendPage<T extends { id: string }>(rows: T[], page: T[]) {
+  const shown = new Set(rows.map(row => row.id))
+  return [...rows, ...page.filter(row => !shown.has(row.id))]
+}
+
+export default function Home() {
+  return (
+    <AuthGate>
+      {user => <ResellTracker user={user} />}
+    </AuthGate>
+  )
+}
+
+function ResellTracker({ user }: { user: AppUser }) {
+  // Data state. Lists hold the pages loaded so far; stats and years come from aggregate queries.
+  const [loadedSales, setLoadedSales] = useState<Page<Sale>>({ rows: [], total: 0 })
+  const [loadedInventory, setLoadedInventory] = useState<Page<InventoryItem>>({ rows: [], total: 0 })
+  const [loadedExpenses, setLoadedExpenses] = useState<Page<Expense>>({ rows: [], total: 0 })
+  // Inventory items linked to the sales on screen, for days-to-sell and restocking
+  const [linkedItems, setLinkedItems] = useState<InventoryItem[]>([])
+  const [stats, setStats] = useState<DashboardStats>({ totalSales: 0, totalFees: 0, totalExpenses: 0, mileageDeduction: 0, inventoryValue: 0, shippingProfit: 0, netProfit: 0 })
+  const [years, setYears] = useState<string[]>([])
+
+  // Every row, loaded only while a report tab needs it
   const [sales, setSales] = useState<Sale[]>([])
   const [inventory, setInventory] = useState<InventoryItem[]>([])
   const [expenses, setExpenses] = useState<Expense[]>([])
+  const [reportsLoaded, setReportsLoaded] = useState(false)
+
+  const [feeSchedules, setFeeSchedules] = useState<FeeSchedule[]>([])
+  const [lots, setLots] = useState<Lot[]>([])
+  const [sources, setSources] = useState<Source[]>([])
+  const [platforms, setPlatforms] = useState<Platform[]>([])
+  const [forms1099K, setForms1099K] = useState<Form1099K[]>([])
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [trash, setTrash] = useState<TrashContents>({ sales: [], inventory: [], expenses: [] })
+  const [trips, setTrips] = useState<Trip[]>([])
+  const [mileageRates, setMileageRates] = useState<MileageRate[]>([])
+  const [team, setTeam] = useState<Team | null>(null)
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
   const [loading, setLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'sales' | 'inventory' | 'expenses'>('sales')
+  const [activeTab, setActiveTab] = useState<'sales' | 'shipping' | 'inventory' | 'lots' | 'sources' | 'aging' | 'expenses' | 'analytics' | 'taxes' | 'reconcile' | 'trash' | 'history' | 'settings'>('sales')
 
   // Filter state
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [platformFilter, setPlatformFilter] = useState<string>('all')
+  const [saleStatusFilter, setSaleStatusFilter] = useState<SaleStatus | 'all'>('all')
+  const [inventoryStatusFilter, setInventoryStatusFilter] = useState<InventoryStatus | 'all'>('In Stock')
+  const [expenseCategoryFilter, setExpenseCategoryFilter] = useState<ExpenseCategory | 'all'>('all')
   const [dateRange, setDateRange] = useState({ start: '', end: '' })
   const [selectedYear, setSelectedYear] = useState<string>(new Date().getFullYear().toString())
+  const [saleSort, setSaleSort] = useState<SaleSort>('item_name')
 
   // Form states
-  const [saleForm, setSaleForm] = useState({
-    item_name: '',
-    platform: 'eBay' as 'eBay' | 'Mercari' | 'Poshmark' | 'Depop',
-    sale_date: new Date().toISOString().split('T')[0],
-    sale_price: '',
-    item_cost: '',
-    shipping_cost: '',
-    gross_total: '',
-    actual_received: ''
-  })
+  const [saleForm, setSaleForm] = useState<SaleForm>(emptySaleForm())
 
   const [inventoryForm, setInventoryForm] = useState({
     item_name: '',
     item_cost: '',
-    platforms: [] as string[]
+    platforms: [] as string[],
+    source_id: '',
+    sku: '',
+    bin: ''
   })
 
   const [expenseForm, setExpenseForm] = useState({
     name: '',
     amount: '',
+    category: 'Supplies' as ExpenseCategory,
     date_added: new Date().toISOString().split('T')[0]
   })
 
-  const [markSoldDate, setMarkSoldDate] = useState(new Date().toISOString().split('T')[0])
+  const [markSoldItem, setMarkSoldItem] = useState<InventoryItem | null>(null)
+  const [saleOutcome, setSaleOutcome] = useState<{ sale: Sale, outcome: SaleOutcome } | null>(null)
+
+  // Edit state — when set, the matching form saves over that record instead of adding
+  const [editingSaleId, setEditingSaleId] = useState<string | null>(null)
+  const [editingInventoryId, setEditingInventoryId] = useState<string | null>(null)
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null)
+
+  const [showImport, setShowImport] = useState(false)
+
+  // Inventory items picked for printing labels
+  const [labelItems, setLabelItems] = useState<InventoryItem[]>([])
+  const [showLabels, setShowLabels] = useState(false)
+
+  // Inventory item whose photos are open in the gallery
+  const [galleryItemId, setGalleryItemId] = useState<string | null>(null)
+
+  // Record whose change history is open
+  const [historyRecord, setHistoryRecord] = useState<{ table: DataChange['table'], id: string, title: string } | null>(null)
+
+  // The last delete, while it can still be undone
+  const [undo, setUndo] = useState<{ id: string, message: string, restore: () => Promise<void> } | null>(null)
+
+  // Writes saved on this device that haven't reached the data store yet
+  const [outbox, setOutbox] = useState<OutboxState>({ writes: [], online: true, syncing: false })
+
+  // Records changed or deleted on another device since they were loaded here
+  const [remoteEdits, setRemoteEdits] = useState<Record<string, 'updated' | 'deleted'>>({})
+
+  // Filters as the data store sees them
+  const saleFilters = useMemo<SaleFilters>(() => ({
+    search: debouncedSearch,
+    platform: platformFilter !== 'all' ? platformFilter : undefined,
+    status: saleStatusFilter !== 'all' ? saleStatusFilter : undefined,
+    start: dateRange.start,
+    end: dateRange.end,
+    year: selectedYear !== 'all' ? selectedYear : undefined
+  }), [debouncedSearch, platformFilter, saleStatusFilter, dateRange, selectedYear])
+
+  const inventoryFilters = useMemo<InventoryFilters>(() => ({
+    // Inventory is always current stock — no year filter
+    search: debouncedSearch,
+    platform: platformFilter !== 'all' ? platformFilter : undefined,
+    status: inventoryStatusFilter !== 'all' ? inventoryStatusFilter : undefined,
+    start: dateRange.start,
+    end: dateRange.end
+  }), [debouncedSearch, platformFilter, inventoryStatusFilter, dateRange])
+
+  const expenseFilters = useMemo<ExpenseFilters>(() => ({
+    search: debouncedSearch,
+    category: expenseCategoryFilter !== 'all' ? expenseCategoryFilter : undefined,
+    start: dateRange.start,
+    end: dateRange.end,
+    year: selectedYear !== 'all' ? selectedYear : undefined
+  }), [debouncedSearch, expenseCategoryFilter, dateRange, selectedYear])
+
+  const listQuery = useMemo<ListQuery>(() => ({
+    sales: saleFilters,
+    saleSort,
+    inventory: inventoryFilters,
+    expenses: expenseFilters
+  }), [saleFilters, saleSort, inventoryFilters, expenseFilters])
+
+  // Lists as shown: the loaded pages plus any writes still waiting to sync
+  const saleList = useMemo(
+    () => withPendingWrites(loadedSales, outbox.writes, 'sales', sale => matchesSaleFilters(sale, saleFilters), compareSales(saleSort)),
+    [loadedSales, outbox.writes, saleFilters, saleSort]
+  )
+  const inventoryList = useMemo(
+    () => withPendingWrites(loadedInventory, outbox.writes, 'inventory', item => matchesInventoryFilters(item, inventoryFilters), compareInventory),
+    [loadedInventory, outbox.writes, inventoryFilters]
+  )
+  const expenseList = useMemo(
+    () => withPendingWrites(loadedExpenses, outbox.writes, 'expenses', expense => matchesExpenseFilters(expense, expenseFilters), compareExpenses),
+    [loadedExpenses, outbox.writes, expenseFilters]
+  )
+  const pendingIds = useMemo(() => pendingRecordIds(outbox.writes), [outbox.writes])
+
+  const reportTabOpen = activeTab === 'shipping' || activeTab === 'lots' || activeTab === 'sources' || activeTab === 'aging' || activeTab === 'analytics' || activeTab === 'taxes' || activeTab === 'reconcile'
 
   // Load data
   useEffect(() => {
-    loadData()
+    loadReferenceData()
+    purgeExpiredTrash()
+  }, [])
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  useEffect(() => {
+    loadLists(listQuery)
+  }, [listQuery])
+
+  useEffect(() => {
+    if (reportTabOpen && !reportsLoaded) loadReports()
+  }, [reportTabOpen, reportsLoaded])
+
+  useEffect(() => {
+    if (activeTab === 'trash') loadTrash()
+  }, [activeTab])
+
+  // Live changes are merged against whatever filters are current when they arrive
+  const current = useRef({ listQuery, reportsLoaded })
+  // Counts list loads, so a slow response to an older query can be told apart and dropped
+  const listRequest = useRef(0)
+  useEffect(() => {
+    current.current = { listQuery, reportsLoaded }
+  }, [listQuery, reportsLoaded])
+
+  useEffect(() => {
+    // A bulk import elsewhere arrives as a burst of changes; refresh the totals once it settles
+    let statsTimer: ReturnType<typeof setTimeout> | undefined
+
+    async function refreshStats() {
+      const { listQuery: query } = current.current
+      try {
+        const [statsData, yearsData] = await Promise.all([
+          getDashboardStats(query.sales, query.expenses),
+          getYears()
+        ])
+        // If the filters changed meanwhile, loading the lists for them brings their own totals
+        if (query === current.current.listQuery) setStats(statsData)
+        setYears(yearsData)
+      } catch (error) {
+        console.error('Error refreshing stats:', error)
+      }
+    }
+
+    const unsubscribe = subscribeToChanges((change, fromThisDevice) => {
+      const { listQuery: query, reportsLoaded: reportsReady } = current.current
+      mergeChange(change, query, reportsReady)
+
+      if (!fromThisDevice && change.type !== 'insert') {
+        const id = change.type === 'delete' ? change.id : change.row.id
+        setRemoteEdits(edits => ({ ...edits, [id]: change.type === 'delete' ? 'deleted' : 'updated' }))
+      }
+
+      clearTimeout(statsTimer)
+      statsTimer = setTimeout(refreshStats, 500)
+    })
+
+    return () => {
+      unsubscribe()
+      clearTimeout(statsTimer)
+    }
+  }, [])
+
+  // Once writes saved offline have gone out, catch up on everything else that changed meanwhile
+  useEffect(() => {
+    let wasOffline = false
+    return subscribeToOutbox(state => {
+      setOutbox(state)
+      if (!state.online) {
+        wasOffline = true
+      } else if (wasOffline && !state.syncing) {
+        wasOffline = false
+        setReportsLoaded(false)
+        loadReferenceData()
+        loadLists(current.current.listQuery)
+      }
+    })
   }, [])
 
+  // Merge a change into the lists, and into the report data if it's loaded
+  function mergeChange(change: DataChange, query: ListQuery, reportsReady: boolean) {
+    if (change.table === 'sales') {
+      setLoadedSales(list => applyToPage(list, change, sale => matchesSaleFilters(sale, query.sales), compareSales(query.saleSort)))
+      if (reportsReady) setSales(rows => applyToRows(rows, change))
+    } else if (change.table === 'inventory') {
+      setLoadedInventory(list => applyToPage(list, change, item => matchesInventoryFilters(item, query.inventory), compareInventory))
+      if (change.type === 'update') {
+        setLinkedItems(items => items.map(item => item.id === change.row.id ? change.row : item))
+      }
+      if (reportsReady) setInventory(rows => applyToRows(rows, change))
+    } else {
+      setLoadedExpenses(list => applyToPage(list, change, expense => matchesExpenseFilters(expense, query.expenses), compareExpenses))
+      if (reportsReady) setExpenses(rows => applyToRows(rows, change))
+    }
+  }
+
+  // Send a refused write again, e.g. after fixing what it conflicted with
+  async function handleRetryWrite(id: string) {
+    await retryPendingWrite(id)
+    await loadData()
+  }
+
+  function clearRemoteEdit(id: string) {
+    setRemoteEdits(edits => Object.fromEntries(Object.entries(edits).filter(([editedId]) => editedId !== id)))
+  }
+
+  // Reload everything after a change
   async function loadData() {
+    setReportsLoaded(false)
+    await Promise.all([loadReferenceData(), loadLists(listQuery)])
+  }
+
+  async function loadReferenceData() {
+    try {
+      const [feeSchedulesData, lotsData, sourcesData, platformsData, forms1099KData, tripsData, mileageRatesData, teamData, teamMembersData, settingsData, yearsData] = await Promise.all([
+        getFeeSchedules(),
+        getLots(),
+        getSources(),
+        getPlatforms(),
+        getForms1099K(),
+        getTrips(),
+        getMileageRates(),
+        getTeam(),
+        getTeamMembers(),
+        getSettings(),
+        getYears()
+      ])
+      setFeeSchedules(feeSchedulesData)
+      setLots(lotsData)
+      setSources(sourcesData)
+      setPlatforms(platformsData)
+      setForms1099K(forms1099KData)
+      setTrips(tripsData)
+      setMileageRates(mileageRatesData)
+      setTeam(teamData)
+      setTeamMembers(teamMembersData)
+      setSettings(settingsData)
+      setYears(yearsData)
+    } catch (error) {
+      console.error('Error loading data:', error)
+      // Offline: keep what's on screen; it's refreshed when the connection returns
+      if (!isNetworkError(error)) alert('Error loading data. Check console for details.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // First page of each list, plus the stats cards. Filters can change again before a load
+  // finishes, so only the latest load fills the lists.
+  async function loadLists(query: ListQuery) {
+    const request = ++listRequest.current
+    try {
+      const [statsData, salesPage, inventoryPage, expensesPage] = await Promise.all([
+        getDashboardStats(query.sales, query.expenses),
+        fetchSalesPage(query.sales, query.saleSort, 0),
+        queryInventory({ ...query.inventory, offset: 0, limit: PAGE_SIZE }),
+        queryExpenses({ ...query.expenses, offset: 0, limit: PAGE_SIZE })
+      ])
+      if (request !== listRequest.current) return
+      setStats(statsData)
+      setLoadedSales({ rows: salesPage.rows, total: salesPage.total })
+      setLinkedItems(salesPage.linkedItems)
+      setLoadedInventory(inventoryPage)
+      setLoadedExpenses(expensesPage)
+    } catch (error) {
+      if (request !== listRequest.current) return
+      console.error('Error loading data:', error)
+      if (!isNetworkError(error)) alert('Error loading data. Check console for details.')
+    }
+  }
+
+  // Append the next page of a list, unless the lists were reloaded meanwhile
+  async function loadMore(list: 'sales' | 'inventory' | 'expenses') {
+    const request = listRequest.current
+    try {
+      if (list === 'sales') {
+        const page = await fetchSalesPage(saleFilters, saleSort, loadedSales.rows.length)
+        if (request !== listRequest.current) return
+        setLoadedSales({ rows: appendPage(loadedSales.rows, page.rows), total: page.total })
+        setLinkedItems(appendPage(linkedItems, page.linkedItems))
+      } else if (list === 'inventory') {
+        const page = await queryInventory({ ...inventoryFilters, offset: loadedInventory.rows.length, limit: PAGE_SIZE })
+        if (request !== listRequest.current) return
+        setLoadedInventory({ rows: appendPage(loadedInventory.rows, page.rows), total: page.total })
+      } else {
+        const page = await queryExpenses({ ...expenseFilters, offset: loadedExpenses.rows.length, limit: PAGE_SIZE })
+        if (request !== listRequest.current) return
+        setLoadedExpenses({ rows: appendPage(loadedExpenses.rows, page.rows), total: page.total })
+      }
+    } catch (error) {
+      console.error('Error loading data:', error)
+      alert('Error loading data. Check console for details.')
+    }
+  }
+
+  async function loadReports() {
     try {
-      setLoading(true)
       const [salesData, inventoryData, expensesData] = await Promise.all([
         getSales(),
         getInventory(),
@@ -93,280 +540,492 @@ export default function ResellTracker() {
       setSales(salesData)
       setInventory(inventoryData)
       setExpenses(expensesData)
+      setReportsLoaded(true)
     } catch (error) {
       console.error('Error loading data:', error)
       alert('Error loading data. Check console for details.')
-    } finally {
-      setLoading(false)
     }
   }
 
-  // Available years (derived from data)
-  const availableYears = useMemo(() => {
-    const years = new Set<string>()
-    sales.forEach(s => years.add(s.sale_date.substring(0, 4)))
-    expenses.forEach(e => years.add(e.date_added.substring(0, 4)))
-    inventory.forEach(i => {
-      if (i.date_added) years.add(i.date_added.substring(0, 4))
-    })
-    const sorted = Array.from(years).sort((a, b) => b.localeCompare(a))
-    if (sorted.length === 0) sorted.push(new Date().getFullYear().toString())
-    return sorted
-  }, [sales, expenses, inventory])
-
-  // Filtered data
-  const filteredSales = useMemo(() => {
-    return sales.filter(sale => {
-      if (selectedYear !== 'all' && !sale.sale_date.startsWith(selectedYear)) return false
-      if (searchQuery && !sale.item_name.toLowerCase().includes(searchQuery.toLowerCase())) return false
-      if (platformFilter !== 'all' && sale.platform !== platformFilter) return false
-      if (dateRange.start && sale.sale_date < dateRange.start) return false
-      if (dateRange.end && sale.sale_date > dateRange.end) return false
-      return true
-    }).sort((a, b) => a.item_name.localeCompare(b.item_name))
-  }, [sales, selectedYear, searchQuery, platformFilter, dateRange])
-
-  const filteredInventory = useMemo(() => {
-    return inventory.filter(item => {
-      // Inventory is always current stock — no year filter
-      if (searchQuery && !item.item_name.toLowerCase().includes(searchQuery.toLowerCase())) return false
-      if (platformFilter !== 'all' && !item.platforms.includes(platformFilter)) return false
-      if (dateRange.start && item.date_added && item.date_added < dateRange.start) return false
-      if (dateRange.end && item.date_added && item.date_added > dateRange.end) return false
-      return true
-    }).sort((a, b) => a.item_name.localeCompare(b.item_name))
-  }, [inventory, searchQuery, platformFilter, dateRange])
-
-  const filteredExpenses = useMemo(() => {
-    return expenses.filter(exp => {
-      if (selectedYear !== 'all' && !exp.date_added.startsWith(selectedYear)) return false
-      if (searchQuery && !exp.name.toLowerCase().includes(searchQuery.toLowerCase())) return false
-      if (dateRange.start && exp.date_added < dateRange.start) return false
-      if (dateRange.end && exp.date_added > dateRange.end) return false
-      return true
-    })
-  }, [expenses, selectedYear, searchQuery, dateRange])
-
-  // Stats from filtered data
-  const totalSales = filteredSales.reduce((sum, sale) => sum + sale.sale_price, 0)
-  const totalFees = filteredSales.reduce((sum, sale) => sum + sale.platform_fee, 0)
-  const totalExpenses = filteredExpenses.reduce((sum, exp) => sum + exp.amount, 0)
-  const inventoryValue = inventory.reduce((sum, item) => sum + item.item_cost, 0)
-  const netProfit = filteredSales.reduce((sum, sale) => sum + sale.profit, 0) - totalExpenses
-
-  // Fee calculations
-  function calculateFees(platform: string, salePrice: number) {
-    switch (platform) {
-      case 'eBay':
-        return salePrice * 0.136 + 0.40
-      case 'Mercari':
-        return salePrice * 0.129 + 0.30
-      case 'Poshmark':
-        return salePrice < 15 ? 2.95 : salePrice * 0.20
-      case 'Depop':
-        return salePrice * 0.033 + 0.45
-      default:
-        return 0
+  async function loadTrash() {
+    try {
+      setTrash(await getTrash())
+    } catch (error) {
+      console.error('Error loading trash:', error)
+      alert('Error loading trash. Check console for details.')
     }
   }
 
-  // Handle add sale
-  async function handleAddSale(e: React.FormEvent) {
-    e.preventDefault()
+  const availableYears = years.length > 0 ? years : [new Date().getFullYear().toString()]
+
+  // Report tabs filter in memory. These sets ignore the year so Analytics can compare years.
+  const salesMatchingFilters = useMemo(() => {
+    return sales.filter(sale => matchesSaleFilters(sale, { ...saleFilters, year: undefined }))
+  }, [sales, saleFilters])
+
+  const expensesMatchingFilters = useMemo(() => {
+    return expenses.filter(exp => matchesExpenseFilters(exp, { ...expenseFilters, year: undefined }))
+  }, [expenses, expenseFilters])
+
+  const tripsMatchingFilters = useMemo(() => {
+    return tripsInRange(trips, { ...expenseFilters, year: undefined })
+  }, [trips, expenseFilters])
+
+  const lotsById = useMemo(() => {
+    return new Map(lots.map(lot => [lot.id, lot]))
+  }, [lots])
+
+  const sourcesById = useMemo(() => {
+    return new Map(sources.map(source => [source.id, source]))
+  }, [sources])
+
+  // Built-in platforms plus those saved in Settings. Filters list them all, forms only the active ones.
+  const registry = useMemo(() => platformRegistry(platforms), [platforms])
+  const platformNames = useMemo(() => registry.map(platform => platform.name), [registry])
+  const activePlatforms = useMemo(() => activePlatformNames(registry), [registry])
+  const colors = useMemo(() => platformColors(registry), [registry])
+
+  const inventoryById = useMemo(() => {
+    return new Map(linkedItems.map(item => [item.id, item]))
+  }, [linkedItems])
+
+  // Latest loaded version of the gallery's item, so added and removed photos show up
+  const galleryItem = galleryItemId
+    ? inventoryList.rows.find(item => item.id === galleryItemId) ?? inventoryById.get(galleryItemId)
+    : undefined
+
+  // Days from sourcing to sale, for sales created from an inventory item
+  function daysToSell(sale: Sale) {
+    const item = sale.inventory_id ? inventoryById.get(sale.inventory_id) : undefined
+    if (!item?.date_added) return null
+    return daysBetween(item.date_added, sale.sale_date)
+  }
 
-    const salePrice = parseFloat(saleForm.sale_price)
-    const itemCost = parseFloat(saleForm.item_cost) || 0
-    const shippingCost = parseFloat(saleForm.shipping_cost) || 0
+  // Cover photo of the item a sale came from
+  function coverPhoto(sale: Sale) {
+    return sale.inventory_id ? inventoryById.get(sale.inventory_id)?.photos?.[0] : undefined
+  }
 
-    let platformFee: number
-    let profit: number
+  const { totalSales, totalFees, totalExpenses, mileageDeduction, inventoryValue, shippingProfit, netProfit } = stats
 
-    if (saleForm.platform === 'eBay' && saleForm.actual_received) {
-      const actualReceived = parseFloat(saleForm.actual_received)
-      const grossTotal = parseFloat(saleForm.gross_total) || salePrice
-      platformFee = grossTotal - actualReceived
-      profit = actualReceived - itemCost - shippingCost
-    } else {
-      platformFee = calculateFees(saleForm.platform, salePrice)
-      profit = salePrice - platformFee - itemCost - shippingCost
-    }
+  // Latest loaded version of each record being edited, for reloading after a change elsewhere
+  const latestSale = saleList.rows.find(sale => sale.id === editingSaleId)
+  const latestInventory = inventoryList.rows.find(item => item.id === editingInventoryId)
+  const latestExpense = expenseList.rows.find(expense => expense.id === editingExpenseId)
+
+  function resetSaleForm() {
+    setEditingSaleId(null)
+    setSaleForm(emptySaleForm(activePlatforms[0]))
+  }
+
+  // Handle add/update sale
+  async function handleAddSale(e: React.FormEvent) {
+    e.preventDefault()
 
     try {
-      await addSale({
-        item_name: saleForm.item_name,
-        platform: saleForm.platform,
-        sale_date: saleForm.sale_date,
-        sale_price: salePrice,
-        platform_fee: platformFee,
-        item_cost: itemCost,
-        shipping_cost: shippingCost,
-        profit: profit,
-        gross_total: saleForm.gross_total ? parseFloat(saleForm.gross_total) : undefined,
-        actual_received: saleForm.actual_received ? parseFloat(saleForm.actual_received) : undefined
-      })
+      if (editingSaleId) {
+        const sale = saleFromForm(saleForm, feeSchedules)
+        const original = saleList.rows.find(s => s.id === editingSaleId)
+        await updateSale(editingSaleId, original ? reapplyRefund(original, sale) : sale)
+      } else {
+        await addSale(saleFromForm(saleForm, feeSchedules))
+      }
 
       await loadData()
-      setSaleForm({
-        item_name: '',
-        platform: 'eBay',
-        sale_date: new Date().toISOString().split('T')[0],
-        sale_price: '',
-        item_cost: '',
-        shipping_cost: '',
-        gross_total: '',
-        actual_received: ''
-      })
+      resetSaleForm()
     } catch (error) {
-      console.error('Error adding sale:', error)
-      alert('Error adding sale. Check console for details.')
+      console.error('Error saving sale:', error)
+      alert('Error saving sale. Check console for details.')
     }
   }
 
-  // Handle add inventory
+  function startEditSale(sale: Sale) {
+    clearRemoteEdit(sale.id)
+    setEditingSaleId(sale.id)
+    setSaleForm({
+      item_name: sale.item_name,
+      platform: sale.platform,
+      sale_date: sale.sale_date,
+      sale_price: sale.sale_price.toString(),
+      item_cost: sale.item_cost.toString(),
+      shipping_cost: sale.shipping_cost.toString(),
+      shipping_charged: sale.shipping_charged != null ? sale.shipping_charged.toString() : '',
+      carrier: sale.carrier ?? '',
+      shipping_service: sale.shipping_service ?? '',
+      tracking_number: sale.tracking_number ?? '',
+      package_weight: sale.package_weight != null ? sale.package_weight.toString() : '',
+      package_length: sale.package_length != null ? sale.package_length.toString() : '',
+      package_width: sale.package_width != null ? sale.package_width.toString() : '',
+      package_height: sale.package_height != null ? sale.package_height.toString() : '',
+      ship_by: sale.ship_by ?? '',
+      gross_total: sale.gross_total != null ? sale.gross_total.toString() : '',
+      actual_received: sale.actual_received != null ? sale.actual_received.toString() : ''
+    })
+  }
+
+  function resetInventoryForm() {
+    setEditingInventoryId(null)
+    setInventoryForm({
+      item_name: '',
+      item_cost: '',
+      platforms: [],
+      source_id: inventoryForm.source_id,
+      sku: '',
+      bin: inventoryForm.bin
+    })
+  }
+
+  // Handle add/update inventory
   async function handleAddInventory(e: React.FormEvent) {
     e.preventDefault()
 
     try {
-      await addInventoryItem({
-        item_name: inventoryForm.item_name,
-        item_cost: parseFloat(inventoryForm.item_cost) || 0,
-        platforms: inventoryForm.platforms,
-        date_added: new Date().toISOString().split('T')[0]
-      })
+      if (editingInventoryId) {
+        // date_added is left alone so aging and year filters stay accurate
+        await updateInventoryItem(editingInventoryId, {
+          item_name: inventoryForm.item_name,
+          item_cost: parseFloat(inventoryForm.item_cost) || 0,
+          platforms: inventoryForm.platforms,
+          source_id: inventoryForm.source_id || null,
+          // A cleared SKU gets a fresh one so the item can still be labelled
+          sku: inventoryForm.sku.trim() || generateSku(null),
+          bin: inventoryForm.bin.trim() || null
+        })
+      } else {
+        await addInventoryItem({
+          item_name: inventoryForm.item_name,
+          item_cost: parseFloat(inventoryForm.item_cost) || 0,
+          platforms: inventoryForm.platforms,
+          date_added: new Date().toISOString().split('T')[0],
+          source_id: inventoryForm.source_id || null,
+          sku: inventoryForm.sku.trim() || null,
+          bin: inventoryForm.bin.trim() || null
+        })
+      }
 
       await loadData()
-      setInventoryForm({
-        item_name: '',
-        item_cost: '',
-        platforms: []
-      })
+      resetInventoryForm()
     } catch (error) {
-      console.error('Error adding inventory:', error)
-      alert('Error adding inventory. Check console for details.')
+      console.error('Error saving inventory:', error)
+      alert('Error saving inventory. Check console for details.')
     }
   }
 
-  // Handle add expense
+  function startEditInventory(item: InventoryItem) {
+    clearRemoteEdit(item.id)
+    setEditingInventoryId(item.id)
+    setInventoryForm({
+      item_name: item.item_name,
+      item_cost: item.item_cost.toString(),
+      platforms: item.platforms,
+      source_id: item.source_id ?? '',
+      sku: item.sku ?? '',
+      bin: item.bin ?? ''
+    })
+  }
+
+  function resetExpenseForm() {
+    setEditingExpenseId(null)
+    setExpenseForm({
+      name: '',
+      amount: '',
+      category: expenseForm.category,
+      date_added: new Date().toISOString().split('T')[0]
+    })
+  }
+
+  // Handle add/update expense
   async function handleAddExpense(e: React.FormEvent) {
     e.preventDefault()
 
+    const expense = {
+      name: expenseForm.name,
+      amount: parseFloat(expenseForm.amount),
+      category: expenseForm.category,
+      date_added: expenseForm.date_added
+    }
+
     try {
-      await addExpense({
-        name: expenseForm.name,
-        amount: parseFloat(expenseForm.amount),
-        date_added: expenseForm.date_added
-      })
+      if (editingExpenseId) {
+        await updateExpense(editingExpenseId, expense)
+      } else {
+        await addExpense(expense)
+      }
 
       await loadData()
-      setExpenseForm({
-        name: '',
-        amount: '',
-        date_added: new Date().toISOString().split('T')[0]
-      })
+      resetExpenseForm()
     } catch (error) {
-      console.error('Error adding expense:', error)
-      alert('Error adding expense. Check console for details.')
+      console.error('Error saving expense:', error)
+      alert('Error saving expense. Check console for details.')
     }
   }
 
-  // Mark inventory as sold
-  async function markAsSold(item: InventoryItem) {
-    const salePrice = prompt(`Enter sale price for ${item.item_name}:`)
-    if (!salePrice) return
+  function startEditExpense(expense: Expense) {
+    clearRemoteEdit(expense.id)
+    setEditingExpenseId(expense.id)
+    setExpenseForm({
+      name: expense.name,
+      amount: expense.amount.toString(),
+      category: expense.category,
+      date_added: expense.date_added
+    })
+  }
+
+  // Mark inventory as sold — called from the Mark Sold dialog
+  async function markAsSold(item: InventoryItem, sale: NewSale) {
+    try {
+      await addSale({ ...sale, inventory_id: item.id, source_id: item.source_id ?? null })
+
+      // Keep the item so the sale can be traced back to it
+      await updateInventoryItem(item.id, { status: 'Sold' })
+      setMarkSoldItem(null)
+      await loadData()
+    } catch (error) {
+      console.error('Error marking as sold:', error)
+      alert('Error marking as sold. Check console for details.')
+    }
+  }
 
-    const platform = prompt('Platform (eBay/Mercari/Poshmark/Depop):') as 'eBay' | 'Mercari' | 'Poshmark' | 'Depop'
-    if (!platform) return
+  // Move a sale along its lifecycle. Returns and cancellations go through a dialog first.
+  async function changeSaleStatus(sale: Sale, status: SaleStatus) {
+    if (status === 'Returned' || status === 'Cancelled') {
+      setSaleOutcome({ sale, outcome: status })
+      return
+    }
+    try {
+      await updateSale(sale.id, { status })
+      await loadData()
+    } catch (error) {
+      console.error('Error updating sale status:', error)
+      alert('Error updating sale status. Check console for details.')
+    }
+  }
 
-    const price = parseFloat(salePrice)
-    const platformFee = calculateFees(platform, price)
-    const profit = price - platformFee - item.item_cost
+  // From the awaiting-shipment queue
+  async function shipSale(sale: Sale, shipment: Shipment) {
+    try {
+      await updateSale(sale.id, { status: 'Shipped', ...shipment })
+      await loadData()
+    } catch (error) {
+      console.error('Error marking sale shipped:', error)
+      alert('Error marking sale shipped. Check console for details.')
+    }
+  }
 
+  async function handleSaleOutcome(sale: Sale, outcome: SaleOutcome, adjustment: RefundAdjustment) {
     try {
-      await addSale({
-        item_name: item.item_name,
-        platform: platform,
-        sale_date: markSoldDate,
-        sale_price: price,
-        platform_fee: platformFee,
-        item_cost: item.item_cost,
-        shipping_cost: 0,
-        profit: profit
+      await updateSale(sale.id, {
+        status: outcome,
+        ...adjustment,
+        profit: refundedProfit(sale, adjustment)
       })
 
-      await deleteInventoryItem(item.id)
+      if (adjustment.restocked) {
+        const item = sale.inventory_id ? inventoryById.get(sale.inventory_id) : undefined
+        if (item) {
+          await updateInventoryItem(item.id, { status: 'In Stock' })
+        } else {
+          await addInventoryItem({
+            item_name: sale.item_name,
+            item_cost: sale.item_cost,
+            platforms: [sale.platform],
+            date_added: new Date().toISOString().split('T')[0],
+            source_id: sale.source_id ?? null
+          })
+        }
+      }
+
+      setSaleOutcome(null)
       await loadData()
     } catch (error) {
-      console.error('Error marking as sold:', error)
-      alert('Error marking as sold. Check console for details.')
+      console.error('Error recording return:', error)
+      alert('Error recording return. Check console for details.')
     }
   }
 
-  // Delete handlers
-  async function handleDeleteSale(id: string) {
-    if (!confirm('Delete this sale?')) return
+  async function setInventoryStatus(item: InventoryItem, status: InventoryStatus) {
     try {
-      await deleteSale(id)
+      await updateInventoryItem(item.id, { status })
+      await loadData()
+    } catch (error) {
+      console.error('Error updating inventory status:', error)
+      alert('Error updating inventory status. Check console for details.')
+    }
+  }
+
+  // Delete handlers — deletes go to the trash, with an undo offered straight away
+  async function handleDeleteSale(sale: Sale) {
+    const item = sale.inventory_id ? inventoryById.get(sale.inventory_id) : undefined
+    const restock = item?.status === 'Sold'
+    try {
+      await deleteSale(sale.id)
+      if (restock) await updateInventoryItem(item.id, { status: 'In Stock' })
+      if (editingSaleId === sale.id) resetSaleForm()
+      setUndo({
+        id: sale.id,
+        message: restock ? 'Sale moved to trash and the item put back in stock.' : 'Sale moved to trash.',
+        restore: async () => {
+          await restoreFromTrash('sales', sale.id)
+          if (restock) await updateInventoryItem(item.id, { status: 'Sold' })
+        }
+      })
       await loadData()
     } catch (error) {
       console.error('Error deleting sale:', error)
+      alert('Error deleting sale. Check console for details.')
     }
   }
 
   async function handleDeleteInventory(id: string) {
-    if (!confirm('Delete this inventory item?')) return
     try {
       await deleteInventoryItem(id)
+      if (editingInventoryId === id) resetInventoryForm()
+      setUndo({ id, message: 'Item moved to trash.', restore: () => restoreFromTrash('inventory', id) })
       await loadData()
     } catch (error) {
       console.error('Error deleting inventory:', error)
+      alert('Error deleting item. Check console for details.')
+    }
+  }
+
+  function toggleLabel(item: InventoryItem) {
+    setLabelItems(items => items.some(i => i.id === item.id) ? items.filter(i => i.id !== item.id) : [...items, item])
+  }
+
+  // Items added before SKUs existed get one now, so every label has a barcode
+  async function openLabels() {
+    try {
+      const missing = labelItems.filter(item => !item.sku)
+      const skus = new Map(missing.map(item => [item.id, generateSku(item.date_added)]))
+      for (const [id, sku] of skus) await updateInventoryItem(id, { sku })
+
+      setLabelItems(labelItems.map(item => skus.has(item.id) ? { ...item, sku: skus.get(item.id) } : item))
+      setShowLabels(true)
+      if (missing.length > 0) await loadData()
+    } catch (error) {
+      console.error('Error preparing labels:', error)
+      alert('Error preparing labels. Check console for details.')
     }
   }
 
   async function handleDeleteExpense(id: string) {
-    if (!confirm('Delete this expense?')) return
     try {
       await deleteExpense(id)
+      if (editingExpenseId === id) resetExpenseForm()
+      setUndo({ id, message: 'Expense moved to trash.', restore: () => restoreFromTrash('expenses', id) })
       await loadData()
     } catch (error) {
       console.error('Error deleting expense:', error)
+      alert('Error deleting expense. Check console for details.')
+    }
+  }
+
+  async function handleUndo() {
+    if (!undo) return
+    setUndo(null)
+    try {
+      await undo.restore()
+      await loadData()
+    } catch (error) {
+      console.error('Error undoing delete:', error)
+      alert('Error undoing delete. It is still in the trash — check console for details.')
     }
   }
 
-  // CSV exports
-  function exportSalesCSV() {
-    const headers = ['Item', 'Platform', 'Date', 'Sale Price', 'Fee', 'Cost', 'Shipping', 'Profit']
-    const rows = filteredSales.map(s => [
-      s.item_name, s.platform, s.sale_date,
-      s.sale_price.toFixed(2), s.platform_fee.toFixed(2),
-      s.item_cost.toFixed(2), s.shipping_cost.toFixed(2), s.profit.toFixed(2)
-    ])
-    downloadCSV(`sales-${selectedYear}.csv`, headers, rows)
+  // The trash changed, so did the lists and stats
+  async function handleTrashChanged() {
+    await Promise.all([loadTrash(), loadData()])
   }
 
-  function exportInventoryCSV() {
-    const headers = ['Item', 'Cost', 'Platforms', 'Date Added']
-    const rows = filteredInventory.map(i => [
-      i.item_name, i.item_cost.toFixed(2),
-      i.platforms.join('; '), i.date_added || ''
-    ])
-    downloadCSV('inventory.csv', headers, rows)
+  // CSV exports cover every row matching the filters, not just the pages loaded
+  async function exportSalesCSV() {
+    try {
+      const [allSales, allInventory] = await Promise.all([
+        fetchAllPages(page => querySales({ ...saleFilters, sort: saleSort, ...page })),
+        getInventory()
+      ])
+      const itemsById = new Map(allInventory.map(item => [item.id, item]))
+      const headers = ['Item', 'Platform', 'Date', 'Status', 'Sale Price', 'Buyer Paid Shipping', 'Fee', 'Fee Refunded', 'Cost', 'Shipping', 'Return Shipping', 'Profit', 'Carrier', 'Service', 'Tracking', 'Ship By', 'Date Sourced', 'Days to Sell']
+      const rows = allSales.map(s => {
+        const sourced = (s.inventory_id && itemsById.get(s.inventory_id)?.date_added) || ''
+        return [
+          s.item_name, s.platform, s.sale_date, s.status,
+          s.sale_price.toFixed(2), (s.shipping_charged ?? 0).toFixed(2), s.platform_fee.toFixed(2), (s.fee_refunded ?? 0).toFixed(2),
+          s.item_cost.toFixed(2), s.shipping_cost.toFixed(2), (s.return_shipping_cost ?? 0).toFixed(2), s.profit.toFixed(2),
+          s.carrier ?? '', s.shipping_service ?? '', s.tracking_number ?? '', s.ship_by ?? '',
+          sourced,
+          sourced ? daysBetween(sourced, s.sale_date).toString() : ''
+        ]
+      })
+      downloadCSV(`sales-${selectedYear}.csv`, headers, rows)
+    } catch (error) {
+      console.error('Error exporting sales:', error)
+      alert('Error exporting sales. Check console for details.')
+    }
   }
 
-  function exportExpensesCSV() {
-    const headers = ['Name', 'Amount', 'Date']
-    const rows = filteredExpenses.map(e => [
-      e.name, e.amount.toFixed(2), e.date_added
-    ])
-    downloadCSV(`expenses-${selectedYear}.csv`, headers, rows)
+  async function exportInventoryCSV() {
+    try {
+      const allInventory = await fetchAllPages(page => queryInventory({ ...inventoryFilters, ...page }))
+      const headers = ['SKU', 'Item', 'Bin', 'Cost', 'Platforms', 'Date Added', 'Status', 'Source']
+      const rows = allInventory.map(i => [
+        i.sku || '', i.item_name, i.bin || '', i.item_cost.toFixed(2),
+        i.platforms.join('; '), i.date_added || '', i.status,
+        (i.source_id && sourcesById.get(i.source_id)?.name) || ''
+      ])
+      downloadCSV('inventory.csv', headers, rows)
+    } catch (error) {
+      console.error('Error exporting inventory:', error)
+      alert('Error exporting inventory. Check console for details.')
+    }
+  }
+
+  async function exportExpensesCSV() {
+    try {
+      const allExpenses = await fetchAllPages(page => queryExpenses({ ...expenseFilters, ...page }))
+      const headers = ['Name', 'Category', 'Amount', 'Date']
+      const rows = allExpenses.map(e => [
+        e.name, e.category, e.amount.toFixed(2), e.date_added
+      ])
+      // Logged trips go in as mileage at their deduction, unless the list is filtered to another category
+      if (!expenseFilters.category || expenseFilters.category === 'Mileage') {
+        const search = expenseFilters.search?.toLowerCase() ?? ''
+        const matching = tripsInRange(trips, expenseFilters).filter(t => t.purpose.toLowerCase().includes(search))
+        matching.forEach(t => rows.push([
+          `${t.purpose} (${t.distance.toFixed(1)} mi at $${mileageRate(tripYear(t), mileageRates).toFixed(3)}/mi)`,
+          'Mileage', tripDeduction(t, mileageRates).toFixed(2), t.trip_date
+        ]))
+      }
+      downloadCSV(`expenses-${selectedYear}.csv`, headers, rows)
+    } catch (error) {
+      console.error('Error exporting expenses:', error)
+      alert('Error exporting expenses. Check console for details.')
+    }
   }
 
   function clearFilters() {
     setSearchQuery('')
     setPlatformFilter('all')
+    setSaleStatusFilter('all')
+    setInventoryStatusFilter('In Stock')
+    setExpenseCategoryFilter('all')
     setDateRange({ start: '', end: '' })
   }
 
-  const hasActiveFilters = searchQuery || platformFilter !== 'all' || dateRange.start || dateRange.end
+  async function handleSignOut() {
+    try {
+      await signOut()
+    } catch (error) {
+      if (error instanceof UnsyncedWritesError) {
+        alert(error.message)
+        return
+      }
+      console.error('Error signing out:', error)
+      alert('Error signing out. Check console for details.')
+    }
+  }
+
+  const hasActiveFilters = searchQuery || platformFilter !== 'all' || saleStatusFilter !== 'all' || inventoryStatusFilter !== 'In Stock' || expenseCategoryFilter !== 'all' || dateRange.start || dateRange.end
 
   if (loading) {
     return (
@@ -378,9 +1037,9 @@ export default function ResellTracker() {
 
   return (
     <div className="min-h-screen p-4 md:p-5">
-      <div className="max-w-7xl mx-auto">
+      <div className={`max-w-7xl mx-auto ${showLabels ? 'print:hidden' : ''}`}>
         {/* Header */}
-        <div className="text-center mb-6">
+        <div className="text-center mb-6 print:hidden">
           <div className="flex items-center justify-center gap-3 mb-1">
             <h1 className="text-2xl md:text-3xl font-bold text-white">Resale Tracker</h1>
             <select
@@ -395,10 +1054,22 @@ export default function ResellTracker() {
             </select>
           </div>
           <p className="text-white/80 text-sm">Track your reselling profits across platforms</p>
+          <div className="flex items-center justify-center gap-2 mt-1 text-xs text-white/70">
+            {DATA_STORE === 'local' ? (
+              <span>Data is stored in this browser</span>
+            ) : (
+              <>
+                <span>{user.email}</span>
+                <button onClick={handleSignOut} className="underline hover:text-white">Sign Out</button>
+              </>
+            )}
+          </div>
         </div>
 
+        <SyncStatus state={outbox} onRetry={handleRetryWrite} onDiscard={discardPendingWrite} />
+
         {/* Stats Cards */}
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 mb-6 print:hidden">
           <div className="bg-white p-4 rounded-lg shadow-md">
             <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Total Sales</div>
             <div className="text-xl font-bold text-green-600">${totalSales.toFixed(2)}</div>
@@ -411,11 +1082,21 @@ export default function ResellTracker() {
             <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Bulk Expenses</div>
             <div className="text-xl font-bold text-orange-600">${totalExpenses.toFixed(2)}</div>
           </div>
+          <div className="bg-white p-4 rounded-lg shadow-md">
+            <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Mileage</div>
+            <div className="text-xl font-bold text-teal-600">${mileageDeduction.toFixed(2)}</div>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow-md">
+            <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Shipping P/L</div>
+            <div className={`text-xl font-bold ${shippingProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {shippingProfit >= 0 ? '+' : ''}{shippingProfit.toFixed(2)}
+            </div>
+          </div>
           <div className="bg-amber-50 p-4 rounded-lg shadow-md border-2 border-amber-500">
             <div className="text-[10px] uppercase tracking-wider text-amber-700 font-semibold">Inventory Value</div>
             <div className="text-xl font-bold text-amber-600">${inventoryValue.toFixed(2)}</div>
           </div>
-          <div className="col-span-2 md:col-span-1 bg-white p-4 rounded-lg shadow-md">
+          <div className="bg-white p-4 rounded-lg shadow-md">
             <div className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">Net Profit</div>
             <div className={`text-xl font-bold ${netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
               {netProfit >= 0 ? '+' : ''}{netProfit.toFixed(2)}
@@ -424,8 +1105,8 @@ export default function ResellTracker() {
         </div>
 
         {/* Tabs */}
-        <div className="flex gap-2 mb-4">
-          {(['sales', 'inventory', 'expenses'] as const).map(tab => (
+        <div className="flex flex-wrap gap-2 mb-4 print:hidden">
+          {(['sales', 'shipping', 'inventory', 'lots', 'sources', 'aging', 'expenses', 'analytics', 'taxes', 'reconcile', 'trash', 'history', 'settings'] as const).map(tab => (
             <button
               key={tab}
               onClick={() => { setActiveTab(tab); clearFilters() }}
@@ -435,7 +1116,7 @@ export default function ResellTracker() {
                   : 'bg-white/90 text-gray-700 hover:bg-white'
               }`}
             >
-              {tab === 'expenses' ? 'Bulk Expenses' : tab.charAt(0).toUpperCase() + tab.slice(1)}
+              {tab === 'expenses' ? 'Bulk Expenses' : tab === 'taxes' ? 'Tax Summary' : tab === 'shipping' ? 'Awaiting Shipment' : tab.charAt(0).toUpperCase() + tab.slice(1)}
             </button>
           ))}
         </div>
@@ -445,129 +1126,62 @@ export default function ResellTracker() {
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
             {/* Left column: Form */}
             <div className="bg-white p-5 rounded-lg shadow-md">
-              <h2 className="text-xl font-bold mb-1">Add Sale</h2>
+              <h2 className="text-xl font-bold mb-1">{editingSaleId ? 'Edit Sale' : 'Add Sale'}</h2>
+              {editingSaleId && remoteEdits[editingSaleId] && (
+                <RemoteChangeNotice
+                  noun="sale"
+                  change={remoteEdits[editingSaleId]}
+                  onReload={latestSale ? () => startEditSale(latestSale) : undefined}
+                  onDiscard={resetSaleForm}
+                />
+              )}
               <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
-                Log a completed sale. Fees are calculated automatically per platform.
+                {editingSaleId
+                  ? 'Update this sale. Fees and profit are recalculated when you save.'
+                  : 'Log a sale — it starts as Pending until you ship it. Fees are calculated from the platform\'s fee schedule on the sale date.'}
               </div>
               <form onSubmit={handleAddSale} className="space-y-3">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                  <div>
-                    <label className="block text-xs font-medium text-gray-600 mb-1">Item Name</label>
-                    <input
-                      type="text"
-                      required
-                      value={saleForm.item_name}
-                      onChange={(e) => setSaleForm({...saleForm, item_name: e.target.value})}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-600 mb-1">Platform</label>
-                    <select
-                      value={saleForm.platform}
-                      onChange={(e) => setSaleForm({...saleForm, platform: e.target.value as 'eBay' | 'Mercari' | 'Poshmark' | 'Depop'})}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                <SaleFormFields form={saleForm} onChange={setSaleForm} platforms={activePlatforms} />
+
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={!!editingSaleId && remoteEdits[editingSaleId] === 'deleted'}
+                    className="flex-1 bg-indigo-500 text-white py-2.5 rounded-lg font-semibold hover:bg-indigo-600 transition-colors disabled:opacity-50"
+                  >
+                    {editingSaleId ? 'Save Changes' : 'Add Sale'}
+                  </button>
+                  {editingSaleId && (
+                    <button
+                      type="button"
+                      onClick={resetSaleForm}
+                      className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
                     >
-                      <option value="eBay">eBay</option>
-                      <option value="Mercari">Mercari</option>
-                      <option value="Poshmark">Poshmark</option>
-                      <option value="Depop">Depop</option>
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-600 mb-1">Sale Date</label>
-                    <input
-                      type="date"
-                      required
-                      value={saleForm.sale_date}
-                      onChange={(e) => setSaleForm({...saleForm, sale_date: e.target.value})}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-600 mb-1">Sale Price</label>
-                    <input
-                      type="number"
-                      step="0.01"
-                      required
-                      value={saleForm.sale_price}
-                      onChange={(e) => setSaleForm({...saleForm, sale_price: e.target.value})}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-600 mb-1">Item Cost</label>
-                    <input
-                      type="number"
-                      step="0.01"
-                      value={saleForm.item_cost}
-                      onChange={(e) => setSaleForm({...saleForm, item_cost: e.target.value})}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                      placeholder="0.00"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-600 mb-1">Shipping Cost</label>
-                    <input
-                      type="number"
-                      step="0.01"
-                      value={saleForm.shipping_cost}
-                      onChange={(e) => setSaleForm({...saleForm, shipping_cost: e.target.value})}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                      placeholder="0.00"
-                    />
-                  </div>
+                      Cancel
+                    </button>
+                  )}
                 </div>
-
-                {saleForm.platform === 'eBay' && (
-                  <div className="border-t pt-3 mt-3">
-                    <h3 className="font-semibold mb-2 text-gray-700 text-sm">eBay Special Fields (Optional)</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      <div>
-                        <label className="block text-xs font-medium text-gray-600 mb-1">Gross Total (w/ tax)</label>
-                        <input
-                          type="number"
-                          step="0.01"
-                          value={saleForm.gross_total}
-                          onChange={(e) => setSaleForm({...saleForm, gross_total: e.target.value})}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                          placeholder="0.00"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs font-medium text-gray-600 mb-1">What I Actually Received</label>
-                        <input
-                          type="number"
-                          step="0.01"
-                          value={saleForm.actual_received}
-                          onChange={(e) => setSaleForm({...saleForm, actual_received: e.target.value})}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                          placeholder="0.00"
-                        />
-                      </div>
-                    </div>
-                  </div>
-                )}
-
-                <button
-                  type="submit"
-                  className="w-full bg-indigo-500 text-white py-2.5 rounded-lg font-semibold hover:bg-indigo-600 transition-colors"
-                >
-                  Add Sale
-                </button>
               </form>
             </div>
 
             {/* Right column: Sales list */}
-            <div className="bg-white p-5 rounded-lg shadow-md">
-              <div className="flex items-center justify-between mb-3">
-                <h2 className="text-xl font-bold">Sales ({filteredSales.length})</h2>
-                <button
-                  onClick={exportSalesCSV}
-                  className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors"
-                >
-                  Export CSV
-                </button>
+            <div className="bg-white p-5 rounded-lg shadow-md">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-bold">Sales ({saleList.total})</h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="px-3 py-1.5 bg-indigo-500 text-white text-sm rounded-lg font-semibold hover:bg-indigo-600 transition-colors"
+                  >
+                    Import CSV
+                  </button>
+                  <button
+                    onClick={exportSalesCSV}
+                    className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors"
+                  >
+                    Export CSV
+                  </button>
+                </div>
               </div>
 
               {/* Filter bar */}
@@ -586,10 +1200,28 @@ export default function ResellTracker() {
                     className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
                   >
                     <option value="all">All Platforms</option>
-                    <option value="eBay">eBay</option>
-                    <option value="Mercari">Mercari</option>
-                    <option value="Poshmark">Poshmark</option>
-                    <option value="Depop">Depop</option>
+                    {platformNames.map(platform => (
+                      <option key={platform} value={platform}>{platform}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={saleStatusFilter}
+                    onChange={(e) => setSaleStatusFilter(e.target.value as SaleStatus | 'all')}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="all">All Statuses</option>
+                    {(Object.keys(SALE_STATUS_COLORS) as SaleStatus[]).map(status => (
+                      <option key={status} value={status}>{status}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={saleSort}
+                    onChange={(e) => setSaleSort(e.target.value as SaleSort)}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                  >
+                    {(Object.keys(SALE_SORTS) as SaleSort[]).map(sort => (
+                      <option key={sort} value={sort}>Sort: {SALE_SORTS[sort].label}</option>
+                    ))}
                   </select>
                   <input
                     type="date"
@@ -618,36 +1250,94 @@ export default function ResellTracker() {
 
               {/* Sales cards */}
               <div className="space-y-2 max-h-[400px] overflow-y-auto">
-                {filteredSales.map((sale) => (
+                {saleList.rows.map((sale) => (
                   <div
                     key={sale.id}
                     className="p-3 border rounded-lg border-l-4 hover:shadow-sm transition-shadow"
-                    style={{ borderLeftColor: PLATFORM_COLORS[sale.platform] || '#6366f1' }}
+                    style={{ borderLeftColor: colors[sale.platform] || FALLBACK_PLATFORM_COLOR }}
                   >
                     <div className="flex items-start justify-between gap-2">
+                      {coverPhoto(sale) && (
+                        <PhotoThumb path={coverPhoto(sale)!} alt={sale.item_name} size={40} onClick={() => setGalleryItemId(sale.inventory_id ?? null)} />
+                      )}
                       <div className="min-w-0 flex-1">
                         <div className="font-semibold text-sm truncate">{sale.item_name}</div>
                         <div className="flex flex-wrap items-center gap-2 mt-1">
+                          {pendingIds.has(sale.id) && (
+                            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs font-medium">
+                              Waiting to sync
+                            </span>
+                          )}
+                          {remoteEdits[sale.id] === 'updated' && (
+                            <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">
+                              Changed on another device
+                            </span>
+                          )}
                           <span
                             className="px-2 py-0.5 rounded-full text-white text-xs font-medium"
-                            style={{ backgroundColor: PLATFORM_COLORS[sale.platform] }}
+                            style={{ backgroundColor: colors[sale.platform] || FALLBACK_PLATFORM_COLOR }}
                           >
                             {sale.platform}
                           </span>
+                          <span
+                            className="px-2 py-0.5 rounded-full text-white text-xs font-medium"
+                            style={{ backgroundColor: SALE_STATUS_COLORS[sale.status] || '#6b7280' }}
+                          >
+                            {sale.status}
+                          </span>
                           <span className="text-xs text-gray-500">
                             {new Date(sale.sale_date).toLocaleDateString()}
                           </span>
-                          <span className="text-xs text-gray-500">
+                          <span className={`text-xs text-gray-500 ${isRefunded(sale) ? 'line-through' : ''}`}>
                             ${sale.sale_price.toFixed(2)}
                           </span>
+                          {sale.status === 'Pending' && sale.ship_by && (
+                            <span className={`text-xs ${sale.ship_by < todayISO() ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                              Ship by {new Date(sale.ship_by).toLocaleDateString()}
+                            </span>
+                          )}
+                          {sale.tracking_number && (
+                            <span className="text-xs text-gray-500 font-mono">
+                              {sale.carrier ? `${sale.carrier} ` : ''}{sale.tracking_number}
+                            </span>
+                          )}
+                          {daysToSell(sale) !== null && (
+                            <span className="text-xs text-gray-500">
+                              {daysToSell(sale)}d to sell
+                            </span>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2 shrink-0">
                         <span className={`font-bold text-sm ${sale.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                           {sale.profit >= 0 ? '+' : ''}${sale.profit.toFixed(2)}
                         </span>
+                        {SALE_STATUS_TRANSITIONS[sale.status]?.length > 0 && (
+                          <select
+                            value=""
+                            onChange={(e) => changeSaleStatus(sale, e.target.value as SaleStatus)}
+                            className="px-1 py-0.5 border border-gray-300 rounded text-xs"
+                          >
+                            <option value="" disabled>Status…</option>
+                            {SALE_STATUS_TRANSITIONS[sale.status].map(status => (
+                              <option key={status} value={status}>{status}</option>
+                            ))}
+                          </select>
+                        )}
                         <button
-                          onClick={() => handleDeleteSale(sale.id)}
+                          onClick={() => setHistoryRecord({ table: 'sales', id: sale.id, title: sale.item_name })}
+                          className="text-gray-400 hover:text-gray-600 text-xs"
+                        >
+                          History
+                        </button>
+                        <button
+                          onClick={() => startEditSale(sale)}
+                          className="text-indigo-400 hover:text-indigo-600 text-xs"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeleteSale(sale)}
                           className="text-red-400 hover:text-red-600 text-xs"
                         >
                           Delete
@@ -656,22 +1346,45 @@ export default function ResellTracker() {
                     </div>
                   </div>
                 ))}
-                {filteredSales.length === 0 && (
+                {saleList.rows.length === 0 && (
                   <div className="text-center text-gray-400 py-8 text-sm">No sales found</div>
                 )}
+                {saleList.rows.length < saleList.total && (
+                  <button
+                    onClick={() => loadMore('sales')}
+                    className="w-full py-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+                  >
+                    Load more ({saleList.total - saleList.rows.length} left)
+                  </button>
+                )}
               </div>
             </div>
           </div>
         )}
 
+        {/* Awaiting Shipment Tab */}
+        {activeTab === 'shipping' && (
+          <ShippingQueue sales={sales} inventory={inventory} platformColors={colors} onShip={shipSale} />
+        )}
+
         {/* Inventory Tab */}
         {activeTab === 'inventory' && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
             {/* Left column: Form */}
             <div className="bg-white p-5 rounded-lg shadow-md">
-              <h2 className="text-xl font-bold mb-1">Add Inventory</h2>
+              <h2 className="text-xl font-bold mb-1">{editingInventoryId ? 'Edit Inventory' : 'Add Inventory'}</h2>
+              {editingInventoryId && remoteEdits[editingInventoryId] && (
+                <RemoteChangeNotice
+                  noun="inventory item"
+                  change={remoteEdits[editingInventoryId]}
+                  onReload={latestInventory ? () => startEditInventory(latestInventory) : undefined}
+                  onDiscard={resetInventoryForm}
+                />
+              )}
               <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
-                Add items you&apos;ve sourced. Use $0 cost for personal/vintage items.
+                {editingInventoryId
+                  ? 'Update this item. The original date added is kept.'
+                  : <>Add items you&apos;ve sourced. Use $0 cost for personal/vintage items.</>}
               </div>
               <form onSubmit={handleAddInventory} className="space-y-3">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
@@ -699,10 +1412,48 @@ export default function ResellTracker() {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Bin / Shelf</label>
+                    <input
+                      type="text"
+                      value={inventoryForm.bin}
+                      onChange={(e) => setInventoryForm({...inventoryForm, bin: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="e.g., Tote 4"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">SKU</label>
+                    <input
+                      type="text"
+                      value={inventoryForm.sku}
+                      onChange={(e) => setInventoryForm({...inventoryForm, sku: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                      placeholder="Made automatically"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Source</label>
+                  <select
+                    value={inventoryForm.source_id}
+                    onChange={(e) => setInventoryForm({...inventoryForm, source_id: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Not recorded</option>
+                    {sources.map(source => (
+                      <option key={source.id} value={source.id}>{source.name}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-xs font-medium text-gray-600 mb-2">Platforms (Crosslisting)</label>
                   <div className="grid grid-cols-2 gap-2">
-                    {(['eBay', 'Mercari', 'Poshmark', 'Depop'] as const).map((platform) => (
+                    {/* An item keeps platforms it was listed on before they were made inactive */}
+                    {[...activePlatforms, ...inventoryForm.platforms.filter(p => !activePlatforms.includes(p))].map((platform) => (
                       <label key={platform} className="flex items-center text-sm">
                         <input
                           type="checkbox"
@@ -728,32 +1479,53 @@ export default function ResellTracker() {
                   </div>
                 </div>
 
-                <button
-                  type="submit"
-                  className="w-full bg-amber-500 text-white py-2.5 rounded-lg font-semibold hover:bg-amber-600 transition-colors"
-                >
-                  Add to Inventory
-                </button>
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={!!editingInventoryId && remoteEdits[editingInventoryId] === 'deleted'}
+                    className="flex-1 bg-amber-500 text-white py-2.5 rounded-lg font-semibold hover:bg-amber-600 transition-colors disabled:opacity-50"
+                  >
+                    {editingInventoryId ? 'Save Changes' : 'Add to Inventory'}
+                  </button>
+                  {editingInventoryId && (
+                    <button
+                      type="button"
+                      onClick={resetInventoryForm}
+                      className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
               </form>
             </div>
 
             {/* Right column: Inventory list */}
             <div className="bg-white p-5 rounded-lg shadow-md">
               <div className="flex items-center justify-between mb-3">
-                <h2 className="text-xl font-bold">Inventory ({filteredInventory.length})</h2>
-                <button
-                  onClick={exportInventoryCSV}
-                  className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors"
-                >
-                  Export CSV
-                </button>
+                <h2 className="text-xl font-bold">Inventory ({inventoryList.total})</h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={openLabels}
+                    disabled={labelItems.length === 0}
+                    className="px-3 py-1.5 bg-indigo-500 text-white text-sm rounded-lg font-semibold hover:bg-indigo-600 transition-colors disabled:opacity-50"
+                  >
+                    Print Labels ({labelItems.length})
+                  </button>
+                  <button
+                    onClick={exportInventoryCSV}
+                    className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors"
+                  >
+                    Export CSV
+                  </button>
+                </div>
               </div>
 
               {/* Filter bar */}
               <div className="space-y-2 mb-3">
                 <input
                   type="text"
-                  placeholder="Search items..."
+                  placeholder="Search by name, SKU or bin..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
@@ -765,10 +1537,20 @@ export default function ResellTracker() {
                     className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
                   >
                     <option value="all">All Platforms</option>
-                    <option value="eBay">eBay</option>
-                    <option value="Mercari">Mercari</option>
-                    <option value="Poshmark">Poshmark</option>
-                    <option value="Depop">Depop</option>
+                    {platformNames.map(platform => (
+                      <option key={platform} value={platform}>{platform}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={inventoryStatusFilter}
+                    onChange={(e) => setInventoryStatusFilter(e.target.value as InventoryStatus | 'all')}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="In Stock">In Stock</option>
+                    <option value="Sold">Sold</option>
+                    <option value="Donated">Donated</option>
+                    <option value="Lost">Lost</option>
+                    <option value="all">All Statuses</option>
                   </select>
                   <input
                     type="date"
@@ -793,47 +1575,118 @@ export default function ResellTracker() {
                 </div>
               </div>
 
-              <div className="mb-3">
-                <label className="block text-xs font-medium text-gray-600 mb-1">Sale Date for Mark as Sold</label>
-                <input
-                  type="date"
-                  value={markSoldDate}
-                  onChange={(e) => setMarkSoldDate(e.target.value)}
-                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
-                />
-              </div>
-
               {/* Inventory cards */}
               <div className="space-y-2 max-h-[400px] overflow-y-auto">
-                {filteredInventory.map((item) => (
+                {inventoryList.rows.map((item) => (
                   <div key={item.id} className="p-3 border rounded-lg hover:shadow-sm transition-shadow">
                     <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
-                      <div className="min-w-0 flex-1">
-                        <div className="font-semibold text-sm">{item.item_name}</div>
-                        <div className="flex flex-wrap items-center gap-1.5 mt-1">
-                          <span className="text-xs text-gray-500">
-                            Cost: ${item.item_cost.toFixed(2)}
-                          </span>
-                          {item.platforms.map(p => (
-                            <span
-                              key={p}
-                              className="px-2 py-0.5 rounded-full text-white text-xs font-medium"
-                              style={{ backgroundColor: PLATFORM_COLORS[p] || '#6366f1' }}
-                            >
-                              {p}
+                      <div className="flex items-start gap-2 min-w-0 flex-1">
+                        <input
+                          type="checkbox"
+                          checked={labelItems.some(i => i.id === item.id)}
+                          onChange={() => toggleLabel(item)}
+                          className="mt-1"
+                          title="Select for labels"
+                        />
+                        {item.photos?.[0] ? (
+                          <PhotoThumb path={item.photos[0]} alt={item.item_name} onClick={() => setGalleryItemId(item.id)} />
+                        ) : (
+                          <button
+                            onClick={() => setGalleryItemId(item.id)}
+                            className="shrink-0 w-12 h-12 rounded border-2 border-dashed border-gray-300 text-gray-400 hover:text-indigo-500 hover:border-indigo-300 text-xs"
+                            title="Add photos"
+                          >
+                            + Photo
+                          </button>
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <div className="font-semibold text-sm">
+                            {item.item_name}
+                            {item.sku && <span className="ml-2 font-mono text-xs font-normal text-gray-400">{item.sku}</span>}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-1.5 mt-1">
+                            {pendingIds.has(item.id) && (
+                              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs font-medium">
+                                Waiting to sync
+                              </span>
+                            )}
+                            {remoteEdits[item.id] === 'updated' && (
+                              <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">
+                                Changed on another device
+                              </span>
+                            )}
+                            {item.status !== 'In Stock' && (
+                              <span
+                                className="px-2 py-0.5 rounded-full text-white text-xs font-medium"
+                                style={{ backgroundColor: STATUS_COLORS[item.status] }}
+                              >
+                                {item.status}
+                              </span>
+                            )}
+                            <span className="text-xs text-gray-500">
+                              Cost: ${item.item_cost.toFixed(2)}
                             </span>
-                          ))}
-                          {item.platforms.length === 0 && (
-                            <span className="text-xs text-gray-400">No platforms</span>
-                          )}
+                            {item.lot_id && lotsById.has(item.lot_id) && (
+                              <span className="text-xs text-amber-700">
+                                Lot: {lotsById.get(item.lot_id)!.name}
+                              </span>
+                            )}
+                            {item.bin && (
+                              <span className="text-xs text-indigo-700">
+                                Bin: {item.bin}
+                              </span>
+                            )}
+                            {item.source_id && sourcesById.has(item.source_id) && (
+                              <span className="text-xs text-sky-700">
+                                From: {sourcesById.get(item.source_id)!.name}
+                              </span>
+                            )}
+                            {item.platforms.map(p => (
+                              <span
+                                key={p}
+                                className="px-2 py-0.5 rounded-full text-white text-xs font-medium"
+                                style={{ backgroundColor: colors[p] || FALLBACK_PLATFORM_COLOR }}
+                              >
+                                {p}
+                              </span>
+                            ))}
+                            {item.platforms.length === 0 && (
+                              <span className="text-xs text-gray-400">No platforms</span>
+                            )}
+                          </div>
                         </div>
                       </div>
                       <div className="flex gap-2 shrink-0">
+                        {item.status === 'In Stock' && (
+                          <button
+                            onClick={() => setMarkSoldItem(item)}
+                            className="px-3 py-1.5 bg-green-600 text-white rounded text-xs font-medium hover:bg-green-700 transition-colors"
+                          >
+                            Mark Sold
+                          </button>
+                        )}
+                        {item.status !== 'Sold' && (
+                          <select
+                            value={item.status}
+                            onChange={(e) => setInventoryStatus(item, e.target.value as InventoryStatus)}
+                            className="px-2 py-1.5 border border-gray-300 rounded text-xs"
+                          >
+                            <option value="In Stock">In Stock</option>
+                            <option value="Donated">Donated</option>
+                            <option value="Lost">Lost</option>
+                          </select>
+                        )}
                         <button
-                          onClick={() => markAsSold(item)}
-                          className="px-3 py-1.5 bg-green-600 text-white rounded text-xs font-medium hover:bg-green-700 transition-colors"
+                          onClick={() => setHistoryRecord({ table: 'inventory', id: item.id, title: item.item_name })}
+                          className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded text-xs font-medium hover:bg-gray-200 transition-colors"
                         >
-                          Mark Sold
+                          History
+                        </button>
+                        <button
+                          onClick={() => startEditInventory(item)}
+                          className="px-3 py-1.5 bg-indigo-500 text-white rounded text-xs font-medium hover:bg-indigo-600 transition-colors"
+                        >
+                          Edit
                         </button>
                         <button
                           onClick={() => handleDeleteInventory(item.id)}
@@ -845,9 +1698,17 @@ export default function ResellTracker() {
                     </div>
                   </div>
                 ))}
-                {filteredInventory.length === 0 && (
+                {inventoryList.rows.length === 0 && (
                   <div className="text-center text-gray-400 py-8 text-sm">No inventory items found</div>
                 )}
+                {inventoryList.rows.length < inventoryList.total && (
+                  <button
+                    onClick={() => loadMore('inventory')}
+                    className="w-full py-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+                  >
+                    Load more ({inventoryList.total - inventoryList.rows.length} left)
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -855,132 +1716,381 @@ export default function ResellTracker() {
 
         {/* Expenses Tab */}
         {activeTab === 'expenses' && (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-            {/* Left column: Form */}
-            <div className="bg-white p-5 rounded-lg shadow-md">
-              <h2 className="text-xl font-bold mb-1">Add Bulk Expense</h2>
-              <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
-                Track business expenses like shipping supplies, mailers, tape, etc.
-              </div>
-              <form onSubmit={handleAddExpense} className="space-y-3">
-                <div>
-                  <label className="block text-xs font-medium text-gray-600 mb-1">Expense Name</label>
-                  <input
-                    type="text"
-                    required
-                    value={expenseForm.name}
-                    onChange={(e) => setExpenseForm({...expenseForm, name: e.target.value})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                    placeholder="e.g., Tape, Mailers, etc."
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {/* Left column: Form */}
+              <div className="bg-white p-5 rounded-lg shadow-md">
+                <h2 className="text-xl font-bold mb-1">{editingExpenseId ? 'Edit Bulk Expense' : 'Add Bulk Expense'}</h2>
+                {editingExpenseId && remoteEdits[editingExpenseId] && (
+                  <RemoteChangeNotice
+                    noun="expense"
+                    change={remoteEdits[editingExpenseId]}
+                    onReload={latestExpense ? () => startEditExpense(latestExpense) : undefined}
+                    onDiscard={resetExpenseForm}
                   />
+                )}
+                <div className="border-l-4 border-blue-400 bg-blue-50 p-3 rounded-r mb-4 text-sm text-blue-800">
+                  {editingExpenseId
+                    ? 'Update this expense.'
+                    : 'Track business expenses like shipping supplies, mailers, tape, etc.'}
                 </div>
-                <div className="grid grid-cols-2 gap-3">
+                <form onSubmit={handleAddExpense} className="space-y-3">
                   <div>
-                    <label className="block text-xs font-medium text-gray-600 mb-1">Amount</label>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Expense Name</label>
                     <input
-                      type="number"
-                      step="0.01"
+                      type="text"
                       required
-                      value={expenseForm.amount}
-                      onChange={(e) => setExpenseForm({...expenseForm, amount: e.target.value})}
+                      value={expenseForm.name}
+                      onChange={(e) => setExpenseForm({...expenseForm, name: e.target.value})}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="e.g., Tape, Mailers, etc."
                     />
                   </div>
                   <div>
-                    <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
-                    <input
-                      type="date"
-                      required
-                      value={expenseForm.date_added}
-                      onChange={(e) => setExpenseForm({...expenseForm, date_added: e.target.value})}
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Category</label>
+                    <select
+                      value={expenseForm.category}
+                      onChange={(e) => setExpenseForm({...expenseForm, category: e.target.value as ExpenseCategory})}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                    />
+                    >
+                      {EXPENSE_CATEGORIES.map(c => (
+                        <option key={c.category} value={c.category}>{c.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Amount</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        required
+                        value={expenseForm.amount}
+                        onChange={(e) => setExpenseForm({...expenseForm, amount: e.target.value})}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
+                      <input
+                        type="date"
+                        required
+                        value={expenseForm.date_added}
+                        onChange={(e) => setExpenseForm({...expenseForm, date_added: e.target.value})}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    </div>
                   </div>
-                </div>
-
-                <button
-                  type="submit"
-                  className="w-full bg-orange-500 text-white py-2.5 rounded-lg font-semibold hover:bg-orange-600 transition-colors"
-                >
-                  Add Expense
-                </button>
-              </form>
-            </div>
 
-            {/* Right column: Expenses list */}
-            <div className="bg-white p-5 rounded-lg shadow-md">
-              <div className="flex items-center justify-between mb-3">
-                <h2 className="text-xl font-bold">Expenses ({filteredExpenses.length})</h2>
-                <button
-                  onClick={exportExpensesCSV}
-                  className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors"
-                >
-                  Export CSV
-                </button>
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={!!editingExpenseId && remoteEdits[editingExpenseId] === 'deleted'}
+                      className="flex-1 bg-orange-500 text-white py-2.5 rounded-lg font-semibold hover:bg-orange-600 transition-colors disabled:opacity-50"
+                    >
+                      {editingExpenseId ? 'Save Changes' : 'Add Expense'}
+                    </button>
+                    {editingExpenseId && (
+                      <button
+                        type="button"
+                        onClick={resetExpenseForm}
+                        className="px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </form>
               </div>
 
-              {/* Filter bar */}
-              <div className="space-y-2 mb-3">
-                <input
-                  type="text"
-                  placeholder="Search expenses..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                />
-                <div className="flex gap-2 flex-wrap">
-                  <input
-                    type="date"
-                    value={dateRange.start}
-                    onChange={(e) => setDateRange({...dateRange, start: e.target.value})}
-                    className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
-                  />
+              {/* Right column: Expenses list */}
+              <div className="bg-white p-5 rounded-lg shadow-md">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-xl font-bold">Expenses ({expenseList.total})</h2>
+                  <button
+                    onClick={exportExpensesCSV}
+                    className="px-3 py-1.5 bg-emerald-500 text-white text-sm rounded-lg font-semibold hover:bg-emerald-600 transition-colors"
+                  >
+                    Export CSV
+                  </button>
+                </div>
+
+                {/* Filter bar */}
+                <div className="space-y-2 mb-3">
                   <input
-                    type="date"
-                    value={dateRange.end}
-                    onChange={(e) => setDateRange({...dateRange, end: e.target.value})}
-                    className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                    type="text"
+                    placeholder="Search expenses..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                   />
-                  {hasActiveFilters && (
+                  <div className="flex gap-2 flex-wrap">
+                    <select
+                      value={expenseCategoryFilter}
+                      onChange={(e) => setExpenseCategoryFilter(e.target.value as ExpenseCategory | 'all')}
+                      className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="all">All Categories</option>
+                      {EXPENSE_CATEGORIES.map(c => (
+                        <option key={c.category} value={c.category}>{c.category}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="date"
+                      value={dateRange.start}
+                      onChange={(e) => setDateRange({...dateRange, start: e.target.value})}
+                      className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                    />
+                    <input
+                      type="date"
+                      value={dateRange.end}
+                      onChange={(e) => setDateRange({...dateRange, end: e.target.value})}
+                      className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                    />
+                    {hasActiveFilters && (
+                      <button
+                        onClick={clearFilters}
+                        className="px-3 py-1.5 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Expense cards */}
+                <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                  {expenseList.rows.map((expense) => (
+                    <div key={expense.id} className="flex items-center justify-between p-3 border rounded-lg hover:shadow-sm transition-shadow">
+                      <div>
+                        <div className="font-semibold text-sm">{expense.name}</div>
+                        <div className="flex flex-wrap items-center gap-2 mt-1">
+                          {pendingIds.has(expense.id) && (
+                            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs font-medium">
+                              Waiting to sync
+                            </span>
+                          )}
+                          {remoteEdits[expense.id] === 'updated' && (
+                            <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">
+                              Changed on another device
+                            </span>
+                          )}
+                          <span
+                            className="px-2 py-0.5 rounded-full text-white text-xs font-medium"
+                            style={{ backgroundColor: EXPENSE_CATEGORY_COLORS[expense.category] || '#9ca3af' }}
+                          >
+                            {expense.category}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {new Date(expense.date_added).toLocaleDateString()}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="text-base font-bold text-orange-600">${expense.amount.toFixed(2)}</div>
+                        <button
+                          onClick={() => setHistoryRecord({ table: 'expenses', id: expense.id, title: expense.name })}
+                          className="text-gray-400 hover:text-gray-600 text-xs"
+                        >
+                          History
+                        </button>
+                        <button
+                          onClick={() => startEditExpense(expense)}
+                          className="text-indigo-400 hover:text-indigo-600 text-xs"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeleteExpense(expense.id)}
+                          className="text-red-400 hover:text-red-600 text-xs"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  {expenseList.rows.length === 0 && (
+                    <div className="text-center text-gray-400 py-8 text-sm">No expenses found</div>
+                  )}
+                  {expenseList.rows.length < expenseList.total && (
                     <button
-                      onClick={clearFilters}
-                      className="px-3 py-1.5 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+                      onClick={() => loadMore('expenses')}
+                      className="w-full py-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
                     >
-                      Clear
+                      Load more ({expenseList.total - expenseList.rows.length} left)
                     </button>
                   )}
                 </div>
               </div>
+            </div>
 
-              {/* Expense cards */}
-              <div className="space-y-2 max-h-[400px] overflow-y-auto">
-                {filteredExpenses.map((expense) => (
-                  <div key={expense.id} className="flex items-center justify-between p-3 border rounded-lg hover:shadow-sm transition-shadow">
-                    <div>
-                      <div className="font-semibold text-sm">{expense.name}</div>
-                      <div className="text-xs text-gray-500">
-                        {new Date(expense.date_added).toLocaleDateString()}
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <div className="text-base font-bold text-orange-600">${expense.amount.toFixed(2)}</div>
-                      <button
-                        onClick={() => handleDeleteExpense(expense.id)}
-                        className="text-red-400 hover:text-red-600 text-xs"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </div>
+            <MileageLog trips={trips} rates={mileageRates} year={selectedYear} onChanged={loadData} />
+          </div>
+        )}
+
+        {/* Lots Tab */}
+        {activeTab === 'lots' && (
+          <Lots lots={lots} inventory={inventory} sales={sales} platforms={activePlatforms} onChanged={loadData} />
+        )}
+
+        {/* Sources Tab */}
+        {activeTab === 'sources' && (
+          <Sources sources={sources} inventory={inventory} sales={sales} year={selectedYear} onChanged={loadData} />
+        )}
+
+        {/* Aging Tab */}
+        {activeTab === 'aging' && (
+          <AgingReport inventory={inventory} sales={sales} platforms={activePlatforms} platformColors={colors} />
+        )}
+
+        {/* Analytics Tab */}
+        {activeTab === 'analytics' && (
+          <div className="space-y-4">
+            <div className="bg-white p-3 rounded-lg shadow-md flex gap-2 flex-wrap">
+              <input
+                type="text"
+                placeholder="Search items..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="flex-1 min-w-[160px] px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+              />
+              <select
+                value={platformFilter}
+                onChange={(e) => setPlatformFilter(e.target.value)}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="all">All Platforms</option>
+                {platformNames.map(platform => (
+                  <option key={platform} value={platform}>{platform}</option>
                 ))}
-                {filteredExpenses.length === 0 && (
-                  <div className="text-center text-gray-400 py-8 text-sm">No expenses found</div>
-                )}
-              </div>
+              </select>
+              <input
+                type="date"
+                value={dateRange.start}
+                onChange={(e) => setDateRange({...dateRange, start: e.target.value})}
+                className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+              />
+              <input
+                type="date"
+                value={dateRange.end}
+                onChange={(e) => setDateRange({...dateRange, end: e.target.value})}
+                className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+              />
+              {hasActiveFilters && (
+                <button
+                  onClick={clearFilters}
+                  className="px-3 py-1.5 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                  Clear
+                </button>
+              )}
             </div>
+            <Analytics
+              sales={salesMatchingFilters}
+              expenses={expensesMatchingFilters}
+              trips={tripsMatchingFilters}
+              mileageRates={mileageRates}
+              year={selectedYear}
+              years={availableYears}
+              platformColors={colors}
+            />
+          </div>
+        )}
+
+        {/* Tax Summary Tab */}
+        {activeTab === 'taxes' && (
+          <TaxReport
+            sales={sales}
+            inventory={inventory}
+            expenses={expenses}
+            trips={trips}
+            mileageRates={mileageRates}
+            years={availableYears}
+            defaultYear={selectedYear}
+          />
+        )}
+
+        {/* Reconcile Tab */}
+        {activeTab === 'reconcile' && (
+          <Reconciliation
+            sales={sales}
+            forms={forms1099K}
+            platforms={platformNames}
+            years={availableYears}
+            defaultYear={selectedYear}
+            onChanged={loadData}
+          />
+        )}
+
+        {/* Trash Tab */}
+        {activeTab === 'trash' && (
+          <Trash trash={trash} retentionDays={trashRetentionDays(settings)} onChanged={handleTrashChanged} />
+        )}
+
+        {/* History Tab */}
+        {activeTab === 'history' && (
+          <AuditLog userId={user.id} />
+        )}
+
+        {/* Settings Tab */}
+        {activeTab === 'settings' && (
+          <div className="space-y-4">
+            {DATA_STORE === 'supabase' && (
+              <TeamSettings user={user} team={team} members={teamMembers} onChanged={loadData} />
+            )}
+            <Platforms platforms={platforms} onChanged={loadData} />
+            <FeeSchedules schedules={feeSchedules} platforms={platformNames} onChanged={loadData} />
+            <MileageRates rates={mileageRates} years={years} onChanged={loadData} />
           </div>
         )}
       </div>
+
+      {showLabels && (
+        <LabelSheet items={labelItems} onClose={() => setShowLabels(false)} />
+      )}
+
+      {historyRecord && (
+        <RecordHistory
+          table={historyRecord.table}
+          recordId={historyRecord.id}
+          title={historyRecord.title}
+          userId={user.id}
+          onClose={() => setHistoryRecord(null)}
+        />
+      )}
+
+      {undo && (
+        <UndoToast key={undo.id} message={undo.message} onUndo={handleUndo} onDismiss={() => setUndo(null)} />
+      )}
+
+      {galleryItem && (
+        <PhotoGallery item={galleryItem} onClose={() => setGalleryItemId(null)} onChanged={loadData} />
+      )}
+
+      {showImport && (
+        <SalesImport feeSchedules={feeSchedules} onClose={() => setShowImport(false)} onImported={loadData} />
+      )}
+
+      {saleOutcome && (
+        <SaleOutcomeDialog
+          sale={saleOutcome.sale}
+          outcome={saleOutcome.outcome}
+          feeSchedules={feeSchedules}
+          platforms={registry}
+          onClose={() => setSaleOutcome(null)}
+          onConfirm={(adjustment) => handleSaleOutcome(saleOutcome.sale, saleOutcome.outcome, adjustment)}
+        />
+      )}
+
+      {markSoldItem && (
+        <MarkSoldDialog
+          item={markSoldItem}
+          feeSchedules={feeSchedules}
+          platforms={activePlatforms}
+          onClose={() => setMarkSoldItem(null)}
+          onConfirm={(sale) => markAsSold(markSoldItem, sale)}
+        />
+      )}
     </div>
   )
 }
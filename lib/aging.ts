@@ -0,0 +1,103 @@
+import type { InventoryItem, Sale } from '@/lib/types'
+import { daysBetween } from '@/lib/dates'
+import { isRefunded } from '@/lib/sales'
+
+export const AGE_BUCKETS = [
+  { label: '0–30 days', min: 0, max: 30 },
+  { label: '31–90 days', min: 31, max: 90 },
+  { label: '91–180 days', min: 91, max: 180 },
+  { label: '180+ days', min: 181, max: Infinity }
+]
+
+// Items older than this get a markdown or crosslisting suggestion
+export const STALE_AFTER_DAYS = 90
+
+export function ageInDays(item: InventoryItem, today: string) {
+  return item.date_added ? daysBetween(item.date_added, today) : null
+}
+
+export function bucketInventory(items: InventoryItem[], today: string) {
+  return AGE_BUCKETS.map(bucket => {
+    const bucketItems = items.filter(item => {
+      const age = ageInDays(item, today) ?? 0
+      return age >= bucket.min && age <= bucket.max
+    })
+    return {
+      ...bucket,
+      items: bucketItems,
+      capital: bucketItems.reduce((sum, item) => sum + item.item_cost, 0)
+    }
+  })
+}
+
+// Words that say what an item is, used to find similar past sales.
+// Sizes, numbers and filler words are dropped.
+const STOP_WORDS = new Set(['the', 'and', 'with', 'for', 'of', 'in', 'a', 'an', 'nwt', 'euc', 'vintage', 'size', 'mens', 'womens'])
+
+function keywords(name: string) {
+  return new Set(
+    name.toLowerCase()
+      .split(/[^a-z]+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  )
+}
+
+type SoldRecord = { platform: string, days: number, price: number, words: Set<string> }
+
+// Past sales we can time: ones created from an inventory item with a date added
+export function salesHistory(sales: Sale[], inventoryById: Map<string, InventoryItem>): SoldRecord[] {
+  return sales.flatMap(sale => {
+    if (isRefunded(sale) || !sale.inventory_id) return []
+    const item = inventoryById.get(sale.inventory_id)
+    if (!item?.date_added) return []
+    return [{
+      platform: sale.platform,
+      days: daysBetween(item.date_added, sale.sale_date),
+      price: sale.sale_price,
+      words: keywords(sale.item_name)
+    }]
+  })
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+export type AgingSuggestion = {
+  markdownPercent: number
+  crosslistTo: string | null
+  // Average days to sell on crosslistTo among the matched sales
+  crosslistDays: number | null
+  similarCount: number
+  similarMedianPrice: number | null
+}
+
+// Crosslisting is only suggested to the platforms given, normally the active ones
+export function suggestForItem(item: InventoryItem, age: number, history: SoldRecord[], platforms: string[]): AgingSuggestion {
+  const words = keywords(item.item_name)
+  const similar = history.filter(r => Array.from(words).some(w => r.words.has(w)))
+  // Fall back to every timed sale when nothing similar has sold yet
+  const basis = similar.length > 0 ? similar : history
+
+  const byPlatform = new Map<string, number[]>()
+  basis.forEach(r => byPlatform.set(r.platform, [...(byPlatform.get(r.platform) ?? []), r.days]))
+
+  const fastest = platforms
+    .filter(p => !item.platforms.includes(p) && byPlatform.has(p))
+    .map(p => {
+      const days = byPlatform.get(p)!
+      return { platform: p, days: days.reduce((sum, d) => sum + d, 0) / days.length }
+    })
+    .sort((a, b) => a.days - b.days)[0]
+
+  return {
+    markdownPercent: age > 180 ? 25 : age > STALE_AFTER_DAYS ? 15 : 0,
+    crosslistTo: fastest?.platform ?? null,
+    crosslistDays: fastest ? Math.round(fastest.days) : null,
+    similarCount: similar.length,
+    similarMedianPrice: median(similar.map(r => r.price))
+  }
+}
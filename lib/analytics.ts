@@ -0,0 +1,90 @@
+import type { Expense, MileageRate, Sale, Trip } from '@/lib/types'
+import { isRefunded, saleRevenue } from '@/lib/sales'
+import { mileageDeduction } from '@/lib/mileage'
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+export type PeriodPnL = {
+  label: string
+  revenue: number
+  fees: number
+  cogs: number
+  shipping: number
+  expenses: number
+  mileage: number
+  netProfit: number
+}
+
+// Totals for one period. Each figure matches how the stats cards count it,
+// so the months add up to the year's cards.
+function periodPnL(label: string, sales: Sale[], expenses: Expense[], trips: Trip[], rates: MileageRate[]): PeriodPnL {
+  const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0)
+  const mileage = mileageDeduction(trips, rates)
+  return {
+    label,
+    revenue: sales.filter(s => !isRefunded(s)).reduce((sum, s) => sum + saleRevenue(s), 0),
+    fees: sales.reduce((sum, s) => sum + s.platform_fee - (s.fee_refunded ?? 0), 0),
+    cogs: sales.filter(s => !(isRefunded(s) && s.restocked)).reduce((sum, s) => sum + s.item_cost, 0),
+    shipping: sales.reduce((sum, s) => sum + s.shipping_cost + (s.return_shipping_cost ?? 0), 0),
+    expenses: totalExpenses,
+    mileage,
+    netProfit: sales.reduce((sum, s) => sum + s.profit, 0) - totalExpenses - mileage
+  }
+}
+
+// One row per month of the given year
+export function monthlyPnL(year: string, sales: Sale[], expenses: Expense[], trips: Trip[], rates: MileageRate[]) {
+  return MONTH_LABELS.map((label, i) => {
+    const prefix = `${year}-${(i + 1).toString().padStart(2, '0')}`
+    return periodPnL(
+      label,
+      sales.filter(s => s.sale_date.startsWith(prefix)),
+      expenses.filter(e => e.date_added.startsWith(prefix)),
+      trips.filter(t => t.trip_date.startsWith(prefix)),
+      rates
+    )
+  })
+}
+
+// One row per year, oldest first
+export function yearlyPnL(years: string[], sales: Sale[], expenses: Expense[], trips: Trip[], rates: MileageRate[]) {
+  return [...years].sort().map(year => periodPnL(
+    year,
+    sales.filter(s => s.sale_date.startsWith(year)),
+    expenses.filter(e => e.date_added.startsWith(year)),
+    trips.filter(t => t.trip_date.startsWith(year)),
+    rates
+  ))
+}
+
+export type PlatformStats = {
+  platform: string
+  count: number
+  revenue: number
+  averagePrice: number
+  feePercent: number
+  marginPercent: number
+  profit: number
+}
+
+export function platformBreakdown(sales: Sale[]): PlatformStats[] {
+  const byPlatform = new Map<string, Sale[]>()
+  sales.filter(s => !isRefunded(s)).forEach(s => {
+    byPlatform.set(s.platform, [...(byPlatform.get(s.platform) ?? []), s])
+  })
+
+  return Array.from(byPlatform.entries()).map(([platform, platformSales]) => {
+    const revenue = platformSales.reduce((sum, s) => sum + saleRevenue(s), 0)
+    const fees = platformSales.reduce((sum, s) => sum + s.platform_fee, 0)
+    const profit = platformSales.reduce((sum, s) => sum + s.profit, 0)
+    return {
+      platform,
+      count: platformSales.length,
+      revenue,
+      averagePrice: revenue / platformSales.length,
+      feePercent: revenue > 0 ? fees / revenue * 100 : 0,
+      marginPercent: revenue > 0 ? profit / revenue * 100 : 0,
+      profit
+    }
+  }).sort((a, b) => b.revenue - a.revenue)
+}
@@ -0,0 +1,269 @@
+import { DATA_STORE, type Repository } from '@/lib/repository'
+import { createServerClient, createSupabaseRepository } from '@/lib/supabase'
+import { EXPENSE_CATEGORIES } from '@/lib/expenses'
+import { platformRegistry, type RegisteredPlatform } from '@/lib/platforms'
+import {
+  PAGE_SIZE,
+  SALE_SORTS,
+  type ExpenseQuery,
+  type InventoryQuery,
+  type PageRequest,
+  type SaleQuery,
+  type SaleSort
+} from '@/lib/queries'
+import type { Expense, InventoryItem, InventoryStatus, Sale, SaleStatus } from '@/lib/types'
+
+// Helpers shared by the route handlers under app/api
+
+// Thrown from a route handler to answer with a JSON error and this status code
+export class ApiError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+}
+
+// Run a route handler, turning anything it throws into a JSON error response
+export async function handle(work: () => Promise<Response>) {
+  try {
+    return await work()
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return Response.json({ error: error.message }, { status: error.status })
+    }
+    console.error('API error:', error)
+    return Response.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// The data store for one request. The caller sends their access token (Authorization: Bearer <token>)
+// and row-level security limits them to their own books. The local store keeps its data in the
+// browser, out of the server's reach, so there's no API without Supabase.
+export async function repositoryForRequest(request: Request): Promise<Repository> {
+  if (DATA_STORE === 'local') throw new ApiError(501, 'The API needs the Supabase data store')
+
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!token) throw new ApiError(401, 'Missing bearer token')
+
+  const client = createServerClient(token)
+  const { error } = await client.auth.getUser(token)
+  if (error) throw new ApiError(401, 'Invalid or expired token')
+
+  return createSupabaseRepository(() => client)
+}
+
+export async function readBody(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new ApiError(400, 'Body must be JSON')
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError(400, 'Body must be a JSON object')
+  }
+  return body as Record<string, unknown>
+}
+
+export function required<T>(value: T | undefined, field: string) {
+  if (value === undefined) throw new ApiError(400, `${field} is required`)
+  return value
+}
+
+// Field readers. Each returns undefined when the field is absent, so the same
+// reader serves POST (which fills in defaults) and PATCH (which changes only what was sent).
+
+function text(body: Record<string, unknown>, field: string) {
+  const value = body[field]
+  if (value === undefined) return undefined
+  if (typeof value !== 'string' || !value.trim()) throw new ApiError(400, `${field} must be a non-empty string`)
+  return value.trim()
+}
+
+function nullableText(body: Record<string, unknown>, field: string) {
+  return body[field] === null ? null : text(body, field)
+}
+
+export function amount(body: Record<string, unknown>, field: string) {
+  const value = body[field]
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ApiError(400, `${field} must be a number of at least 0`)
+  }
+  return value
+}
+
+function nullableAmount(body: Record<string, unknown>, field: string) {
+  return body[field] === null ? null : amount(body, field)
+}
+
+function date(body: Record<string, unknown>, field: string) {
+  const value = text(body, field)
+  if (value === undefined) return undefined
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new ApiError(400, `${field} must be a YYYY-MM-DD date`)
+  }
+  return value
+}
+
+function nullableDate(body: Record<string, unknown>, field: string) {
+  return body[field] === null ? null : date(body, field)
+}
+
+function oneOf<T extends string>(body: Record<string, unknown>, field: string, options: readonly T[]) {
+  const value = text(body, field)
+  if (value === undefined) return undefined
+  if (!options.includes(value as T)) throw new ApiError(400, `${field} must be one of: ${options.join(', ')}`)
+  return value as T
+}
+
+export function flag(body: Record<string, unknown>, field: string) {
+  const value = body[field]
+  if (value === undefined) return undefined
+  if (typeof value !== 'boolean') throw new ApiError(400, `${field} must be true or false`)
+  return value
+}
+
+const SALE_STATUSES: SaleStatus[] = ['Pending', 'Shipped', 'Delivered', 'Returned', 'Cancelled']
+const INVENTORY_STATUSES: InventoryStatus[] = ['In Stock', 'Sold', 'Donated', 'Lost']
+
+// Built-in platforms plus those saved in Settings
+export async function loadPlatformRegistry(repository: Repository) {
+  return platformRegistry(await repository.getPlatforms())
+}
+
+// Names in the platform registry, active or not, for checking the platforms a caller sends
+export function platformNames(registry: RegisteredPlatform[]) {
+  return registry.map(platform => platform.name)
+}
+
+// Sale fields a caller may set. Fee and profit are never read from the request.
+export function readSaleFields(body: Record<string, unknown>, platformNames: string[]) {
+  return withoutUndefined({
+    item_name: text(body, 'item_name'),
+    platform: oneOf(body, 'platform', platformNames),
+    sale_date: date(body, 'sale_date'),
+    sale_price: amount(body, 'sale_price'),
+    item_cost: amount(body, 'item_cost'),
+    shipping_cost: amount(body, 'shipping_cost'),
+    shipping_charged: nullableAmount(body, 'shipping_charged'),
+    carrier: nullableText(body, 'carrier'),
+    shipping_service: nullableText(body, 'shipping_service'),
+    tracking_number: nullableText(body, 'tracking_number'),
+    package_weight: nullableAmount(body, 'package_weight'),
+    package_length: nullableAmount(body, 'package_length'),
+    package_width: nullableAmount(body, 'package_width'),
+    package_height: nullableAmount(body, 'package_height'),
+    ship_by: nullableDate(body, 'ship_by'),
+    gross_total: nullableAmount(body, 'gross_total'),
+    actual_received: nullableAmount(body, 'actual_received'),
+    order_number: nullableText(body, 'order_number'),
+    inventory_id: nullableText(body, 'inventory_id'),
+    source_id: nullableText(body, 'source_id'),
+    status: oneOf(body, 'status', SALE_STATUSES)
+  }) satisfies Partial<Sale>
+}
+
+export function readInventoryFields(body: Record<string, unknown>, platformNames: string[]) {
+  const platforms = body.platforms
+  if (platforms !== undefined && (!Array.isArray(platforms) || platforms.some(p => !platformNames.includes(p)))) {
+    throw new ApiError(400, `platforms must be a list of: ${platformNames.join(', ')}`)
+  }
+
+  return withoutUndefined({
+    item_name: text(body, 'item_name'),
+    item_cost: amount(body, 'item_cost'),
+    platforms: platforms as string[] | undefined,
+    date_added: date(body, 'date_added'),
+    status: oneOf(body, 'status', INVENTORY_STATUSES),
+    lot_id: nullableText(body, 'lot_id'),
+    lot_weight: nullableAmount(body, 'lot_weight'),
+    expected_price: nullableAmount(body, 'expected_price'),
+    source_id: nullableText(body, 'source_id'),
+    sku: text(body, 'sku'),
+    bin: nullableText(body, 'bin')
+  }) satisfies Partial<InventoryItem>
+}
+
+export function readExpenseFields(body: Record<string, unknown>) {
+  return withoutUndefined({
+    name: text(body, 'name'),
+    amount: amount(body, 'amount'),
+    category: oneOf(body, 'category', EXPENSE_CATEGORIES.map(c => c.category)),
+    date_added: date(body, 'date_added')
+  }) satisfies Partial<Expense>
+}
+
+// List queries from the URL: ?search=&start=&end=&offset=&limit= plus per-list filters
+
+const MAX_PAGE_SIZE = 500
+
+function wholeNumber(params: Record<string, string>, field: string, fallback: number, max: number) {
+  const value = params[field]
+  if (value === undefined) return fallback
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 0 || number > max) {
+    throw new ApiError(400, `${field} must be a whole number from 0 to ${max}`)
+  }
+  return number
+}
+
+function readPage(params: Record<string, string>): PageRequest {
+  return {
+    offset: wholeNumber(params, 'offset', 0, Number.MAX_SAFE_INTEGER),
+    limit: wholeNumber(params, 'limit', PAGE_SIZE, MAX_PAGE_SIZE)
+  }
+}
+
+function year(params: Record<string, string>) {
+  const value = text(params, 'year')
+  if (value !== undefined && !/^\d{4}$/.test(value)) throw new ApiError(400, 'year must be a four-digit year')
+  return value
+}
+
+export function readSaleQuery(url: URL): SaleQuery {
+  const params = Object.fromEntries(url.searchParams)
+  return {
+    search: params.search,
+    platform: text(params, 'platform'),
+    status: oneOf(params, 'status', SALE_STATUSES),
+    start: date(params, 'start'),
+    end: date(params, 'end'),
+    year: year(params),
+    sort: oneOf(params, 'sort', Object.keys(SALE_SORTS) as SaleSort[]),
+    ...readPage(params)
+  }
+}
+
+export function readInventoryQuery(url: URL): InventoryQuery {
+  const params = Object.fromEntries(url.searchParams)
+  return {
+    search: params.search,
+    platform: text(params, 'platform'),
+    status: oneOf(params, 'status', INVENTORY_STATUSES),
+    start: date(params, 'start'),
+    end: date(params, 'end'),
+    ...readPage(params)
+  }
+}
+
+export function readExpenseQuery(url: URL): ExpenseQuery {
+  const params = Object.fromEntries(url.searchParams)
+  return {
+    search: params.search,
+    category: oneOf(params, 'category', EXPENSE_CATEGORIES.map(c => c.category)),
+    start: date(params, 'start'),
+    end: date(params, 'end'),
+    year: year(params),
+    ...readPage(params)
+  }
+}
+
+// Drop absent fields so a PATCH doesn't overwrite them with undefined
+function withoutUndefined<T extends Record<string, unknown>>(fields: T) {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as {
+    [K in keyof T]?: Exclude<T[K], undefined>
+  }
+}
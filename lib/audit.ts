@@ -0,0 +1,85 @@
+import type { AuditAction, AuditEntry } from '@/lib/types'
+
+// Change history for sales, inventory and expenses. With Supabase a trigger on each table
+// writes the log (see the audit_log migration); the local store writes it the same way here.
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Deleted for good',
+  mark_sold: 'Marked sold'
+}
+
+export const AUDIT_TABLE_LABELS: Record<AuditEntry['table_name'], string> = {
+  sales: 'Sale',
+  inventory: 'Inventory',
+  expenses: 'Expense'
+}
+
+type AuditedRow = Record<string, unknown> & { id: string }
+
+// Before and after values of the fields that differ
+function changedFields(before: AuditedRow, after: AuditedRow) {
+  const keys = Object.keys({ ...before, ...after })
+    .filter(key => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null))
+  return {
+    before: Object.fromEntries(keys.map(key => [key, before[key] ?? null])),
+    after: Object.fromEntries(keys.map(key => [key, after[key] ?? null])),
+    changed: keys.length > 0
+  }
+}
+
+// The log entry for one write, as the database trigger would make it; null when nothing changed.
+// A missing before is a create, a missing after a purge.
+export function auditEntry(
+  table: AuditEntry['table_name'],
+  before: AuditedRow | null,
+  after: AuditedRow | null,
+  changedBy: string | null
+): Omit<AuditEntry, 'id' | 'created_at'> | null {
+  const row = (after ?? before)!
+  const entry = {
+    table_name: table,
+    record_id: row.id,
+    record_name: (row.item_name ?? row.name ?? null) as string | null,
+    changed_by: changedBy,
+    changed_by_email: null
+  }
+  if (!before) return { ...entry, action: 'create', before: null, after }
+  if (!after) return { ...entry, action: 'purge', before, after: null }
+
+  const fields = changedFields(before, after)
+  if (!fields.changed) return null
+  const action: AuditAction = !before.deleted_at && after.deleted_at
+    ? 'delete'
+    : before.deleted_at && !after.deleted_at
+      ? 'restore'
+      : table === 'inventory' && before.status !== 'Sold' && after.status === 'Sold' ? 'mark_sold' : 'update'
+  return { ...entry, action, before: fields.before, after: fields.after }
+}
+
+// Column name as a label, e.g. sale_price → Sale price
+export function fieldLabel(field: string) {
+  const words = field.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function formatAuditValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Fields worth showing for an entry: what changed, or the whole row for a create or purge
+export function auditChanges(entry: AuditEntry) {
+  const fields = Object.keys({ ...entry.before, ...entry.after })
+    .filter(field => field !== 'id' && field !== 'created_at' && field !== 'user_id')
+  return fields.map(field => ({
+    field,
+    before: entry.before ? entry.before[field] : undefined,
+    after: entry.after ? entry.after[field] : undefined
+  }))
+}
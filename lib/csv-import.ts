@@ -0,0 +1,270 @@
+import { calculateFees, type FeeScheduleRules } from '@/lib/fees'
+import type { NewSale, Sale } from '@/lib/types'
+
+// Platforms whose sales reports we can read
+export type ImportPlatform = 'eBay' | 'Mercari' | 'Poshmark' | 'Depop'
+
+export type ImportRow = {
+  line: number
+  sale: NewSale | null
+  errors: string[]
+  // Already recorded by an earlier import. Every line of a report has its own key, so only
+  // the sales already saved are checked, by the import screen.
+  duplicate: boolean
+}
+
+// Column mapping for one platform's sales export. Each field lists the
+// header names we've seen in that platform's reports, matched case-insensitively.
+type ColumnMap = {
+  order_number: string[]
+  item_name: string[]
+  sale_date: string[]
+  sale_price: string[]
+  platform_fee?: string[]
+  shipping_cost?: string[]
+  gross_total?: string[]
+  actual_received?: string[]
+  // Only rows whose type column matches one of these values are sales
+  row_type?: { column: string[], values: string[] }
+}
+
+const COLUMN_MAPS: Record<ImportPlatform, ColumnMap> = {
+  // Seller Hub → Payments → Reports → Transaction report
+  eBay: {
+    order_number: ['order number'],
+    item_name: ['item title'],
+    sale_date: ['transaction creation date'],
+    sale_price: ['item subtotal'],
+    gross_total: ['gross transaction amount'],
+    actual_received: ['net amount'],
+    row_type: { column: ['type'], values: ['order'] }
+  },
+  // Account → Sales → Download sales report
+  Mercari: {
+    order_number: ['item id', 'order id'],
+    item_name: ['item title'],
+    sale_date: ['sold date'],
+    sale_price: ['item price'],
+    platform_fee: ['mercari selling fee', 'payment processing fee'],
+    shipping_cost: ['seller shipping fee']
+  },
+  // My Sales → Sales report
+  Poshmark: {
+    order_number: ['order id'],
+    item_name: ['listing title'],
+    sale_date: ['order date'],
+    sale_price: ['order price'],
+    actual_received: ['net earnings']
+  },
+  // Settings → Download sales
+  Depop: {
+    order_number: ['order id', 'transaction id'],
+    item_name: ['description'],
+    sale_date: ['date of sale'],
+    sale_price: ['item price'],
+    platform_fee: ['depop fee', 'depop payments fee', 'boosting fee'],
+    shipping_cost: ['usps cost', 'shipping cost']
+  }
+}
+
+export const IMPORT_PLATFORMS = Object.keys(COLUMN_MAPS) as ImportPlatform[]
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF line endings
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      inQuotes = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Strip a UTF-8 BOM and skip blank lines
+  if (rows[0]?.[0]) rows[0][0] = rows[0][0].replace(/^\uFEFF/, '')
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase()
+}
+
+function findColumns(headers: string[], names: string[]) {
+  const normalized = headers.map(normalizeHeader)
+  return names.map(name => normalized.indexOf(name)).filter(index => index !== -1)
+}
+
+function headerMatches(headers: string[], map: ColumnMap) {
+  return (['order_number', 'item_name', 'sale_date', 'sale_price'] as const)
+    .every(field => findColumns(headers, map[field]).length > 0)
+}
+
+// Find the header row and platform. eBay reports start with a few lines of
+// preamble, so we scan the first rows rather than assuming row 0.
+export function detectPlatform(rows: string[][], platform?: ImportPlatform) {
+  const candidates = platform ? [platform] : IMPORT_PLATFORMS
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const match = candidates.find(p => headerMatches(rows[i], COLUMN_MAPS[p]))
+    if (match) return { platform: match, headerIndex: i }
+  }
+  return null
+}
+
+export function parseMoney(value: string | undefined) {
+  if (value === undefined) return NaN
+  const cleaned = value.replace(/[^0-9.\-()]/g, '')
+  if (cleaned === '' || cleaned === '--') return NaN
+  const negative = cleaned.startsWith('(') || cleaned.startsWith('-')
+  const amount = parseFloat(cleaned.replace(/[()\-]/g, ''))
+  return negative ? -amount : amount
+}
+
+// Accepts ISO dates, M/D/YYYY and month-name dates like "Jan 5, 2026"
+export function parseDate(value: string | undefined) {
+  if (!value) return null
+  const trimmed = value.trim()
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/)
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3]
+    return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`
+  }
+
+  const parsed = new Date(trimmed.replace(/\s+[A-Z]{2,4}$/, ''))
+  if (isNaN(parsed.getTime())) return null
+  const month = (parsed.getMonth() + 1).toString().padStart(2, '0')
+  const day = parsed.getDate().toString().padStart(2, '0')
+  return `${parsed.getFullYear()}-${month}-${day}`
+}
+
+function cell(row: string[], headers: string[], names: string[] | undefined) {
+  if (!names) return undefined
+  const [index] = findColumns(headers, names)
+  return index === undefined ? undefined : row[index]
+}
+
+// Sum every matching column — platforms split fees across several columns
+function sumCells(row: string[], headers: string[], names: string[] | undefined) {
+  if (!names) return NaN
+  const indexes = findColumns(headers, names)
+  if (indexes.length === 0) return NaN
+  return indexes.reduce((sum, index) => sum + Math.abs(parseMoney(row[index]) || 0), 0)
+}
+
+function rowToSale(platform: ImportPlatform, headers: string[], row: string[], schedules: FeeScheduleRules[]): { sale: NewSale | null, errors: string[] } {
+  const map = COLUMN_MAPS[platform]
+  const errors: string[] = []
+
+  const orderNumber = cell(row, headers, map.order_number)?.trim()
+  const itemName = cell(row, headers, map.item_name)?.trim()
+  const saleDate = parseDate(cell(row, headers, map.sale_date))
+  const salePrice = parseMoney(cell(row, headers, map.sale_price))
+
+  if (!orderNumber) errors.push('Missing order number')
+  if (!itemName) errors.push('Missing item name')
+  if (!saleDate) errors.push('Invalid sale date')
+  if (isNaN(salePrice)) errors.push('Invalid sale price')
+  if (errors.length > 0) return { sale: null, errors }
+
+  const shippingCost = sumCells(row, headers, map.shipping_cost) || 0
+  const grossTotal = Math.abs(parseMoney(cell(row, headers, map.gross_total)))
+  const actualReceived = parseMoney(cell(row, headers, map.actual_received))
+
+  let platformFee: number
+  let profit: number
+
+  // Same rules as the Add Sale form: trust what actually landed when we have it
+  if (!isNaN(actualReceived)) {
+    platformFee = (isNaN(grossTotal) ? salePrice : grossTotal) - actualReceived
+    profit = actualReceived - shippingCost
+  } else {
+    const reportedFee = sumCells(row, headers, map.platform_fee)
+    platformFee = isNaN(reportedFee) ? calculateFees(platform, salePrice, saleDate!, schedules) : reportedFee
+    profit = salePrice - platformFee - shippingCost
+  }
+
+  return {
+    sale: {
+      item_name: itemName!,
+      platform,
+      sale_date: saleDate!,
+      sale_price: salePrice,
+      platform_fee: platformFee,
+      item_cost: 0,
+      shipping_cost: shippingCost,
+      profit,
+      gross_total: platform === 'eBay' && !isNaN(grossTotal) ? grossTotal : null,
+      actual_received: platform === 'eBay' && !isNaN(actualReceived) ? actualReceived : null,
+      order_number: orderNumber!,
+      // Reports only cover completed orders
+      status: 'Delivered'
+    },
+    errors
+  }
+}
+
+// Key used to recognise a sale that's already been imported. Multi-item orders share an
+// order number, so the line within the order is part of the key; the item name isn't, as
+// it's often edited after importing. A sale entered by hand counts as line 1.
+export function importKey(sale: Pick<Sale, 'platform' | 'order_number' | 'order_line'>) {
+  return `${sale.platform}|${sale.order_number ?? ''}|${sale.order_line ?? 1}`
+}
+
+export function parseSalesReport(text: string, schedules: FeeScheduleRules[], platform?: ImportPlatform) {
+  const rows = parseCSV(text)
+  const detected = detectPlatform(rows, platform)
+  if (!detected) return null
+
+  const headers = rows[detected.headerIndex]
+  const map = COLUMN_MAPS[detected.platform]
+  // Items seen so far in each order, numbering its lines in report order
+  const orderLines = new Map<string, number>()
+  const result: ImportRow[] = []
+
+  rows.slice(detected.headerIndex + 1).forEach((row, i) => {
+    if (map.row_type) {
+      const type = cell(row, headers, map.row_type.column)
+      if (!type || !map.row_type.values.includes(type.trim().toLowerCase())) return
+    }
+
+    const { sale, errors } = rowToSale(detected.platform, headers, row, schedules)
+    if (sale) {
+      sale.order_line = (orderLines.get(sale.order_number!) ?? 0) + 1
+      orderLines.set(sale.order_number!, sale.order_line)
+    }
+
+    result.push({ line: detected.headerIndex + i + 2, sale, errors, duplicate: false })
+  })
+
+  return { platform: detected.platform, rows: result }
+}
@@ -0,0 +1,8 @@
+// Whole days from one YYYY-MM-DD date to another
+export function daysBetween(from: string, to: string) {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000)
+}
+
+export function todayISO() {
+  return new Date().toISOString().split('T')[0]
+}
@@ -0,0 +1,24 @@
+import type { ExpenseCategory } from '@/lib/types'
+
+// Expense categories with the Schedule C line each one is reported on
+export const EXPENSE_CATEGORIES: { category: ExpenseCategory, label: string, scheduleCLine: string }[] = [
+  { category: 'Supplies', label: 'Supplies (mailers, tape, boxes)', scheduleCLine: '22' },
+  { category: 'Postage', label: 'Postage & shipping', scheduleCLine: '27a' },
+  { category: 'Software', label: 'Software subscriptions', scheduleCLine: '27a' },
+  { category: 'Mileage', label: 'Mileage / car & truck', scheduleCLine: '9' },
+  { category: 'Fees', label: 'Platform & bank fees', scheduleCLine: '10' },
+  { category: 'Advertising', label: 'Advertising & promoted listings', scheduleCLine: '8' },
+  { category: 'Office', label: 'Office expense', scheduleCLine: '18' },
+  { category: 'Other', label: 'Other', scheduleCLine: '27a' }
+]
+
+export const EXPENSE_CATEGORY_COLORS: Record<ExpenseCategory, string> = {
+  Supplies: '#f97316',
+  Postage: '#3b82f6',
+  Software: '#8b5cf6',
+  Mileage: '#14b8a6',
+  Fees: '#ef4444',
+  Advertising: '#ec4899',
+  Office: '#64748b',
+  Other: '#9ca3af'
+}
@@ -0,0 +1,142 @@
+import type { FeeSchedule, FeeTier } from '@/lib/types'
+import { bySaveOrder, type PlatformRules } from '@/lib/platforms'
+
+export type FeeScheduleRules = Omit<FeeSchedule, 'id' | 'created_at'>
+
+// Rates we used before schedules were configurable. They apply to any
+// platform/date with no schedule in the database, so old data keeps its numbers.
+export const DEFAULT_FEE_SCHEDULES: FeeScheduleRules[] = [
+  {
+    platform: 'eBay',
+    effective_from: '2000-01-01',
+    tier_mode: 'bracket',
+    tiers: [{ up_to: null, percent: 13.6, fixed: 0 }],
+    fixed_per_order: 0.40,
+    max_fee: null
+  },
+  {
+    platform: 'Mercari',
+    effective_from: '2000-01-01',
+    tier_mode: 'bracket',
+    tiers: [{ up_to: null, percent: 12.9, fixed: 0 }],
+    fixed_per_order: 0.30,
+    max_fee: null
+  },
+  {
+    platform: 'Poshmark',
+    effective_from: '2000-01-01',
+    tier_mode: 'bracket',
+    tiers: [
+      { up_to: 15, percent: 0, fixed: 2.95 },
+      { up_to: null, percent: 20, fixed: 0 }
+    ],
+    fixed_per_order: 0,
+    max_fee: null
+  },
+  {
+    platform: 'Depop',
+    effective_from: '2000-01-01',
+    tier_mode: 'bracket',
+    tiers: [{ up_to: null, percent: 3.3, fixed: 0 }],
+    fixed_per_order: 0.45,
+    max_fee: null
+  },
+  // Shipped orders: 10%, at least $0.80
+  {
+    platform: 'Facebook Marketplace',
+    effective_from: '2000-01-01',
+    tier_mode: 'bracket',
+    tiers: [
+      { up_to: 8, percent: 0, fixed: 0.80 },
+      { up_to: null, percent: 10, fixed: 0 }
+    ],
+    fixed_per_order: 0,
+    max_fee: null
+  },
+  // Transaction fee and payment processing together, plus the $0.20 listing fee
+  {
+    platform: 'Etsy',
+    effective_from: '2000-01-01',
+    tier_mode: 'bracket',
+    tiers: [{ up_to: null, percent: 9.5, fixed: 0 }],
+    fixed_per_order: 0.45,
+    max_fee: null
+  },
+  {
+    platform: 'Whatnot',
+    effective_from: '2000-01-01',
+    tier_mode: 'bracket',
+    tiers: [{ up_to: null, percent: 10.9, fixed: 0 }],
+    fixed_per_order: 0.30,
+    max_fee: null
+  },
+  {
+    platform: 'Grailed',
+    effective_from: '2000-01-01',
+    tier_mode: 'bracket',
+    tiers: [{ up_to: null, percent: 12.49, fixed: 0 }],
+    fixed_per_order: 0.49,
+    max_fee: null
+  }
+]
+
+// Schedule in effect for a platform on a given date: the latest one whose
+// effective_from is on or before saleDate, falling back to the defaults.
+// Of two saved for the same date, the first saved wins.
+export function findFeeSchedule(schedules: (FeeScheduleRules & Partial<Pick<FeeSchedule, 'id' | 'created_at'>>)[], platform: string, saleDate: string) {
+  const match = schedules
+    .filter(s => s.platform === platform && s.effective_from <= saleDate)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from) || bySaveOrder(a, b))[0]
+  return match ?? DEFAULT_FEE_SCHEDULES.find(s => s.platform === platform) ?? null
+}
+
+function tierFee(tier: FeeTier, amount: number) {
+  return amount * tier.percent / 100 + tier.fixed
+}
+
+// Apply a schedule to a sale price.
+// - bracket: the whole price is charged at the first tier it falls under (price < up_to)
+// - marginal: each tier charges its percent on the slice of the price inside it, like tax brackets
+export function applyFeeSchedule(schedule: FeeScheduleRules, salePrice: number) {
+  const tiers = [...schedule.tiers].sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity))
+  let fee = 0
+
+  if (schedule.tier_mode === 'marginal') {
+    let lower = 0
+    for (const tier of tiers) {
+      if (salePrice <= lower) break
+      const upper = Math.min(salePrice, tier.up_to ?? Infinity)
+      fee += tierFee(tier, upper - lower)
+      lower = upper
+    }
+  } else {
+    const tier = tiers.find(t => t.up_to === null || salePrice < t.up_to)
+    if (tier) fee = tierFee(tier, salePrice)
+  }
+
+  fee += schedule.fixed_per_order
+  if (schedule.max_fee !== null) fee = Math.min(fee, schedule.max_fee)
+  return fee
+}
+
+// Platform fee calculations
+export function calculateFees(platform: string, salePrice: number, saleDate: string, schedules: FeeScheduleRules[] = []) {
+  const schedule = findFeeSchedule(schedules, platform, saleDate)
+  return schedule ? applyFeeSchedule(schedule, salePrice) : 0
+}
+
+// What the platform gives back when a sale is undone, by its refund rules in the registry.
+// A platform that isn't registered refunds the whole fee.
+export function refundableFee(
+  sale: { platform: string, platform_fee: number, sale_date: string },
+  outcome: 'Returned' | 'Cancelled',
+  schedules: FeeScheduleRules[],
+  platforms: PlatformRules[]
+) {
+  const platform = platforms.find(p => p.name === sale.platform)
+  const rule = platform ? (outcome === 'Returned' ? platform.refund_on_return : platform.refund_on_cancel) : 'all'
+  if (rule === 'all') return sale.platform_fee
+  if (rule === 'none') return 0
+  const schedule = findFeeSchedule(schedules, sale.platform, sale.sale_date)
+  return Math.max(0, sale.platform_fee - (schedule?.fixed_per_order ?? 0))
+}
@@ -0,0 +1,16 @@
+import path from 'path'
+import { ApiError } from '@/lib/api'
+import { DATA_STORE } from '@/lib/repository'
+
+// Server side of the local data store's photos: files under .local-photos, standing in for
+// Supabase Storage. With Supabase the browser uploads straight to Storage and the photo routes answer 404.
+
+export const PHOTO_DIR = path.join(process.cwd(), '.local-photos')
+
+export function localPhotosOnly() {
+  if (DATA_STORE !== 'local') throw new ApiError(404, 'Photos are stored in Supabase Storage')
+}
+
+export function photoFile(photoPath: string) {
+  return path.join(PHOTO_DIR, photoPath)
+}
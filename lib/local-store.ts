@@ -0,0 +1,416 @@
+import type {
+  AppUser,
+  AuditEntry,
+  DataChange,
+  Expense,
+  FeeSchedule,
+  Form1099K,
+  InventoryItem,
+  Lot,
+  MileageRate,
+  NewSale,
+  Payout,
+  Platform,
+  Sale,
+  Settings,
+  Source,
+  TrashTable,
+  Trip
+} from '@/lib/types'
+import type { Repository } from '@/lib/repository'
+import { photoPath } from '@/lib/photos'
+import { auditEntry } from '@/lib/audit'
+import { payoutKey } from '@/lib/reconciliation'
+import {
+  compareSales,
+  dashboardStats,
+  matchesAuditFilters,
+  matchesExpenseFilters,
+  matchesInventoryFilters,
+  matchesSaleFilters,
+  paginate,
+  tripsInRange
+} from '@/lib/queries'
+
+// Data store that needs no server: each table is a JSON array in localStorage,
+// or in memory where there is no localStorage (server rendering, scripts, tests).
+// There are no accounts — a single local user owns everything.
+
+const STORAGE_PREFIX = 'resell-tracker:'
+
+const LOCAL_USER: AppUser = { id: 'local', email: null }
+
+type TableName =
+  | 'sales'
+  | 'inventory'
+  | 'expenses'
+  | 'lots'
+  | 'sources'
+  | 'platforms'
+  | 'fee_schedules'
+  | 'trips'
+  | 'mileage_rates'
+  | 'payouts'
+  | 'forms_1099k'
+  | 'settings'
+  | 'audit_log'
+
+type Row = { id: string, created_at: string }
+
+const memory = new Map<TableName, Row[]>()
+
+function hasLocalStorage() {
+  return typeof window !== 'undefined' && !!window.localStorage
+}
+
+function read<T extends Row>(table: TableName): T[] {
+  if (!hasLocalStorage()) return [...(memory.get(table) ?? [])] as T[]
+  const raw = window.localStorage.getItem(STORAGE_PREFIX + table)
+  return raw ? JSON.parse(raw) as T[] : []
+}
+
+function write<T extends Row>(table: TableName, rows: T[]) {
+  if (hasLocalStorage()) {
+    window.localStorage.setItem(STORAGE_PREFIX + table, JSON.stringify(rows))
+  } else {
+    memory.set(table, rows)
+  }
+}
+
+function insertRows<T extends Row>(table: TableName, rows: Omit<T, 'id' | 'created_at'>[]) {
+  const created = rows.map(row => ({
+    ...row,
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString()
+  }) as T)
+  write(table, [...read<T>(table), ...created])
+  return created
+}
+
+function updateRow<T extends Row>(table: TableName, id: string, changes: Partial<T>) {
+  const rows = read<T>(table)
+  const index = rows.findIndex(row => row.id === id)
+  if (index === -1) throw new Error(`No ${table} row with id ${id}`)
+  rows[index] = { ...rows[index], ...changes }
+  write(table, rows)
+  return rows[index]
+}
+
+function deleteRow(table: TableName, id: string) {
+  write(table, read(table).filter(row => row.id !== id))
+}
+
+type Trashable = Row & { deleted_at?: string | null }
+
+// The local change history keeps only the latest entries, since localStorage holds
+// about 5 MB for everything
+const LOCAL_AUDIT_LIMIT = 2000
+
+function isQuotaError(error: unknown) {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
+
+// Sales, inventory and expense writes are logged, as the audit trigger does with Supabase.
+// The write itself has already been saved, so a full browser storage costs the oldest history
+// rather than failing the save.
+function audit(table: TrashTable, before: Trashable | null, after: Trashable | null) {
+  const entry = auditEntry(table, before, after, LOCAL_USER.id)
+  if (!entry) return
+
+  const log = [...read<AuditEntry>('audit_log'), { ...entry, id: crypto.randomUUID(), created_at: new Date().toISOString() }]
+  for (let keep = LOCAL_AUDIT_LIMIT; keep > 0; keep = Math.floor(keep / 2)) {
+    try {
+      write('audit_log', log.slice(-keep))
+      return
+    } catch (error) {
+      if (!isQuotaError(error)) throw error
+    }
+  }
+  console.warn('Change not logged: browser storage is full')
+}
+
+function insertAudited<T extends Trashable>(table: TrashTable, rows: Omit<T, 'id' | 'created_at'>[]) {
+  const created = insertRows<T>(table, rows)
+  created.forEach(row => audit(table, null, row))
+  return created
+}
+
+function updateAudited<T extends Trashable>(table: TrashTable, id: string, changes: Partial<T>) {
+  const before = read<T>(table).find(row => row.id === id) ?? null
+  const updated = updateRow<T>(table, id, changes)
+  audit(table, before, updated)
+  return updated
+}
+
+// Rows not in the trash
+function live<T extends Trashable>(table: TrashTable) {
+  return read<T>(table).filter(row => !row.deleted_at)
+}
+
+// Edits leave trashed rows alone, as with Supabase; null when there's no row to edit
+function updateLive<T extends Trashable>(table: TrashTable, id: string, changes: Partial<T>) {
+  return live<T>(table).some(row => row.id === id) ? updateAudited<T>(table, id, changes) : null
+}
+
+function trashed<T extends Trashable>(table: TrashTable) {
+  return read<T>(table)
+    .filter(row => row.deleted_at)
+    .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+}
+
+function moveToTrash(table: TrashTable, id: string) {
+  updateLive<Trashable>(table, id, { deleted_at: new Date().toISOString() })
+}
+
+// Delete trashed rows for good. Purged inventory takes its photos with it and is unlinked
+// from its sales, like the foreign key's "on delete set null".
+async function purgeRows(table: TrashTable, purge: (row: Trashable) => boolean) {
+  const rows = read<Trashable>(table)
+  const purged = rows.filter(row => row.deleted_at && purge(row))
+  if (purged.length === 0) return
+  const ids = new Set(purged.map(row => row.id))
+  write(table, rows.filter(row => !ids.has(row.id)))
+  purged.forEach(row => audit(table, row, null))
+
+  if (table === 'inventory') {
+    read<Sale>('sales')
+      .filter(sale => sale.inventory_id && ids.has(sale.inventory_id))
+      .forEach(sale => updateAudited<Sale>('sales', sale.id, { inventory_id: null }))
+    await deleteLocalPhotos((purged as InventoryItem[]).flatMap(item => item.photos ?? []))
+  }
+}
+
+// Another tab wrote a table: work out which rows it inserted, updated or deleted
+function diffRows(table: DataChange['table'], oldValue: string | null, newValue: string | null) {
+  const before = new Map((oldValue ? JSON.parse(oldValue) as Row[] : []).map(row => [row.id, row]))
+  const after: Row[] = newValue ? JSON.parse(newValue) : []
+  const changes: DataChange[] = []
+
+  for (const row of after) {
+    const previous = before.get(row.id)
+    before.delete(row.id)
+    if (!previous) changes.push({ table, type: 'insert', row } as DataChange)
+    else if (JSON.stringify(previous) !== JSON.stringify(row)) changes.push({ table, type: 'update', row } as DataChange)
+  }
+  for (const id of before.keys()) changes.push({ table, type: 'delete', id })
+
+  return changes
+}
+
+// Only the browser can reach the photo routes; the in-memory store used outside it has no photos
+async function deleteLocalPhotos(paths: string[]) {
+  if (!hasLocalStorage() || paths.length === 0) return
+  const response = await fetch('/api/photos', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ paths })
+  })
+  if (!response.ok) throw new Error(`Photo delete failed: ${response.status}`)
+}
+
+function teamsUnavailable(): never {
+  throw new Error('Teams need the Supabase data store')
+}
+
+export const localRepository: Repository = {
+  // Auth — always signed in as the local user
+  getCurrentUser: async () => LOCAL_USER,
+  onAuthChange: () => () => {},
+  signIn: async () => LOCAL_USER,
+  signUp: async () => LOCAL_USER,
+  signOut: async () => {},
+
+  // Teams
+  getTeam: async () => null,
+  getTeamMembers: async () => [],
+  createTeam: async () => teamsUnavailable(),
+  joinTeam: async () => teamsUnavailable(),
+  rotateInviteCode: async () => teamsUnavailable(),
+  leaveTeam: async () => {},
+
+  // Sales
+  getSales: async () => live<Sale>('sales').sort((a, b) => b.sale_date.localeCompare(a.sale_date)),
+  getSale: async (id) => live<Sale>('sales').find(sale => sale.id === id) ?? null,
+  querySales: async (query) => paginate(
+    live<Sale>('sales').filter(sale => matchesSaleFilters(sale, query)).sort(compareSales(query.sort)),
+    query
+  ),
+  getSalesByOrderNumbers: async (orderNumbers) => {
+    const wanted = new Set(orderNumbers)
+    return live<Sale>('sales').filter(sale => sale.order_number && wanted.has(sale.order_number))
+  },
+  addSale: async (sale) => insertAudited<Sale>('sales', [{ status: 'Pending', ...sale }])[0],
+  addSales: async (sales: NewSale[]) => insertAudited<Sale>('sales', sales.map(sale => ({ status: 'Pending', ...sale }))),
+  updateSale: async (id, sale) => updateLive<Sale>('sales', id, sale),
+  deleteSale: async (id) => moveToTrash('sales', id),
+
+  // Inventory
+  getInventory: async () => live<InventoryItem>('inventory').sort((a, b) => a.item_name.localeCompare(b.item_name)),
+  getInventoryItems: async (ids) => live<InventoryItem>('inventory').filter(item => ids.includes(item.id)),
+  queryInventory: async (query) => paginate(
+    live<InventoryItem>('inventory')
+      .filter(item => matchesInventoryFilters(item, query))
+      .sort((a, b) => a.item_name.localeCompare(b.item_name)),
+    query
+  ),
+  addInventoryItem: async (item) => insertAudited<InventoryItem>('inventory', [{ ...item, status: 'In Stock' }])[0],
+  updateInventoryItem: async (id, item) => updateLive<InventoryItem>('inventory', id, item),
+  deleteInventoryItem: async (id) => moveToTrash('inventory', id),
+
+  // Photos — kept on the dev server's disk by /api/photos, standing in for Supabase Storage
+  uploadPhoto: async (itemId, file) => {
+    const body = new FormData()
+    body.append('path', photoPath(itemId, file))
+    body.append('file', file)
+    const response = await fetch('/api/photos', { method: 'POST', body })
+    if (!response.ok) throw new Error(`Photo upload failed: ${response.status}`)
+    return (await response.json()).path as string
+  },
+  deletePhotos: deleteLocalPhotos,
+  photoUrl: (path) => `/api/photos/${path}`,
+
+  // Expenses
+  getExpenses: async () => live<Expense>('expenses').sort((a, b) => b.date_added.localeCompare(a.date_added)),
+  queryExpenses: async (query) => paginate(
+    live<Expense>('expenses')
+      .filter(expense => matchesExpenseFilters(expense, query))
+      .sort((a, b) => b.date_added.localeCompare(a.date_added)),
+    query
+  ),
+  addExpense: async (expense) => insertAudited<Expense>('expenses', [expense])[0],
+  updateExpense: async (id, expense) => updateLive<Expense>('expenses', id, expense),
+  deleteExpense: async (id) => moveToTrash('expenses', id),
+
+  // Trash
+  getTrash: async () => ({
+    sales: trashed<Sale>('sales'),
+    inventory: trashed<InventoryItem>('inventory'),
+    expenses: trashed<Expense>('expenses')
+  }),
+  restoreFromTrash: async (table, id) => {
+    if (!trashed(table).some(row => row.id === id)) return false
+    updateAudited<Trashable>(table, id, { deleted_at: null })
+    return true
+  },
+  purgeFromTrash: async (table, id) => purgeRows(table, row => row.id === id),
+  purgeTrash: async (deletedBefore) => {
+    for (const table of ['sales', 'inventory', 'expenses'] as const) {
+      await purgeRows(table, row => row.deleted_at! < deletedBefore)
+    }
+  },
+
+  // Audit log — appended in order, so newest first is simply reversed
+  queryAuditLog: async (query) => paginate(
+    read<AuditEntry>('audit_log')
+      .filter(entry => matchesAuditFilters(entry, query))
+      .reverse(),
+    query
+  ),
+
+  // Settings — at most one row
+  getSettings: async () => read<Settings>('settings')[0] ?? null,
+  saveSettings: async (settings) => {
+    const existing = read<Settings>('settings')[0]
+    return existing ? updateRow<Settings>('settings', existing.id, settings) : insertRows<Settings>('settings', [settings])[0]
+  },
+
+  // Lots — deleting one unlinks its items, like the foreign key's "on delete set null"
+  getLots: async () => read<Lot>('lots').sort((a, b) => b.purchase_date.localeCompare(a.purchase_date)),
+  addLot: async (lot) => insertRows<Lot>('lots', [lot])[0],
+  updateLot: async (id, lot) => updateRow<Lot>('lots', id, lot),
+  deleteLot: async (id) => {
+    read<InventoryItem>('inventory')
+      .filter(item => item.lot_id === id)
+      .forEach(item => updateAudited<InventoryItem>('inventory', item.id, { lot_id: null }))
+    deleteRow('lots', id)
+  },
+
+  // Sources — deleting one clears it from items and sales, like "on delete set null"
+  getSources: async () => read<Source>('sources').sort((a, b) => a.name.localeCompare(b.name)),
+  addSource: async (source) => insertRows<Source>('sources', [source])[0],
+  updateSource: async (id, source) => updateRow<Source>('sources', id, source),
+  deleteSource: async (id) => {
+    read<InventoryItem>('inventory')
+      .filter(item => item.source_id === id)
+      .forEach(item => updateAudited<InventoryItem>('inventory', item.id, { source_id: null }))
+    read<Sale>('sales')
+      .filter(sale => sale.source_id === id)
+      .forEach(sale => updateAudited<Sale>('sales', sale.id, { source_id: null }))
+    deleteRow('sources', id)
+  },
+
+  // Platforms — none are seeded; the built-in ones apply until saved over
+  getPlatforms: async () => read<Platform>('platforms').sort((a, b) => a.name.localeCompare(b.name)),
+  addPlatform: async (platform) => insertRows<Platform>('platforms', [platform])[0],
+  updatePlatform: async (id, platform) => updateRow<Platform>('platforms', id, platform),
+  deletePlatform: async (id) => deleteRow('platforms', id),
+
+  // Fee schedules — none are seeded; the built-in defaults apply until one is added
+  getFeeSchedules: async () => read<FeeSchedule>('fee_schedules').sort((a, b) => b.effective_from.localeCompare(a.effective_from)),
+  addFeeSchedule: async (schedule) => insertRows<FeeSchedule>('fee_schedules', [schedule])[0],
+  updateFeeSchedule: async (id, schedule) => updateRow<FeeSchedule>('fee_schedules', id, schedule),
+  deleteFeeSchedule: async (id) => deleteRow('fee_schedules', id),
+
+  // Mileage
+  getTrips: async () => read<Trip>('trips').sort((a, b) => b.trip_date.localeCompare(a.trip_date)),
+  addTrip: async (trip) => insertRows<Trip>('trips', [trip])[0],
+  updateTrip: async (id, trip) => updateRow<Trip>('trips', id, trip),
+  deleteTrip: async (id) => deleteRow('trips', id),
+  getMileageRates: async () => read<MileageRate>('mileage_rates').sort((a, b) => b.year - a.year),
+  addMileageRate: async (rate) => insertRows<MileageRate>('mileage_rates', [rate])[0],
+  updateMileageRate: async (id, rate) => updateRow<MileageRate>('mileage_rates', id, rate),
+  deleteMileageRate: async (id) => deleteRow('mileage_rates', id),
+
+  // Payouts and 1099-Ks
+  getPayouts: async (platform, start, end) => read<Payout>('payouts')
+    .filter(payout => payout.platform === platform && payout.payout_date >= start && payout.payout_date <= end)
+    .sort((a, b) => b.payout_date.localeCompare(a.payout_date)),
+  // Skips payouts already recorded, like the unique index does with Supabase
+  addPayouts: async (payouts) => {
+    const seen = new Set(read<Payout>('payouts').map(payoutKey))
+    const fresh = payouts.filter(payout => {
+      const key = payoutKey(payout)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    return insertRows<Payout>('payouts', fresh)
+  },
+  deletePayout: async (id) => deleteRow('payouts', id),
+  getForms1099K: async () => read<Form1099K>('forms_1099k').sort((a, b) => b.year - a.year),
+  addForm1099K: async (form) => insertRows<Form1099K>('forms_1099k', [form])[0],
+  updateForm1099K: async (id, form) => updateRow<Form1099K>('forms_1099k', id, form),
+  deleteForm1099K: async (id) => deleteRow('forms_1099k', id),
+
+  // Aggregates
+  getDashboardStats: async (saleFilters, expenseFilters) => dashboardStats(
+    live<Sale>('sales').filter(sale => matchesSaleFilters(sale, saleFilters)),
+    live<Expense>('expenses').filter(expense => matchesExpenseFilters(expense, expenseFilters)),
+    live<InventoryItem>('inventory'),
+    tripsInRange(read<Trip>('trips'), expenseFilters),
+    read<MileageRate>('mileage_rates')
+  ),
+  getYears: async () => {
+    const years = new Set<string>()
+    live<Sale>('sales').forEach(sale => years.add(sale.sale_date.substring(0, 4)))
+    live<Expense>('expenses').forEach(expense => years.add(expense.date_added.substring(0, 4)))
+    live<InventoryItem>('inventory').forEach(item => {
+      if (item.date_added) years.add(item.date_added.substring(0, 4))
+    })
+    read<Trip>('trips').forEach(trip => years.add(trip.trip_date.substring(0, 4)))
+    return Array.from(years).sort((a, b) => b.localeCompare(a))
+  },
+
+  // Live changes come from other tabs of this browser; the storage event never fires for our own writes
+  subscribeToChanges: (callback) => {
+    if (!hasLocalStorage()) return () => {}
+
+    const tables: DataChange['table'][] = ['sales', 'inventory', 'expenses']
+    const onStorage = (event: StorageEvent) => {
+      const table = tables.find(name => event.key === STORAGE_PREFIX + name)
+      if (table) diffRows(table, event.oldValue, event.newValue).forEach(callback)
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
+  }
+}
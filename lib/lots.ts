@@ -0,0 +1,44 @@
+import type { InventoryItem, Lot, Sale } from '@/lib/types'
+import { isRefunded } from '@/lib/sales'
+
+// Split a lot's total cost across its items. Amounts are rounded to cents
+// and the rounding remainder goes to the last item so the shares add up exactly.
+export function allocateLotCost(lot: Pick<Lot, 'total_cost' | 'allocation_method'>, items: InventoryItem[]) {
+  const shares = new Map<string, number>()
+  if (items.length === 0) return shares
+
+  const weights = items.map(item => {
+    if (lot.allocation_method === 'weight') return item.lot_weight ?? 0
+    if (lot.allocation_method === 'expected_price') return item.expected_price ?? 0
+    return 1
+  })
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+
+  let allocated = 0
+  items.forEach((item, i) => {
+    // With no weights entered yet, fall back to an even split
+    const fraction = totalWeight > 0 ? weights[i] / totalWeight : 1 / items.length
+    const share = i === items.length - 1
+      ? Math.round((lot.total_cost - allocated) * 100) / 100
+      : Math.round(lot.total_cost * fraction * 100) / 100
+    shares.set(item.id, share)
+    allocated += share
+  })
+  return shares
+}
+
+// Money back from a lot so far: what its sold items brought in after fees
+// and shipping, against what the whole lot cost.
+export function lotPerformance(lot: Lot, items: InventoryItem[], sales: Sale[]) {
+  const itemIds = new Set(items.map(item => item.id))
+  const lotSales = sales.filter(sale => sale.inventory_id && itemIds.has(sale.inventory_id) && !isRefunded(sale))
+  const proceeds = lotSales.reduce((sum, sale) => sum + sale.profit + sale.item_cost, 0)
+
+  return {
+    itemCount: items.length,
+    soldCount: lotSales.length,
+    proceeds,
+    recoveredPercent: lot.total_cost > 0 ? Math.min(proceeds / lot.total_cost, 1) * 100 : 100,
+    profitToDate: proceeds - lot.total_cost
+  }
+}
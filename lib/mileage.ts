@@ -0,0 +1,46 @@
+import { bySaveOrder } from '@/lib/platforms'
+import type { MileageRate, Trip } from '@/lib/types'
+
+// IRS standard mileage rates for business use, in dollars per mile. A year with no rate here
+// or in settings uses the closest earlier year's.
+export const DEFAULT_MILEAGE_RATES: Record<number, number> = {
+  2023: 0.655,
+  2024: 0.67,
+  2025: 0.70,
+  2026: 0.725
+}
+
+export function defaultMileageRate(year: number) {
+  const years = Object.keys(DEFAULT_MILEAGE_RATES).map(Number).sort((a, b) => a - b)
+  const known = years.filter(y => y <= year)
+  return DEFAULT_MILEAGE_RATES[known.length > 0 ? known[known.length - 1] : years[0]]
+}
+
+// The rate saved for a year. Of two teammates saved for it, the first saved wins.
+export function savedMileageRate<T extends Pick<MileageRate, 'year'> & Partial<Pick<MileageRate, 'id' | 'created_at'>>>(year: number, rates: T[]) {
+  return rates.filter(r => r.year === year).sort(bySaveOrder)[0]
+}
+
+export function mileageRate(year: number, rates: Pick<MileageRate, 'year' | 'rate'>[]) {
+  return savedMileageRate(year, rates)?.rate ?? defaultMileageRate(year)
+}
+
+export function tripYear(trip: Pick<Trip, 'trip_date'>) {
+  return Number(trip.trip_date.substring(0, 4))
+}
+
+export function tripDeduction(trip: Pick<Trip, 'trip_date' | 'distance'>, rates: Pick<MileageRate, 'year' | 'rate'>[]) {
+  return trip.distance * mileageRate(tripYear(trip), rates)
+}
+
+export function mileageDeduction(trips: Pick<Trip, 'trip_date' | 'distance'>[], rates: Pick<MileageRate, 'year' | 'rate'>[]) {
+  return trips.reduce((sum, trip) => sum + tripDeduction(trip, rates), 0)
+}
+
+// Miles for a trip form: the odometer difference when both readings are given, else the distance entered
+export function tripDistance(form: { start_odometer: string, end_odometer: string, distance: string }) {
+  const start = parseFloat(form.start_odometer)
+  const end = parseFloat(form.end_odometer)
+  if (!isNaN(start) && !isNaN(end)) return Math.max(end - start, 0)
+  return parseFloat(form.distance) || 0
+}
@@ -0,0 +1,259 @@
+import type { Expense, InventoryItem, Sale } from '@/lib/types'
+import type { Repository } from '@/lib/repository'
+
+// Offline-first writes for sales, inventory and expenses. Each add, edit or delete is saved to
+// localStorage first, then replayed against the data store in order. With no connection the
+// writes wait in the outbox and go out when it comes back. Writes the store refuses stay in the
+// outbox flagged as conflicts until they're retried or discarded. Each account has its own
+// outbox, so writes queued by one are never replayed as another who signs in on the same device.
+
+const OUTBOX_KEY = 'resell-tracker:outbox'
+const RETRY_INTERVAL_MS = 30_000
+
+export type OutboxRows = {
+  sales: Sale
+  inventory: InventoryItem
+  expenses: Expense
+}
+
+export type OutboxTable = keyof OutboxRows
+
+// A write to one table. Restoring from the trash is its own write, since edits leave trashed rows alone.
+export type OutboxWrite<T extends OutboxTable> = { table: T } & (
+  | { type: 'insert', row: OutboxRows[T] }
+  | { type: 'update', recordId: string, changes: Partial<OutboxRows[T]> }
+  | { type: 'delete', recordId: string }
+  | { type: 'restore', recordId: string }
+)
+
+export type PendingWrite = {
+  id: string
+  queuedAt: string
+  // Why the data store refused it
+  conflict?: string
+} & { [T in OutboxTable]: OutboxWrite<T> }[OutboxTable]
+
+export type OutboxState = {
+  writes: PendingWrite[]
+  online: boolean
+  syncing: boolean
+}
+
+// Signing out with writes that haven't gone out yet would strand them on this device
+export class UnsyncedWritesError extends Error {
+  constructor(count: number) {
+    super(`${count} change${count === 1 ? '' : 's'} made offline ${count === 1 ? "hasn't" : "haven't"} synced yet. Reconnect and wait for them to sync before signing out.`)
+  }
+}
+
+// The writes waiting for one table, typed by its rows
+export function writesTo<T extends OutboxTable>(writes: PendingWrite[], table: T) {
+  return writes.filter((write): write is PendingWrite & OutboxWrite<T> => write.table === table)
+}
+
+// The row without created_at, which the data store fills in
+function withoutCreatedAt<T extends { created_at: string }>(row: T): Omit<T, 'created_at'> {
+  const copy: Partial<T> = { ...row }
+  delete copy.created_at
+  return copy as Omit<T, 'created_at'>
+}
+
+function errorMessage(error: unknown) {
+  if (typeof error === 'object' && error !== null && 'message' in error) return String(error.message)
+  return String(error)
+}
+
+// A failed fetch rather than an answer from the server. Supabase reports these as an error
+// carrying the browser's fetch message.
+export function isNetworkError(error: unknown) {
+  return error instanceof TypeError ||
+    /failed to fetch|fetch failed|networkerror|load failed|network request failed/i.test(errorMessage(error))
+}
+
+export function createOutbox(store: Repository) {
+  let online = typeof navigator === 'undefined' || navigator.onLine
+  let syncing: Promise<void> | null = null
+  let retryTimer: ReturnType<typeof setInterval> | null = null
+  // The signed-in account, whose outbox this is; nothing is read or queued while signed out
+  let userId: string | null = null
+  const listeners = new Set<(state: OutboxState) => void>()
+
+  function read(): PendingWrite[] {
+    if (typeof window === 'undefined' || !userId) return []
+    const raw = window.localStorage.getItem(`${OUTBOX_KEY}:${userId}`)
+    return raw ? JSON.parse(raw) as PendingWrite[] : []
+  }
+
+  function save(writes: PendingWrite[]) {
+    if (!userId) throw new Error('Sign in to save changes')
+    window.localStorage.setItem(`${OUTBOX_KEY}:${userId}`, JSON.stringify(writes))
+    notify()
+  }
+
+  function getState(): OutboxState {
+    return { writes: read(), online, syncing: syncing !== null }
+  }
+
+  function notify() {
+    const state = getState()
+    listeners.forEach(listener => listener(state))
+  }
+
+  function remove(id: string) {
+    save(read().filter(pending => pending.id !== id))
+  }
+
+  function markConflict(id: string, conflict: string | undefined) {
+    save(read().map(pending => pending.id === id ? { ...pending, conflict } : pending))
+  }
+
+  async function apply(pending: PendingWrite) {
+    if (pending.type === 'insert') {
+      // The row already has its id, so a replay after a lost response can only duplicate it as an error
+      try {
+        if (pending.table === 'sales') await store.addSale(withoutCreatedAt(pending.row))
+        else if (pending.table === 'inventory') await store.addInventoryItem(withoutCreatedAt(pending.row))
+        else await store.addExpense(withoutCreatedAt(pending.row))
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') return
+        throw error
+      }
+    } else if (pending.type === 'update') {
+      // Edits only reach rows that aren't in the trash
+      const updated = pending.table === 'sales'
+        ? await store.updateSale(pending.recordId, pending.changes)
+        : pending.table === 'inventory'
+          ? await store.updateInventoryItem(pending.recordId, pending.changes)
+          : await store.updateExpense(pending.recordId, pending.changes)
+      if (!updated) throw new Error('It was deleted on another device')
+    } else if (pending.type === 'restore') {
+      if (!await store.restoreFromTrash(pending.table, pending.recordId)) {
+        throw new Error('It was deleted for good or already restored on another device')
+      }
+    } else {
+      if (pending.table === 'sales') await store.deleteSale(pending.recordId)
+      else if (pending.table === 'inventory') await store.deleteInventoryItem(pending.recordId)
+      else await store.deleteExpense(pending.recordId)
+    }
+  }
+
+  // Replay waiting writes in order. Stops at the first network failure; a refused write is
+  // flagged and skipped so it doesn't hold up the rest.
+  function flush() {
+    if (syncing) return syncing
+
+    syncing = (async () => {
+      const attempted = new Set<string>()
+      try {
+        for (;;) {
+          const next = read().find(pending => !pending.conflict && !attempted.has(pending.id))
+          if (!next) break
+          attempted.add(next.id)
+
+          try {
+            await apply(next)
+            online = true
+            remove(next.id)
+          } catch (error) {
+            if (isNetworkError(error)) {
+              online = false
+              break
+            }
+            markConflict(next.id, errorMessage(error))
+          }
+        }
+      } finally {
+        syncing = null
+        notify()
+      }
+    })()
+    notify()
+    return syncing
+  }
+
+  // Queue a write and try to send it straight away. Offline it resolves once saved locally.
+  // A write refused on the spot is dropped and the error thrown, as if it had gone out directly.
+  async function enqueue<T extends OutboxTable>(write: OutboxWrite<T>) {
+    const pending = { ...write, id: crypto.randomUUID(), queuedAt: new Date().toISOString() } as PendingWrite
+    save([...read(), pending])
+    await flush()
+    // Another flush may have been running; make sure this write had its turn
+    if (read().some(p => p.id === pending.id && !p.conflict) && online) await flush()
+
+    const refused = read().find(p => p.id === pending.id && p.conflict)
+    if (refused) {
+      remove(refused.id)
+      throw new Error(refused.conflict)
+    }
+  }
+
+  function subscribe(listener: (state: OutboxState) => void) {
+    listeners.add(listener)
+    listener(getState())
+
+    if (listeners.size === 1 && typeof window !== 'undefined') {
+      window.addEventListener('online', handleOnline)
+      window.addEventListener('offline', handleOffline)
+      // navigator.onLine can claim a connection that doesn't work, so keep trying while writes wait
+      retryTimer = setInterval(() => {
+        if (read().some(pending => !pending.conflict)) flush()
+      }, RETRY_INTERVAL_MS)
+      flush()
+    }
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0 && retryTimer) {
+        window.removeEventListener('online', handleOnline)
+        window.removeEventListener('offline', handleOffline)
+        clearInterval(retryTimer)
+        retryTimer = null
+      }
+    }
+  }
+
+  // Switch to the outbox of whoever is signed in, sending anything they left waiting
+  function setUser(id: string | null) {
+    if (id === userId) return
+    userId = id
+    notify()
+    if (id && listeners.size > 0) flush()
+  }
+
+  // Send what's waiting for the signed-in account; refuses while some of it can't go out
+  async function drain() {
+    await flush()
+    const waiting = read().filter(pending => !pending.conflict).length
+    if (waiting > 0) throw new UnsyncedWritesError(waiting)
+  }
+
+  function handleOnline() {
+    online = true
+    flush()
+  }
+
+  function handleOffline() {
+    online = false
+    notify()
+  }
+
+  return {
+    // The row comes with its id, so later writes to it can queue behind the insert
+    insert: <T extends OutboxTable>(table: T, row: OutboxRows[T]) => enqueue<T>({ table, type: 'insert', row }),
+    update: <T extends OutboxTable>(table: T, recordId: string, changes: Partial<OutboxRows[T]>) =>
+      enqueue<T>({ table, type: 'update', recordId, changes }),
+    delete: (table: OutboxTable, recordId: string) => enqueue({ table, type: 'delete', recordId }),
+    restore: (table: OutboxTable, recordId: string) => enqueue({ table, type: 'restore', recordId }),
+    // Try a refused write again
+    retry: (id: string) => {
+      markConflict(id, undefined)
+      return flush()
+    },
+    discard: remove,
+    subscribe,
+    setUser,
+    drain
+  }
+}
+
+export type Outbox = ReturnType<typeof createOutbox>
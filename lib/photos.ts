@@ -0,0 +1,38 @@
+// Inventory photos are stored as <item id>/<random id>.<extension>, in Supabase Storage or,
+// with the local data store, on the dev server's disk
+
+export const PHOTO_BUCKET = 'photos'
+
+// The Storage bucket accepts only these types and sizes; keep the photo_upload_limits migration in step
+export const PHOTO_EXTENSIONS: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic'
+}
+
+// Phone photos are rarely bigger; anything larger is probably not a photo
+export const MAX_PHOTO_BYTES = 15 * 1024 * 1024
+
+function fileExtension(file: File) {
+  return file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : ''
+}
+
+// Whether a file can be uploaded: both its type and its extension have to be allowed, as the
+// extension decides the type it's served with
+export function isAllowedPhoto(file: File) {
+  return Object.hasOwn(PHOTO_EXTENSIONS, fileExtension(file)) && Object.values(PHOTO_EXTENSIONS).includes(file.type)
+}
+
+// A path for a new photo of the item, keeping the file's extension
+export function photoPath(itemId: string, file: File) {
+  if (!isAllowedPhoto(file)) throw new Error(`${file.name} is not a JPEG, PNG, WebP, GIF or HEIC image`)
+  return `${itemId}/${crypto.randomUUID()}.${fileExtension(file)}`
+}
+
+// Guards the local photo routes against paths outside the photo folder
+export function isPhotoPath(path: string) {
+  return /^[0-9a-f-]{36}\/[0-9a-f-]{36}\.([a-z]+)$/.test(path) && path.split('.').pop()! in PHOTO_EXTENSIONS
+}
@@ -0,0 +1,64 @@
+import type { Platform } from '@/lib/types'
+
+export type PlatformRules = Omit<Platform, 'id' | 'created_at'>
+
+// A saved platform, or a built-in one nobody has saved over yet (id null)
+export type RegisteredPlatform = PlatformRules & { id: string | null }
+
+// Platforms the app knows out of the box. Like the default fee schedules they apply until
+// saved over in Settings; a saved platform with the same name replaces the built-in one.
+export const DEFAULT_PLATFORMS: PlatformRules[] = [
+  { name: 'eBay', color: '#e53238', refund_on_return: 'variable', refund_on_cancel: 'all', active: true },
+  { name: 'Mercari', color: '#ff6f61', refund_on_return: 'all', refund_on_cancel: 'all', active: true },
+  { name: 'Poshmark', color: '#630d1e', refund_on_return: 'all', refund_on_cancel: 'all', active: true },
+  { name: 'Depop', color: '#ff0000', refund_on_return: 'none', refund_on_cancel: 'all', active: true },
+  { name: 'Facebook Marketplace', color: '#1877f2', refund_on_return: 'all', refund_on_cancel: 'all', active: true },
+  { name: 'Etsy', color: '#f1641e', refund_on_return: 'variable', refund_on_cancel: 'all', active: true },
+  { name: 'Whatnot', color: '#ca8a04', refund_on_return: 'all', refund_on_cancel: 'all', active: true },
+  { name: 'Grailed', color: '#111827', refund_on_return: 'all', refund_on_cancel: 'all', active: true },
+  { name: 'Local', color: '#64748b', refund_on_return: 'all', refund_on_cancel: 'all', active: true }
+]
+
+// For a platform that's no longer registered but still on old sales
+export const FALLBACK_PLATFORM_COLOR = '#6366f1'
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Oldest saved first, for settings rows teammates saved twice before duplicates were refused
+export function bySaveOrder(a: { id?: string, created_at?: string }, b: { id?: string, created_at?: string }) {
+  return (a.created_at ?? '').localeCompare(b.created_at ?? '') || (a.id ?? '').localeCompare(b.id ?? '')
+}
+
+// Teammates saving the same platform at once can leave two rows for it, their names maybe
+// differing in case. The first saved wins.
+function firstSaved(saved: Platform[]) {
+  const oldestFirst = [...saved].sort(bySaveOrder)
+  const byName = new Map<string, Platform>()
+  for (const platform of oldestFirst) {
+    const key = platform.name.toLowerCase()
+    if (!byName.has(key)) byName.set(key, platform)
+  }
+  return Array.from(byName.values())
+}
+
+// Built-in platforms in their usual order, each replaced by its saved version if there is one,
+// then the platforms added in Settings by name. A saved row only replaces a built-in platform
+// under exactly its name, as sales refer to it by that.
+export function platformRegistry(saved: Platform[]): RegisteredPlatform[] {
+  const unique = firstSaved(saved)
+  const savedByName = new Map(unique.map(platform => [platform.name, platform]))
+  const builtIn = DEFAULT_PLATFORMS.map(platform => savedByName.get(platform.name) ?? { ...platform, id: null })
+  const added = unique
+    .filter(platform => !DEFAULT_PLATFORMS.some(d => sameName(d.name, platform.name)))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  return [...builtIn, ...added]
+}
+
+// Names offered for new sales and crosslisting
+export function activePlatformNames(registry: RegisteredPlatform[]) {
+  return registry.filter(platform => platform.active).map(platform => platform.name)
+}
+
+export function platformColors(registry: RegisteredPlatform[]): Record<string, string> {
+  return Object.fromEntries(registry.map(platform => [platform.name, platform.color]))
+}
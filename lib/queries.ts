@@ -0,0 +1,201 @@
+import type { AuditAction, AuditEntry, Expense, ExpenseCategory, InventoryItem, InventoryStatus, MileageRate, Sale, SaleStatus, Trip } from '@/lib/types'
+import { isRefunded, saleRevenue } from '@/lib/sales'
+import { mileageDeduction } from '@/lib/mileage'
+import { shippingProfit } from '@/lib/shipping'
+
+// Filters for the paged list queries. Every field is optional; unset means "don't filter".
+// Data stores apply these in the database; the in-memory versions below serve the local store
+// and the report tabs, and must give the same results.
+
+export type DateFilters = {
+  start?: string
+  end?: string
+  // Four-digit year, combined with start/end
+  year?: string
+}
+
+export type SaleFilters = DateFilters & {
+  search?: string
+  platform?: string
+  status?: SaleStatus
+}
+
+export type InventoryFilters = Omit<DateFilters, 'year'> & {
+  search?: string
+  platform?: string
+  status?: InventoryStatus
+}
+
+export type ExpenseFilters = DateFilters & {
+  search?: string
+  category?: ExpenseCategory
+}
+
+// start and end are local dates, compared against when the change was made
+export type AuditFilters = Omit<DateFilters, 'year'> & {
+  table?: AuditEntry['table_name']
+  record_id?: string
+  action?: AuditAction
+}
+
+export type PageRequest = {
+  offset: number
+  limit: number
+}
+
+export type Page<T> = {
+  rows: T[]
+  // Rows matching the filters, across all pages
+  total: number
+}
+
+export const SALE_SORTS = {
+  item_name: { label: 'Name', column: 'item_name', ascending: true },
+  newest: { label: 'Newest', column: 'sale_date', ascending: false },
+  oldest: { label: 'Oldest', column: 'sale_date', ascending: true },
+  price: { label: 'Price', column: 'sale_price', ascending: false },
+  profit: { label: 'Profit', column: 'profit', ascending: false }
+} as const satisfies Record<string, { label: string, column: keyof Sale, ascending: boolean }>
+
+export type SaleSort = keyof typeof SALE_SORTS
+
+export type SaleQuery = SaleFilters & PageRequest & { sort?: SaleSort }
+export type InventoryQuery = InventoryFilters & PageRequest
+export type ExpenseQuery = ExpenseFilters & PageRequest
+export type AuditQuery = AuditFilters & PageRequest
+
+// Stats cards. Sales and expense figures follow their filters, and mileage the expense dates;
+// inventory value is all stock on hand.
+export type DashboardStats = {
+  totalSales: number
+  totalFees: number
+  totalExpenses: number
+  mileageDeduction: number
+  inventoryValue: number
+  // Buyer-paid shipping less label costs, on sales where the buyer's shipping is recorded
+  shippingProfit: number
+  netProfit: number
+}
+
+export const PAGE_SIZE = 50
+
+// Narrowest inclusive date range covered by start/end and the year
+export function dateBounds(filters: DateFilters) {
+  let start = filters.start || undefined
+  let end = filters.end || undefined
+  if (filters.year) {
+    const yearStart = `${filters.year}-01-01`
+    const yearEnd = `${filters.year}-12-31`
+    start = start && start > yearStart ? start : yearStart
+    end = end && end < yearEnd ? end : yearEnd
+  }
+  return { start, end }
+}
+
+function inRange(date: string | null, bounds: { start?: string, end?: string }) {
+  if (!date) return true
+  if (bounds.start && date < bounds.start) return false
+  if (bounds.end && date > bounds.end) return false
+  return true
+}
+
+function matchesSearch(name: string, search?: string) {
+  return !search || name.toLowerCase().includes(search.toLowerCase())
+}
+
+export function matchesSaleFilters(sale: Sale, filters: SaleFilters) {
+  if (!matchesSearch(sale.item_name, filters.search)) return false
+  if (filters.platform && sale.platform !== filters.platform) return false
+  if (filters.status && sale.status !== filters.status) return false
+  return inRange(sale.sale_date, dateBounds(filters))
+}
+
+export function matchesInventoryFilters(item: InventoryItem, filters: InventoryFilters) {
+  // Items can be found by SKU or bin as well as by name
+  if (![item.item_name, item.sku ?? '', item.bin ?? ''].some(text => matchesSearch(text, filters.search))) return false
+  if (filters.platform && !item.platforms.includes(filters.platform)) return false
+  if (filters.status && item.status !== filters.status) return false
+  return inRange(item.date_added, dateBounds(filters))
+}
+
+export function matchesExpenseFilters(expense: Expense, filters: ExpenseFilters) {
+  if (!matchesSearch(expense.name, filters.search)) return false
+  if (filters.category && expense.category !== filters.category) return false
+  return inRange(expense.date_added, dateBounds(filters))
+}
+
+// Timestamps bounding the local days from start through end
+export function auditBounds(filters: AuditFilters) {
+  const nextDay = (date: string) => {
+    const day = new Date(`${date}T00:00:00`)
+    day.setDate(day.getDate() + 1)
+    return day
+  }
+  return {
+    from: filters.start ? new Date(`${filters.start}T00:00:00`).toISOString() : undefined,
+    before: filters.end ? nextDay(filters.end).toISOString() : undefined
+  }
+}
+
+export function matchesAuditFilters(entry: AuditEntry, filters: AuditFilters) {
+  if (filters.table && entry.table_name !== filters.table) return false
+  if (filters.record_id && entry.record_id !== filters.record_id) return false
+  if (filters.action && entry.action !== filters.action) return false
+  const { from, before } = auditBounds(filters)
+  if (from && entry.created_at < from) return false
+  if (before && entry.created_at >= before) return false
+  return true
+}
+
+export function compareSales(sort: SaleSort = 'item_name') {
+  const { column, ascending } = SALE_SORTS[sort]
+  return (a: Sale, b: Sale) => {
+    const x = a[column]
+    const y = b[column]
+    const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y))
+    return ascending ? order : -order
+  }
+}
+
+export function dashboardStats(
+  sales: Sale[],
+  expenses: Expense[],
+  inventory: InventoryItem[],
+  trips: Trip[],
+  rates: MileageRate[]
+): DashboardStats {
+  const totalExpenses = expenses.reduce((sum, exp) => sum + exp.amount, 0)
+  const mileage = mileageDeduction(trips, rates)
+  return {
+    totalSales: sales.filter(sale => !isRefunded(sale)).reduce((sum, sale) => sum + saleRevenue(sale), 0),
+    totalFees: sales.reduce((sum, sale) => sum + sale.platform_fee - (sale.fee_refunded ?? 0), 0),
+    totalExpenses,
+    mileageDeduction: mileage,
+    inventoryValue: inventory.filter(item => item.status === 'In Stock').reduce((sum, item) => sum + item.item_cost, 0),
+    shippingProfit: shippingProfit(sales),
+    netProfit: sales.reduce((sum, sale) => sum + sale.profit, 0) - totalExpenses - mileage
+  }
+}
+
+// Trips inside the expense filters' dates; mileage isn't searched or categorised
+export function tripsInRange(trips: Trip[], filters: DateFilters) {
+  const bounds = dateBounds(filters)
+  return trips.filter(trip => inRange(trip.trip_date, bounds))
+}
+
+export function paginate<T>(rows: T[], page: PageRequest): Page<T> {
+  return { rows: rows.slice(page.offset, page.offset + page.limit), total: rows.length }
+}
+
+// Data stores cap how many rows one request returns (PostgREST's max-rows is 1000 by default)
+export const MAX_FETCH_SIZE = 1000
+
+// Every row of a paged query, fetched a page at a time until the total is reached
+export async function fetchAllPages<T>(fetchPage: (page: PageRequest) => Promise<Page<T>>) {
+  const rows: T[] = []
+  for (;;) {
+    const page = await fetchPage({ offset: rows.length, limit: MAX_FETCH_SIZE })
+    rows.push(...page.rows)
+    if (page.rows.length === 0 || rows.length >= page.total) return rows
+  }
+}
@@ -0,0 +1,71 @@
+import type { Page } from '@/lib/queries'
+import { writesTo, type OutboxRows, type OutboxTable, type PendingWrite } from '@/lib/outbox'
+
+// Merging live changes from other devices, and writes still waiting to sync, into what's already
+// on screen without refetching
+
+type RowChange<T> =
+  | { type: 'insert' | 'update', row: T }
+  | { type: 'delete', id: string }
+
+function changedId<T extends { id: string }>(change: RowChange<T>) {
+  return change.type === 'delete' ? change.id : change.row.id
+}
+
+// Apply a change to the loaded pages of a filtered, sorted list. Totals are a best guess:
+// a delete only carries the id, so a row that was never loaded can't be counted out.
+export function applyToPage<T extends { id: string }>(
+  page: Page<T>,
+  change: RowChange<T>,
+  matches: (row: T) => boolean,
+  compare: (a: T, b: T) => number
+): Page<T> {
+  const id = changedId(change)
+  const listed = page.rows.some(row => row.id === id)
+  const rows = page.rows.filter(row => row.id !== id)
+
+  if (change.type === 'delete' || !matches(change.row)) {
+    return listed ? { rows, total: page.total - 1 } : page
+  }
+
+  const total = listed ? page.total : page.total + 1
+  const index = rows.findIndex(row => compare(change.row, row) < 0)
+  // Sorting after the last loaded row means it belongs on a page that isn't loaded yet
+  if (index === -1 && rows.length < total - 1) return { rows, total }
+
+  const position = index === -1 ? rows.length : index
+  return { rows: [...rows.slice(0, position), change.row, ...rows.slice(position)], total }
+}
+
+// Apply a change to an unfiltered, unordered set of rows, such as the report data
+export function applyToRows<T extends { id: string }>(rows: T[], change: RowChange<T>) {
+  const id = changedId(change)
+  const others = rows.filter(row => row.id !== id)
+  return change.type === 'delete' ? others : [...others, change.row]
+}
+
+// Lay writes still waiting in the outbox over the loaded pages, so they show before they sync.
+// Refused writes are left out; they're listed with the sync status instead.
+export function withPendingWrites<T extends OutboxTable>(
+  page: Page<OutboxRows[T]>,
+  writes: PendingWrite[],
+  table: T,
+  matches: (row: OutboxRows[T]) => boolean,
+  compare: (a: OutboxRows[T], b: OutboxRows[T]) => number
+) {
+  return writesTo(writes, table).reduce((current, write) => {
+    if (write.conflict) return current
+    if (write.type === 'insert') return applyToPage(current, { type: 'insert', row: write.row }, matches, compare)
+    if (write.type === 'delete') return applyToPage(current, { type: 'delete', id: write.recordId }, matches, compare)
+    // A restored row wasn't listed, so it shows once it syncs
+    if (write.type === 'restore') return current
+
+    const row = current.rows.find(row => row.id === write.recordId)
+    return row ? applyToPage(current, { type: 'update', row: { ...row, ...write.changes } }, matches, compare) : current
+  }, page)
+}
+
+// Ids of records with writes waiting to sync
+export function pendingRecordIds(writes: PendingWrite[]) {
+  return new Set(writes.filter(write => !write.conflict).map(write => write.type === 'insert' ? write.row.id : write.recordId))
+}
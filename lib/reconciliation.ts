@@ -0,0 +1,260 @@
+import { parseCSV, parseDate, parseMoney } from '@/lib/csv-import'
+import { bySaveOrder } from '@/lib/platforms'
+import { isRefunded, saleRevenue } from '@/lib/sales'
+import type { Form1099K, NewPayout, Payout, Sale } from '@/lib/types'
+
+// Checks recorded sales against what platforms actually paid out and reported on Form 1099-K
+
+// Differences under a cent are rounding
+const TOLERANCE = 0.01
+
+// Header names seen in payout and transaction reports, matched case-insensitively.
+// Any platform's report works as long as it has a date and a net amount column.
+const PAYOUT_COLUMNS = {
+  payout_date: ['payout date', 'transaction creation date', 'transaction date', 'date paid', 'deposit date', 'date'],
+  order_number: ['order number', 'order id'],
+  gross: ['gross transaction amount', 'gross amount', 'order total', 'gross'],
+  // A report's own fee total, used when it has one
+  fees: ['total fees', 'fees', 'fee'],
+  // Otherwise summed — some reports only split fees across several columns
+  fee_parts: [
+    'final value fee - fixed',
+    'final value fee - variable',
+    'regulatory operating fee',
+    'international fee'
+  ],
+  sales_tax: ['ebay collected tax', 'marketplace collected tax', 'sales tax collected', 'tax collected', 'sales tax'],
+  net: ['net amount', 'net earnings', 'payout amount', 'net', 'amount'],
+  reference: ['payout id', 'transaction id', 'reference']
+}
+
+// Rows that move money already counted elsewhere in the report, like the transfer to the bank
+const SKIPPED_ROW_TYPES = ['payout', 'transfer']
+
+function columnIndexes(headers: string[], names: string[]) {
+  const normalized = headers.map(header => header.trim().toLowerCase())
+  return names.map(name => normalized.indexOf(name)).filter(index => index !== -1)
+}
+
+function firstCell(row: string[], headers: string[], names: string[]) {
+  const [index] = columnIndexes(headers, names)
+  return index === undefined ? undefined : row[index]
+}
+
+type PayoutFields = Pick<Payout, 'platform' | 'payout_date' | 'order_number' | 'reference' | 'net' | 'payout_line'>
+
+function lineContent(payout: PayoutFields) {
+  return `${payout.platform}|${payout.payout_date}|${payout.order_number ?? ''}|${payout.reference ?? ''}|${payout.net.toFixed(2)}`
+}
+
+// Recognises a payout line that's already been imported or entered. The payouts table has a
+// unique index on the same fields, so the data store skips these too. The line number keeps
+// a report's genuinely repeated lines apart.
+export function payoutKey(payout: PayoutFields) {
+  return `${lineContent(payout)}|${payout.payout_line ?? 1}`
+}
+
+// A platform's 1099-K for a year. Of two teammates saved for it, the first saved wins.
+export function form1099K(forms: Form1099K[], platform: string, year: string) {
+  return forms.filter(f => f.platform === platform && f.year.toString() === year).sort(bySaveOrder)[0]
+}
+
+// The payouts reconciling a year needs: that year's, and the next year's, where late
+// payouts for its sales land
+export function payoutWindow(year: string) {
+  return { start: `${year}-01-01`, end: `${Number(year) + 1}-12-31` }
+}
+
+function nullableMoney(value: string | undefined) {
+  const amount = parseMoney(value)
+  return isNaN(amount) ? null : amount
+}
+
+export type PayoutImportError = { line: number, errors: string[] }
+
+// Payouts from a platform's payout or transaction report, one per row. Null when no header
+// row with a date and a net amount column turns up in the first rows.
+export function parsePayoutReport(text: string, platform: string) {
+  const rows = parseCSV(text)
+  const headerIndex = rows.slice(0, 20).findIndex(row =>
+    columnIndexes(row, PAYOUT_COLUMNS.payout_date).length > 0 && columnIndexes(row, PAYOUT_COLUMNS.net).length > 0
+  )
+  if (headerIndex === -1) return null
+
+  const headers = rows[headerIndex]
+  const payouts: NewPayout[] = []
+  const errors: PayoutImportError[] = []
+  const repeats = new Map<string, number>()
+
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const type = firstCell(row, headers, ['type'])?.trim().toLowerCase()
+    if (type && SKIPPED_ROW_TYPES.includes(type)) return
+
+    const payoutDate = parseDate(firstCell(row, headers, PAYOUT_COLUMNS.payout_date))
+    const net = parseMoney(firstCell(row, headers, PAYOUT_COLUMNS.net))
+    const rowErrors: string[] = []
+    if (!payoutDate) rowErrors.push('Invalid date')
+    if (isNaN(net)) rowErrors.push('Invalid net amount')
+    if (rowErrors.length > 0) {
+      errors.push({ line: headerIndex + i + 2, errors: rowErrors })
+      return
+    }
+
+    const totalFees = nullableMoney(firstCell(row, headers, PAYOUT_COLUMNS.fees))
+    const feeParts = columnIndexes(headers, PAYOUT_COLUMNS.fee_parts)
+    const gross = nullableMoney(firstCell(row, headers, PAYOUT_COLUMNS.gross))
+    const salesTax = nullableMoney(firstCell(row, headers, PAYOUT_COLUMNS.sales_tax))
+
+    const payout: NewPayout = {
+      platform,
+      payout_date: payoutDate!,
+      order_number: firstCell(row, headers, PAYOUT_COLUMNS.order_number)?.trim() || null,
+      gross: gross === null ? null : Math.abs(gross),
+      fees: totalFees !== null
+        ? Math.abs(totalFees)
+        : feeParts.length > 0
+          ? feeParts.reduce((sum, index) => sum + Math.abs(parseMoney(row[index]) || 0), 0)
+          : null,
+      sales_tax: salesTax === null ? null : Math.abs(salesTax),
+      net,
+      reference: firstCell(row, headers, PAYOUT_COLUMNS.reference)?.trim() || null
+    }
+    payout.payout_line = (repeats.get(lineContent(payout)) ?? 0) + 1
+    repeats.set(lineContent(payout), payout.payout_line)
+    payouts.push(payout)
+  })
+
+  return { payouts, errors }
+}
+
+// missing_sale: the platform paid for an order we have no sale for.
+// unpaid_sale: a sale's order number never shows up in the payouts.
+// fee_difference: the platform charged a different fee than we recorded.
+export type MismatchKind = 'missing_sale' | 'unpaid_sale' | 'fee_difference'
+
+export type Mismatch = {
+  kind: MismatchKind
+  order_number: string
+  date: string
+  item_name: string | null
+  // Fee differences only: our fee, net of refunds, and the platform's
+  recorded: number | null
+  reported: number | null
+}
+
+export type Reconciliation = {
+  salesCount: number
+  // What buyers paid for the year's sales; returned ones count, as they do on a 1099-K, cancelled ones don't
+  recordedGross: number
+  // Collected and remitted by the marketplace, so on the 1099-K but never our income
+  salesTax: number
+  reportedGross: number | null
+  // What the 1099-K shows beyond recorded sales and sales tax; null without a 1099-K
+  grossDifference: number | null
+  // What the year's sales that went through should have paid out
+  expectedNet: number
+  paidOut: number
+  payoutDifference: number
+  // Whether any payouts carry order numbers; without them sales can't be matched one by one
+  orderLevel: boolean
+  matchedOrders: number
+  // Sales that can't be matched because no order number was recorded
+  salesWithoutOrderNumber: number
+  mismatches: Mismatch[]
+}
+
+function groupByOrder<T extends { order_number?: string | null }>(rows: T[]) {
+  const groups = new Map<string, T[]>()
+  rows.forEach(row => {
+    if (!row.order_number) return
+    groups.set(row.order_number, [...(groups.get(row.order_number) ?? []), row])
+  })
+  return groups
+}
+
+const sum = <T>(rows: T[], value: (row: T) => number) => rows.reduce((total, row) => total + value(row), 0)
+
+// One platform's year. Sales and payouts are matched by order number across years, so a
+// December sale paid out in January still matches; payouts should cover payoutWindow(year).
+export function reconcile(
+  platform: string,
+  year: string,
+  sales: Sale[],
+  payouts: Payout[],
+  forms: Form1099K[]
+): Reconciliation {
+  const platformSales = sales.filter(sale => sale.platform === platform)
+  const platformPayouts = payouts.filter(payout => payout.platform === platform)
+  const yearSales = platformSales.filter(sale => sale.sale_date.startsWith(year) && sale.status !== 'Cancelled')
+  const yearPayouts = platformPayouts.filter(payout => payout.payout_date.startsWith(year))
+  const form = form1099K(forms, platform, year)
+
+  const recordedGross = sum(yearSales, saleRevenue)
+  const salesTax = sum(yearPayouts, payout => payout.sales_tax ?? 0)
+  const reportedGross = form?.gross_amount ?? null
+  const expectedNet = sum(
+    yearSales.filter(sale => !isRefunded(sale)),
+    sale => sale.actual_received ?? saleRevenue(sale) - sale.platform_fee
+  )
+  const paidOut = sum(yearPayouts, payout => payout.net)
+
+  const salesByOrder = groupByOrder(platformSales)
+  const payoutsByOrder = groupByOrder(platformPayouts)
+  const orderLevel = yearPayouts.some(payout => payout.order_number)
+  const mismatches: Mismatch[] = []
+  let matchedOrders = 0
+
+  groupByOrder(yearPayouts).forEach((lines, orderNumber) => {
+    const orderSales = salesByOrder.get(orderNumber)
+    const date = lines.map(line => line.payout_date).sort()[0]
+    if (!orderSales) {
+      mismatches.push({ kind: 'missing_sale', order_number: orderNumber, date, item_name: null, recorded: null, reported: null })
+      return
+    }
+
+    matchedOrders++
+    const reportedLines = lines.filter(line => line.fees !== null)
+    if (reportedLines.length === 0) return
+    const recorded = sum(orderSales, sale => sale.platform_fee - (sale.fee_refunded ?? 0))
+    const reported = sum(reportedLines, line => line.fees ?? 0)
+    if (Math.abs(recorded - reported) >= TOLERANCE) {
+      mismatches.push({
+        kind: 'fee_difference',
+        order_number: orderNumber,
+        date: orderSales[0].sale_date,
+        item_name: orderSales.map(sale => sale.item_name).join(', '),
+        recorded,
+        reported
+      })
+    }
+  })
+
+  if (orderLevel) {
+    groupByOrder(yearSales).forEach((orderSales, orderNumber) => {
+      if (payoutsByOrder.has(orderNumber)) return
+      mismatches.push({
+        kind: 'unpaid_sale',
+        order_number: orderNumber,
+        date: orderSales[0].sale_date,
+        item_name: orderSales.map(sale => sale.item_name).join(', '),
+        recorded: null,
+        reported: null
+      })
+    })
+  }
+
+  return {
+    salesCount: yearSales.length,
+    recordedGross,
+    salesTax,
+    reportedGross,
+    grossDifference: reportedGross === null ? null : reportedGross - recordedGross - salesTax,
+    expectedNet,
+    paidOut,
+    payoutDifference: paidOut - expectedNet,
+    orderLevel,
+    matchedOrders,
+    salesWithoutOrderNumber: yearSales.filter(sale => !sale.order_number).length,
+    mismatches: mismatches.sort((a, b) => a.date.localeCompare(b.date))
+  }
+}
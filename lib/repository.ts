@@ -0,0 +1,386 @@
+import type {
+  AppUser,
+  AuditEntry,
+  DataChange,
+  Expense,
+  FeeSchedule,
+  Form1099K,
+  InventoryItem,
+  Lot,
+  MileageRate,
+  NewPayout,
+  NewSale,
+  Payout,
+  Platform,
+  Sale,
+  Settings,
+  Source,
+  Team,
+  TeamMember,
+  Trash,
+  TrashTable,
+  Trip
+} from '@/lib/types'
+import type {
+  AuditQuery,
+  DashboardStats,
+  ExpenseFilters,
+  ExpenseQuery,
+  InventoryQuery,
+  Page,
+  SaleFilters,
+  SaleQuery
+} from '@/lib/queries'
+import { supabaseRepository } from '@/lib/supabase'
+import { localRepository } from '@/lib/local-store'
+import { createOutbox, type OutboxState } from '@/lib/outbox'
+import { generateSku } from '@/lib/sku'
+
+// Everything the app reads and writes. Each backend implements this in full;
+// the app only imports the functions exported below, never an adapter directly.
+// Reads of sales, inventory and expenses leave out anything in the trash.
+export type Repository = {
+  // Auth
+  getCurrentUser(): Promise<AppUser | null>
+  // Returns an unsubscribe function
+  onAuthChange(callback: (user: AppUser | null) => void): () => void
+  signIn(email: string, password: string): Promise<AppUser>
+  // Null when the account must be confirmed before the first sign-in
+  signUp(email: string, password: string): Promise<AppUser | null>
+  signOut(): Promise<void>
+
+  // Teams
+  getTeam(): Promise<Team | null>
+  getTeamMembers(): Promise<TeamMember[]>
+  createTeam(name: string): Promise<Team>
+  joinTeam(inviteCode: string): Promise<Team>
+  // Replaces the team's invite code, so the old one stops working
+  rotateInviteCode(): Promise<Team>
+  leaveTeam(userId: string): Promise<void>
+
+  // Sales
+  getSales(): Promise<Sale[]>
+  getSale(id: string): Promise<Sale | null>
+  querySales(query: SaleQuery): Promise<Page<Sale>>
+  getSalesByOrderNumbers(orderNumbers: string[]): Promise<Pick<Sale, 'platform' | 'order_number' | 'order_line'>[]>
+  addSale(sale: NewSale): Promise<Sale>
+  addSales(sales: NewSale[]): Promise<Sale[]>
+  // Null when there's no such sale or it's in the trash, as for the other updates of sales,
+  // inventory and expenses; only restoring brings a row back out of the trash
+  updateSale(id: string, sale: Partial<Omit<Sale, 'id' | 'created_at'>>): Promise<Sale | null>
+  // Moves it to the trash, as do the other deletes of sales, inventory and expenses
+  deleteSale(id: string): Promise<void>
+
+  // Inventory
+  getInventory(): Promise<InventoryItem[]>
+  getInventoryItems(ids: string[]): Promise<InventoryItem[]>
+  queryInventory(query: InventoryQuery): Promise<Page<InventoryItem>>
+  addInventoryItem(item: Omit<InventoryItem, 'id' | 'created_at' | 'status'>): Promise<InventoryItem>
+  updateInventoryItem(id: string, item: Partial<Omit<InventoryItem, 'id' | 'created_at'>>): Promise<InventoryItem | null>
+  deleteInventoryItem(id: string): Promise<void>
+
+  // Inventory photos. Uploading returns the photo's storage path, which the app then adds to the item.
+  uploadPhoto(itemId: string, file: File): Promise<string>
+  deletePhotos(paths: string[]): Promise<void>
+  photoUrl(path: string): string
+
+  // Expenses
+  getExpenses(): Promise<Expense[]>
+  queryExpenses(query: ExpenseQuery): Promise<Page<Expense>>
+  addExpense(expense: Omit<Expense, 'id' | 'created_at'>): Promise<Expense>
+  updateExpense(id: string, expense: Partial<Omit<Expense, 'id' | 'created_at'>>): Promise<Expense | null>
+  deleteExpense(id: string): Promise<void>
+
+  // Trash. Purging deletes for good, taking an inventory item's photos with it. Restoring and
+  // purging only touch rows already in the trash.
+  getTrash(): Promise<Trash>
+  // False when it's no longer in the trash
+  restoreFromTrash(table: TrashTable, id: string): Promise<boolean>
+  purgeFromTrash(table: TrashTable, id: string): Promise<void>
+  // Purges everything deleted before the given time
+  purgeTrash(deletedBefore: string): Promise<void>
+
+  // Change history of sales, inventory and expenses, newest first. The data store writes it
+  // on every change, so there's nothing to add, edit or delete.
+  queryAuditLog(query: AuditQuery): Promise<Page<AuditEntry>>
+
+  // Null until saved; see lib/trash.ts for the defaults
+  getSettings(): Promise<Settings | null>
+  saveSettings(settings: Omit<Settings, 'id' | 'created_at'>): Promise<Settings>
+
+  // Lots
+  getLots(): Promise<Lot[]>
+  addLot(lot: Omit<Lot, 'id' | 'created_at'>): Promise<Lot>
+  updateLot(id: string, lot: Partial<Omit<Lot, 'id' | 'created_at'>>): Promise<Lot>
+  deleteLot(id: string): Promise<void>
+
+  // Sources
+  getSources(): Promise<Source[]>
+  addSource(source: Omit<Source, 'id' | 'created_at'>): Promise<Source>
+  updateSource(id: string, source: Partial<Omit<Source, 'id' | 'created_at'>>): Promise<Source>
+  deleteSource(id: string): Promise<void>
+
+  // Platforms saved in Settings; see platformRegistry for the full list
+  getPlatforms(): Promise<Platform[]>
+  addPlatform(platform: Omit<Platform, 'id' | 'created_at'>): Promise<Platform>
+  updatePlatform(id: string, platform: Partial<Omit<Platform, 'id' | 'created_at'>>): Promise<Platform>
+  deletePlatform(id: string): Promise<void>
+
+  // Fee schedules
+  getFeeSchedules(): Promise<FeeSchedule[]>
+  addFeeSchedule(schedule: Omit<FeeSchedule, 'id' | 'created_at'>): Promise<FeeSchedule>
+  updateFeeSchedule(id: string, schedule: Partial<Omit<FeeSchedule, 'id' | 'created_at'>>): Promise<FeeSchedule>
+  deleteFeeSchedule(id: string): Promise<void>
+
+  // Mileage
+  getTrips(): Promise<Trip[]>
+  addTrip(trip: Omit<Trip, 'id' | 'created_at'>): Promise<Trip>
+  updateTrip(id: string, trip: Partial<Omit<Trip, 'id' | 'created_at'>>): Promise<Trip>
+  deleteTrip(id: string): Promise<void>
+  getMileageRates(): Promise<MileageRate[]>
+  addMileageRate(rate: Omit<MileageRate, 'id' | 'created_at'>): Promise<MileageRate>
+  updateMileageRate(id: string, rate: Partial<Omit<MileageRate, 'id' | 'created_at'>>): Promise<MileageRate>
+  deleteMileageRate(id: string): Promise<void>
+
+  // Payouts and 1099-K totals, for reconciling against sales. Payouts are one row per order,
+  // so they're read a platform and date range at a time. Adding skips payouts already
+  // recorded (see payoutKey) and returns only the new ones.
+  getPayouts(platform: string, start: string, end: string): Promise<Payout[]>
+  addPayouts(payouts: NewPayout[]): Promise<Payout[]>
+  deletePayout(id: string): Promise<void>
+  getForms1099K(): Promise<Form1099K[]>
+  addForm1099K(form: Omit<Form1099K, 'id' | 'created_at'>): Promise<Form1099K>
+  updateForm1099K(id: string, form: Partial<Omit<Form1099K, 'id' | 'created_at'>>): Promise<Form1099K>
+  deleteForm1099K(id: string): Promise<void>
+
+  // Aggregates
+  getDashboardStats(sales: SaleFilters, expenses: ExpenseFilters): Promise<DashboardStats>
+  // Years with any sale, expense, inventory item or trip, newest first
+  getYears(): Promise<string[]>
+
+  // Live changes to sales, inventory and expenses, including ones made on other devices.
+  // Returns an unsubscribe function.
+  subscribeToChanges(callback: (change: DataChange) => void): () => void
+}
+
+// NEXT_PUBLIC_DATA_STORE=local keeps everything in the browser (no account or Supabase project needed).
+// Anything else, including unset, uses Supabase.
+export const DATA_STORE = process.env.NEXT_PUBLIC_DATA_STORE === 'local' ? 'local' : 'supabase'
+
+const repository: Repository = DATA_STORE === 'local' ? localRepository : supabaseRepository
+
+export const {
+  getTeam,
+  getTeamMembers,
+  createTeam,
+  joinTeam,
+  rotateInviteCode,
+  leaveTeam,
+  getSales,
+  getSale,
+  querySales,
+  getSalesByOrderNumbers,
+  addSales,
+  getInventory,
+  getInventoryItems,
+  queryInventory,
+  uploadPhoto,
+  deletePhotos,
+  photoUrl,
+  getExpenses,
+  queryExpenses,
+  getTrash,
+  purgeFromTrash,
+  purgeTrash,
+  queryAuditLog,
+  getSettings,
+  saveSettings,
+  getLots,
+  addLot,
+  updateLot,
+  deleteLot,
+  getSources,
+  addSource,
+  updateSource,
+  deleteSource,
+  getPlatforms,
+  addPlatform,
+  updatePlatform,
+  deletePlatform,
+  getFeeSchedules,
+  addFeeSchedule,
+  updateFeeSchedule,
+  deleteFeeSchedule,
+  getTrips,
+  addTrip,
+  updateTrip,
+  deleteTrip,
+  getMileageRates,
+  addMileageRate,
+  updateMileageRate,
+  deleteMileageRate,
+  getPayouts,
+  addPayouts,
+  deletePayout,
+  getForms1099K,
+  addForm1099K,
+  updateForm1099K,
+  deleteForm1099K,
+  getDashboardStats,
+  getYears
+} = repository
+
+// Changes this device makes come back through subscribeToChanges too. Remembering which rows
+// we just wrote lets the app tell those echoes apart from edits made somewhere else.
+const ECHO_WINDOW_MS = 10_000
+const recentWrites = new Map<string, number>()
+
+function rememberWrite(id: string) {
+  recentWrites.set(id, Date.now())
+}
+
+function isRecentWrite(id: string) {
+  const writtenAt = recentWrites.get(id)
+  if (writtenAt === undefined) return false
+  if (Date.now() - writtenAt < ECHO_WINDOW_MS) return true
+  recentWrites.delete(id)
+  return false
+}
+
+// Moving a row to the trash reaches the store as an update; to everything listening it's a delete
+function trashedAsDelete(change: DataChange): DataChange {
+  return change.type !== 'delete' && change.row.deleted_at
+    ? { table: change.table, type: 'delete', id: change.row.id }
+    : change
+}
+
+export function subscribeToChanges(callback: (change: DataChange, fromThisDevice: boolean) => void) {
+  return repository.subscribeToChanges(change => {
+    const visible = trashedAsDelete(change)
+    callback(visible, isRecentWrite(visible.type === 'delete' ? visible.id : visible.row.id))
+  })
+}
+
+// Sales, inventory and expense writes go through the outbox with Supabase, so they're kept
+// while offline and sent when the connection returns. The local store is always available.
+const outbox = DATA_STORE === 'supabase' ? createOutbox(repository) : null
+
+export function subscribeToOutbox(listener: (state: OutboxState) => void) {
+  return outbox ? outbox.subscribe(listener) : () => {}
+}
+
+// The outbox follows whoever is signed in, so it has to hear about every change of account
+
+export async function getCurrentUser() {
+  const user = await repository.getCurrentUser()
+  outbox?.setUser(user?.id ?? null)
+  return user
+}
+
+export function onAuthChange(callback: (user: AppUser | null) => void) {
+  return repository.onAuthChange(user => {
+    outbox?.setUser(user?.id ?? null)
+    callback(user)
+  })
+}
+
+export async function signIn(email: string, password: string) {
+  const user = await repository.signIn(email, password)
+  outbox?.setUser(user.id)
+  return user
+}
+
+export async function signUp(email: string, password: string) {
+  const user = await repository.signUp(email, password)
+  if (user) outbox?.setUser(user.id)
+  return user
+}
+
+// Writes queued offline go out first. Signing out refuses while any are stuck, as they'd
+// wait on this device until the same account signs in again.
+export async function signOut() {
+  await outbox?.drain()
+  await repository.signOut()
+  outbox?.setUser(null)
+}
+
+export async function retryPendingWrite(id: string) {
+  await outbox?.retry(id)
+}
+
+export function discardPendingWrite(id: string) {
+  outbox?.discard(id)
+}
+
+function newRow<T>(fields: Omit<T, 'id' | 'created_at'>) {
+  return { ...fields, id: crypto.randomUUID(), created_at: new Date().toISOString() } as T
+}
+
+export async function addSale(sale: NewSale) {
+  if (!outbox) return repository.addSale(sale)
+  const row = newRow<Sale>({ status: 'Pending', ...sale })
+  rememberWrite(row.id)
+  await outbox.insert('sales', row)
+  return row
+}
+
+export async function updateSale(id: string, sale: Partial<Omit<Sale, 'id' | 'created_at'>>) {
+  rememberWrite(id)
+  if (outbox) await outbox.update('sales', id, sale)
+  else await repository.updateSale(id, sale)
+}
+
+export async function deleteSale(id: string) {
+  rememberWrite(id)
+  if (outbox) await outbox.delete('sales', id)
+  else await repository.deleteSale(id)
+}
+
+export async function addInventoryItem(item: Omit<InventoryItem, 'id' | 'created_at' | 'status'>) {
+  // Every item gets a SKU for its label unless one was typed in
+  const withSku = { ...item, sku: item.sku || generateSku(item.date_added) }
+  if (!outbox) return repository.addInventoryItem(withSku)
+  const row = newRow<InventoryItem>({ ...withSku, status: 'In Stock' })
+  rememberWrite(row.id)
+  await outbox.insert('inventory', row)
+  return row
+}
+
+export async function updateInventoryItem(id: string, item: Partial<Omit<InventoryItem, 'id' | 'created_at'>>) {
+  rememberWrite(id)
+  if (outbox) await outbox.update('inventory', id, item)
+  else await repository.updateInventoryItem(id, item)
+}
+
+export async function deleteInventoryItem(id: string) {
+  rememberWrite(id)
+  if (outbox) await outbox.delete('inventory', id)
+  else await repository.deleteInventoryItem(id)
+}
+
+export async function addExpense(expense: Omit<Expense, 'id' | 'created_at'>) {
+  if (!outbox) return repository.addExpense(expense)
+  const row = newRow<Expense>(expense)
+  rememberWrite(row.id)
+  await outbox.insert('expenses', row)
+  return row
+}
+
+export async function updateExpense(id: string, expense: Partial<Omit<Expense, 'id' | 'created_at'>>) {
+  rememberWrite(id)
+  if (outbox) await outbox.update('expenses', id, expense)
+  else await repository.updateExpense(id, expense)
+}
+
+export async function deleteExpense(id: string) {
+  rememberWrite(id)
+  if (outbox) await outbox.delete('expenses', id)
+  else await repository.deleteExpense(id)
+}
+
+// Undo and restore are kept while offline like any other write
+export async function restoreFromTrash(table: TrashTable, id: string) {
+  rememberWrite(id)
+  if (outbox) await outbox.restore(table, id)
+  else await repository.restoreFromTrash(table, id)
+}
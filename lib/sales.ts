@@ -0,0 +1,152 @@
+import { calculateFees, type FeeScheduleRules } from '@/lib/fees'
+import type { NewSale, Sale, SaleStatus } from '@/lib/types'
+
+// Statuses a sale can move to from each status
+export const SALE_STATUS_TRANSITIONS: Record<SaleStatus, SaleStatus[]> = {
+  Pending: ['Shipped', 'Cancelled'],
+  Shipped: ['Delivered', 'Returned'],
+  Delivered: ['Returned'],
+  Returned: [],
+  Cancelled: []
+}
+
+export type SaleOutcome = 'Returned' | 'Cancelled'
+
+export type RefundAdjustment = {
+  fee_refunded: number
+  return_shipping_cost: number
+  restocked: boolean
+}
+
+// Returned and cancelled sales no longer count as revenue
+export function isRefunded(sale: Pick<Sale, 'status'>) {
+  return sale.status === 'Returned' || sale.status === 'Cancelled'
+}
+
+// What the buyer paid us: the item plus any shipping they were charged
+export function saleRevenue(sale: Pick<Sale, 'sale_price' | 'shipping_charged'>) {
+  return sale.sale_price + (sale.shipping_charged ?? 0)
+}
+
+// Profit left on an undone sale: any fee we didn't get back, shipping both
+// ways, and the item's cost unless it came back into stock
+export function refundedProfit(
+  sale: Pick<Sale, 'platform_fee' | 'shipping_cost' | 'item_cost'>,
+  adjustment: RefundAdjustment
+) {
+  return -(sale.platform_fee - adjustment.fee_refunded)
+    - sale.shipping_cost
+    - adjustment.return_shipping_cost
+    - (adjustment.restocked ? 0 : sale.item_cost)
+}
+
+// Sale form values as typed — numbers stay strings until saved
+export type SaleForm = {
+  item_name: string
+  platform: string
+  sale_date: string
+  sale_price: string
+  item_cost: string
+  shipping_cost: string
+  shipping_charged: string
+  carrier: string
+  shipping_service: string
+  tracking_number: string
+  package_weight: string
+  package_length: string
+  package_width: string
+  package_height: string
+  ship_by: string
+  gross_total: string
+  actual_received: string
+}
+
+export function emptySaleForm(platform = 'eBay'): SaleForm {
+  return {
+    item_name: '',
+    platform,
+    sale_date: new Date().toISOString().split('T')[0],
+    sale_price: '',
+    item_cost: '',
+    shipping_cost: '',
+    shipping_charged: '',
+    carrier: '',
+    shipping_service: '',
+    tracking_number: '',
+    package_weight: '',
+    package_length: '',
+    package_width: '',
+    package_height: '',
+    ship_by: '',
+    gross_total: '',
+    actual_received: ''
+  }
+}
+
+// The fields fee and profit are derived from
+export type SalePricing = Pick<
+  Sale,
+  | 'platform'
+  | 'sale_date'
+  | 'sale_price'
+  | 'item_cost'
+  | 'shipping_cost'
+  | 'shipping_charged'
+  | 'gross_total'
+  | 'actual_received'
+>
+
+// Platform fee and profit for a sale. An eBay payout entered by hand wins over the fee schedule.
+// Fee schedules charge on the item price only.
+export function priceSale(sale: SalePricing, schedules: FeeScheduleRules[]) {
+  if (sale.platform === 'eBay' && sale.actual_received != null) {
+    const grossTotal = sale.gross_total || saleRevenue(sale)
+    return {
+      platform_fee: grossTotal - sale.actual_received,
+      profit: sale.actual_received - sale.item_cost - sale.shipping_cost
+    }
+  }
+
+  const platformFee = calculateFees(sale.platform, sale.sale_price, sale.sale_date, schedules)
+  return {
+    platform_fee: platformFee,
+    profit: saleRevenue(sale) - platformFee - sale.item_cost - sale.shipping_cost
+  }
+}
+
+// Keep a returned/cancelled sale's refund adjustments when its details are corrected
+export function reapplyRefund<T extends Pick<Sale, 'platform_fee' | 'shipping_cost' | 'item_cost'>>(original: Sale, sale: T) {
+  if (!isRefunded(original)) return sale
+
+  const adjustment = {
+    fee_refunded: Math.min(original.fee_refunded ?? 0, sale.platform_fee),
+    return_shipping_cost: original.return_shipping_cost ?? 0,
+    restocked: original.restocked ?? false
+  }
+  return { ...sale, fee_refunded: adjustment.fee_refunded, profit: refundedProfit(sale, adjustment) }
+}
+
+// Build a sale record from the form, computing fee and profit
+export function saleFromForm(form: SaleForm, schedules: FeeScheduleRules[]): NewSale {
+  const sale = {
+    item_name: form.item_name,
+    platform: form.platform,
+    sale_date: form.sale_date,
+    sale_price: parseFloat(form.sale_price),
+    item_cost: parseFloat(form.item_cost) || 0,
+    shipping_cost: parseFloat(form.shipping_cost) || 0,
+    shipping_charged: form.shipping_charged ? parseFloat(form.shipping_charged) : null,
+    carrier: form.carrier || null,
+    shipping_service: form.shipping_service.trim() || null,
+    tracking_number: form.tracking_number.trim() || null,
+    package_weight: form.package_weight ? parseFloat(form.package_weight) : null,
+    package_length: form.package_length ? parseFloat(form.package_length) : null,
+    package_width: form.package_width ? parseFloat(form.package_width) : null,
+    package_height: form.package_height ? parseFloat(form.package_height) : null,
+    ship_by: form.ship_by || null,
+    gross_total: form.gross_total ? parseFloat(form.gross_total) : null,
+    actual_received: form.actual_received ? parseFloat(form.actual_received) : null
+  }
+
+  return { ...sale, ...priceSale(sale, schedules) }
+}
@@ -0,0 +1,34 @@
+import { isRefunded } from '@/lib/sales'
+import type { Sale } from '@/lib/types'
+
+export const CARRIERS = ['USPS', 'UPS', 'FedEx', 'DHL', 'Other']
+
+// Pending sales, soonest ship-by date first. Sales with no ship-by date go last, oldest first.
+export function awaitingShipment(sales: Sale[]) {
+  return sales
+    .filter(sale => sale.status === 'Pending')
+    .sort((a, b) => {
+      if (a.ship_by && b.ship_by) return a.ship_by.localeCompare(b.ship_by)
+      if (a.ship_by) return -1
+      if (b.ship_by) return 1
+      return a.sale_date.localeCompare(b.sale_date)
+    })
+}
+
+// What buyers paid for shipping less what the labels cost. Only sales with the buyer's
+// shipping recorded count, so free-shipping sales don't show up as losses.
+export function shippingProfit(sales: Sale[]) {
+  return sales
+    .filter(sale => !isRefunded(sale) && sale.shipping_charged != null)
+    .reduce((sum, sale) => sum + sale.shipping_charged! - sale.shipping_cost, 0)
+}
+
+// "12 oz · 10×8×4 in", or null with nothing recorded
+export function packageSummary(sale: Pick<Sale, 'package_weight' | 'package_length' | 'package_width' | 'package_height'>) {
+  const parts: string[] = []
+  if (sale.package_weight) parts.push(`${sale.package_weight} oz`)
+  if (sale.package_length && sale.package_width && sale.package_height) {
+    parts.push(`${sale.package_length}×${sale.package_width}×${sale.package_height} in`)
+  }
+  return parts.length > 0 ? parts.join(' · ') : null
+}
@@ -0,0 +1,13 @@
+import { todayISO } from '@/lib/dates'
+
+// No 0/O or 1/I, so a SKU read off a label can't be mistyped. The sku_backfill_alphabet
+// migration uses the same characters for items from before SKUs.
+const SKU_CHARACTERS = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'
+
+// A SKU like 261019-K7QM: the date the item was added, then four random characters.
+// Made on the device rather than by the database so items added offline get one too.
+export function generateSku(dateAdded: string | null) {
+  const date = (dateAdded ?? todayISO()).replace(/-/g, '').substring(2)
+  const suffix = Array.from(crypto.getRandomValues(new Uint8Array(4)), byte => SKU_CHARACTERS[byte % SKU_CHARACTERS.length])
+  return `${date}-${suffix.join('')}`
+}
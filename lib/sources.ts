@@ -0,0 +1,79 @@
+import type { InventoryItem, Sale, Source, SourceKind } from '@/lib/types'
+import { daysBetween } from '@/lib/dates'
+import { isRefunded } from '@/lib/sales'
+
+export const SOURCE_KINDS: SourceKind[] = [
+  'Thrift Store',
+  'Bins',
+  'Estate Sale',
+  'Garage Sale',
+  'Auction',
+  'Online',
+  'Wholesale',
+  'Other'
+]
+
+export type SourceStats = {
+  // Null for items with no source recorded
+  source: Source | null
+  itemCount: number
+  spend: number
+  soldCount: number
+  // Share of the items sourced that have sold, 0–1
+  sellThrough: number
+  avgDaysToSell: number | null
+  // Sold items' profit, after their cost, fees and shipping
+  profit: number
+  // Profit on what was spent; null when nothing was spent
+  roi: number | null
+}
+
+// How the items bought at each source have done. The year picks the items by when they were
+// sourced, so a source is judged on everything it supplied that year, sold or not. An item
+// deleted after it sold still counts through its sale, which kept the source and the cost.
+export function sourceReport(sources: Source[], inventory: InventoryItem[], sales: Sale[], year: string): SourceStats[] {
+  const inYear = (date: string | null | undefined) => year === 'all' || !!date?.startsWith(year)
+  const itemsById = new Map(inventory.map(item => [item.id, item]))
+  const soldSales = sales.filter(sale => !isRefunded(sale))
+
+  function stats(source: Source | null): SourceStats {
+    const sourceId = source?.id ?? null
+    const items = inventory.filter(item => (item.source_id ?? null) === sourceId && inYear(item.date_added))
+    const itemIds = new Set(items.map(item => item.id))
+
+    const itemSales = soldSales.filter(sale => sale.inventory_id && itemIds.has(sale.inventory_id))
+    const orphanSales = source
+      ? soldSales.filter(sale =>
+        sale.source_id === source.id &&
+        !(sale.inventory_id && itemsById.has(sale.inventory_id)) &&
+        inYear(sale.sale_date)
+      )
+      : []
+
+    const days = itemSales.flatMap(sale => {
+      const sourced = itemsById.get(sale.inventory_id!)!.date_added
+      return sourced ? [daysBetween(sourced, sale.sale_date)] : []
+    })
+
+    const itemCount = items.length + orphanSales.length
+    const spend = items.reduce((sum, item) => sum + item.item_cost, 0) +
+      orphanSales.reduce((sum, sale) => sum + sale.item_cost, 0)
+    const soldCount = new Set(itemSales.map(sale => sale.inventory_id)).size + orphanSales.length
+    const profit = [...itemSales, ...orphanSales].reduce((sum, sale) => sum + sale.profit, 0)
+
+    return {
+      source,
+      itemCount,
+      spend,
+      soldCount,
+      sellThrough: itemCount > 0 ? soldCount / itemCount : 0,
+      avgDaysToSell: days.length > 0 ? days.reduce((sum, d) => sum + d, 0) / days.length : null,
+      profit,
+      roi: spend > 0 ? profit / spend : null
+    }
+  }
+
+  const rows = sources.map(stats)
+  const unsourced = stats(null)
+  return unsourced.itemCount > 0 ? [...rows, unsourced] : rows
+}
@@ -1,128 +1,1008 @@
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-
-export const supabase = createClient(supabaseUrl, supabaseKey)
-
-// Database types
-export type Sale = {
-  id: string
-  item_name: string
-  platform: 'eBay' | 'Mercari' | 'Poshmark' | 'Depop'
-  sale_date: string
-  sale_price: number
-  platform_fee: number
-  item_cost: number
-  shipping_cost: number
-  profit: number
-  gross_total?: number
-  actual_received?: number
-  status: string
-  created_at: string
-}
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js'
+import type {
+  AppUser,
+  AuditEntry,
+  DataChange,
+  Expense,
+  FeeSchedule,
+  Form1099K,
+  InventoryItem,
+  Lot,
+  MileageRate,
+  NewPayout,
+  NewSale,
+  Payout,
+  Platform,
+  Sale,
+  Settings,
+  Source,
+  Team,
+  TeamMember,
+  TrashTable,
+  Trip
+} from '@/lib/types'
+import type { Repository } from '@/lib/repository'
+import { mileageDeduction } from '@/lib/mileage'
+import { PHOTO_BUCKET, PHOTO_EXTENSIONS, photoPath } from '@/lib/photos'
+import {
+  SALE_SORTS,
+  auditBounds,
+  dateBounds,
+  fetchAllPages,
+  type AuditQuery,
+  type DashboardStats,
+  type ExpenseFilters,
+  type ExpenseQuery,
+  type InventoryQuery,
+  type SaleFilters,
+  type SaleQuery
+} from '@/lib/queries'
+
+// Browser client, created on first use so the local data store works without Supabase settings
+let browserClient: SupabaseClient | null = null
 
-export type InventoryItem = {
-  id: string
-  item_name: string
-  item_cost: number
-  platforms: string[]
-  date_added: string | null
-  created_at: string
+function getBrowserClient() {
+  if (!browserClient) {
+    browserClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!)
+  }
+  return browserClient
 }
 
-export type Expense = {
-  id: string
-  name: string
-  amount: number
-  date_added: string
-  created_at: string
+// Server client acting as the user who owns the access token, so row-level security still applies
+export function createServerClient(accessToken: string) {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
 }
 
-// API functions
-export async function getSales() {
-  const { data, error } = await supabase
-    .from('sales')
-    .select('*')
-    .order('sale_date', { ascending: false })
+function toAppUser(user: User): AppUser {
+  return { id: user.id, email: user.email ?? null }
+}
 
-  if (error) throw error
-  return data as Sale[]
+// ilike pattern for a substring search, with the search's own wildcards escaped
+function containsPattern(search: string) {
+  return `%${search.replace(/[\\%_]/g, char => `\\${char}`)}%`
 }
 
-export async function getInventory() {
-  const { data, error } = await supabase
-    .from('inventory')
-    .select('*')
-    .order('item_name', { ascending: true })
+// Every row of a query, a page at a time. PostgREST answers with at most its max-rows setting
+// (1000 by default), so one request would quietly drop the rest of a large history.
+async function readAll<T>(fetchRange: (from: number, to: number) => PromiseLike<{ data: unknown[] | null, count: number | null, error: unknown }>) {
+  return fetchAllPages<T>(async ({ offset, limit }) => {
+    const { data, count, error } = await fetchRange(offset, offset + limit - 1)
+    if (error) throw error
+    return { rows: data as T[], total: count ?? 0 }
+  })
+}
 
-  if (error) throw error
-  return data as InventoryItem[]
+// A value in an or() filter, quoted so commas and parentheses in it don't split the filter
+function quoted(value: string) {
+  return `"${value.replace(/[\\"]/g, char => `\\${char}`)}"`
 }
 
-export async function getExpenses() {
-  const { data, error } = await supabase
-    .from('expenses')
-    .select('*')
-    .order('date_added', { ascending: false })
+export function createSupabaseRepository(getClient: () => SupabaseClient): Repository {
+  // Auth
+  async function getCurrentUser() {
+    const { data, error } = await getClient().auth.getSession()
 
-  if (error) throw error
-  return data as Expense[]
-}
+    if (error) throw error
+    return data.session ? toAppUser(data.session.user) : null
+  }
 
-export async function addSale(sale: Omit<Sale, 'id' | 'created_at' | 'status'>) {
-  const { data, error } = await supabase
-    .from('sales')
-    .insert([{ ...sale, status: 'Sold' }])
-    .select()
+  function onAuthChange(callback: (user: AppUser | null) => void) {
+    const { data } = getClient().auth.onAuthStateChange((_event, session) => {
+      callback(session ? toAppUser(session.user) : null)
+    })
+    return () => data.subscription.unsubscribe()
+  }
 
-  if (error) throw error
-  return data[0] as Sale
-}
+  async function signIn(email: string, password: string) {
+    const { data, error } = await getClient().auth.signInWithPassword({ email, password })
 
-export async function addInventoryItem(item: Omit<InventoryItem, 'id' | 'created_at'>) {
-  const { data, error } = await supabase
-    .from('inventory')
-    .insert([item])
-    .select()
+    if (error) throw error
+    return toAppUser(data.user)
+  }
 
-  if (error) throw error
-  return data[0] as InventoryItem
-}
+  // Returns null when the project requires email confirmation before the first sign-in
+  async function signUp(email: string, password: string) {
+    const { data, error } = await getClient().auth.signUp({ email, password })
 
-export async function addExpense(expense: Omit<Expense, 'id' | 'created_at'>) {
-  const { data, error} = await supabase
-    .from('expenses')
-    .insert([expense])
-    .select()
+    if (error) throw error
+    return data.session ? toAppUser(data.session.user) : null
+  }
 
-  if (error) throw error
-  return data[0] as Expense
-}
+  async function signOut() {
+    const { error } = await getClient().auth.signOut()
 
-export async function deleteSale(id: string) {
-  const { error } = await supabase
-    .from('sales')
-    .delete()
-    .eq('id', id)
+    if (error) throw error
+  }
 
-  if (error) throw error
-}
+  // Teams
+  async function getTeam() {
+    const { data, error } = await getClient()
+      .from('teams')
+      .select('*')
+      .limit(1)
 
-export async function deleteInventoryItem(id: string) {
-  const { error } = await supabase
-    .from('inventory')
-    .delete()
-    .eq('id', id)
+    if (error) throw error
+    return (data[0] ?? null) as Team | null
+  }
 
-  if (error) throw error
-}
+  async function getTeamMembers() {
+    const { data, error } = await getClient()
+      .from('team_members')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data as TeamMember[]
+  }
+
+  async function createTeam(name: string) {
+    const { data, error } = await getClient().rpc('create_team', { team_name: name })
+
+    if (error) throw error
+    return data as Team
+  }
+
+  // A wrong or expired code comes back empty rather than as an error, so the attempt counts
+  async function joinTeam(inviteCode: string) {
+    const { data, error } = await getClient().rpc('join_team', { code: inviteCode })
+
+    if (error) throw error
+    if (!data?.id) throw new Error('That invite code is wrong or has expired')
+    return data as Team
+  }
+
+  async function rotateInviteCode() {
+    const { data, error } = await getClient().rpc('rotate_invite_code')
+
+    if (error) throw error
+    return data as Team
+  }
+
+  async function leaveTeam(userId: string) {
+    const { error } = await getClient()
+      .from('team_members')
+      .delete()
+      .eq('user_id', userId)
+
+    if (error) throw error
+  }
+
+  // Data
+  async function getSales() {
+    return readAll<Sale>((from, to) => getClient()
+      .from('sales')
+      .select('*', { count: 'exact' })
+      .is('deleted_at', null)
+      .order('sale_date', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, to))
+  }
+
+  async function getSale(id: string) {
+    const { data, error } = await getClient()
+      .from('sales')
+      .select('*')
+      .eq('id', id)
+      .is('deleted_at', null)
+
+    if (error) throw error
+    return (data[0] ?? null) as Sale | null
+  }
+
+  async function getInventory() {
+    return readAll<InventoryItem>((from, to) => getClient()
+      .from('inventory')
+      .select('*', { count: 'exact' })
+      .is('deleted_at', null)
+      .order('item_name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to))
+  }
+
+  async function getExpenses() {
+    return readAll<Expense>((from, to) => getClient()
+      .from('expenses')
+      .select('*', { count: 'exact' })
+      .is('deleted_at', null)
+      .order('date_added', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, to))
+  }
+
+  async function querySales(query: SaleQuery) {
+    const { start, end } = dateBounds(query)
+    const sort = SALE_SORTS[query.sort ?? 'item_name']
+
+    let request = getClient()
+      .from('sales')
+      .select('*', { count: 'exact' })
+      .is('deleted_at', null)
+    if (query.search) request = request.ilike('item_name', containsPattern(query.search))
+    if (query.platform) request = request.eq('platform', query.platform)
+    if (query.status) request = request.eq('status', query.status)
+    if (start) request = request.gte('sale_date', start)
+    if (end) request = request.lte('sale_date', end)
+
+    const { data, count, error } = await request
+      .order(sort.column, { ascending: sort.ascending })
+      .order('id', { ascending: true })
+      .range(query.offset, query.offset + query.limit - 1)
+
+    if (error) throw error
+    return { rows: data as Sale[], total: count ?? 0 }
+  }
+
+  async function getInventoryItems(ids: string[]) {
+    if (ids.length === 0) return []
+
+    const { data, error } = await getClient()
+      .from('inventory')
+      .select('*')
+      .in('id', ids)
+      .is('deleted_at', null)
+
+    if (error) throw error
+    return data as InventoryItem[]
+  }
+
+  async function queryInventory(query: InventoryQuery) {
+    const { start, end } = dateBounds(query)
+
+    let request = getClient()
+      .from('inventory')
+      .select('*', { count: 'exact' })
+      .is('deleted_at', null)
+    if (query.search) {
+      const pattern = quoted(containsPattern(query.search))
+      request = request.or(`item_name.ilike.${pattern},sku.ilike.${pattern},bin.ilike.${pattern}`)
+    }
+    if (query.platform) request = request.contains('platforms', [query.platform])
+    if (query.status) request = request.eq('status', query.status)
+    // Items without a date added always pass the date filters
+    if (start) request = request.or(`date_added.is.null,date_added.gte.${start}`)
+    if (end) request = request.or(`date_added.is.null,date_added.lte.${end}`)
+
+    const { data, count, error } = await request
+      .order('item_name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(query.offset, query.offset + query.limit - 1)
+
+    if (error) throw error
+    return { rows: data as InventoryItem[], total: count ?? 0 }
+  }
+
+  async function queryExpenses(query: ExpenseQuery) {
+    const { start, end } = dateBounds(query)
+
+    let request = getClient()
+      .from('expenses')
+      .select('*', { count: 'exact' })
+      .is('deleted_at', null)
+    if (query.search) request = request.ilike('name', containsPattern(query.search))
+    if (query.category) request = request.eq('category', query.category)
+    if (start) request = request.gte('date_added', start)
+    if (end) request = request.lte('date_added', end)
+
+    const { data, count, error } = await request
+      .order('date_added', { ascending: false })
+      .order('id', { ascending: true })
+      .range(query.offset, query.offset + query.limit - 1)
+
+    if (error) throw error
+    return { rows: data as Expense[], total: count ?? 0 }
+  }
+
+  async function getLots() {
+    const { data, error } = await getClient()
+      .from('lots')
+      .select('*')
+      .order('purchase_date', { ascending: false })
+
+    if (error) throw error
+    return data as Lot[]
+  }
+
+  async function getSources() {
+    const { data, error } = await getClient()
+      .from('sources')
+      .select('*')
+      .order('name')
+
+    if (error) throw error
+    return data as Source[]
+  }
+
+  async function getPlatforms() {
+    const { data, error } = await getClient()
+      .from('platforms')
+      .select('*')
+      .order('name')
+
+    if (error) throw error
+    return data as Platform[]
+  }
+
+  async function addPlatform(platform: Omit<Platform, 'id' | 'created_at'>) {
+    const { data, error } = await getClient()
+      .from('platforms')
+      .insert([platform])
+      .select()
+
+    if (error) throw error
+    return data[0] as Platform
+  }
+
+  async function updatePlatform(id: string, platform: Partial<Omit<Platform, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('platforms')
+      .update(platform)
+      .eq('id', id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Platform
+  }
+
+  async function deletePlatform(id: string) {
+    const { error } = await getClient()
+      .from('platforms')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  async function getFeeSchedules() {
+    const { data, error } = await getClient()
+      .from('fee_schedules')
+      .select('*')
+      .order('effective_from', { ascending: false })
+
+    if (error) throw error
+    return data as FeeSchedule[]
+  }
+
+  async function addSale(sale: NewSale) {
+    const { data, error } = await getClient()
+      .from('sales')
+      .insert([{ status: 'Pending', ...sale }])
+      .select()
+
+    if (error) throw error
+    return data[0] as Sale
+  }
+
+  async function addSales(sales: NewSale[]) {
+    const { data, error } = await getClient()
+      .from('sales')
+      .insert(sales.map(sale => ({ status: 'Pending', ...sale })))
+      .select()
+
+    if (error) throw error
+    return data as Sale[]
+  }
+
+  // Previously recorded sales with any of the given order numbers, for import dedupe
+  async function getSalesByOrderNumbers(orderNumbers: string[]) {
+    if (orderNumbers.length === 0) return []
+
+    const { data, error } = await getClient()
+      .from('sales')
+      .select('platform, order_number, order_line')
+      .in('order_number', orderNumbers)
+      .is('deleted_at', null)
+
+    if (error) throw error
+    return data as Pick<Sale, 'platform' | 'order_number' | 'order_line'>[]
+  }
+
+  async function addInventoryItem(item: Omit<InventoryItem, 'id' | 'created_at' | 'status'>) {
+    const { data, error } = await getClient()
+      .from('inventory')
+      .insert([{ ...item, status: 'In Stock' }])
+      .select()
+
+    if (error) throw error
+    return data[0] as InventoryItem
+  }
+
+  async function addExpense(expense: Omit<Expense, 'id' | 'created_at'>) {
+    const { data, error} = await getClient()
+      .from('expenses')
+      .insert([expense])
+      .select()
+
+    if (error) throw error
+    return data[0] as Expense
+  }
+
+  async function addLot(lot: Omit<Lot, 'id' | 'created_at'>) {
+    const { data, error } = await getClient()
+      .from('lots')
+      .insert([lot])
+      .select()
+
+    if (error) throw error
+    return data[0] as Lot
+  }
+
+  async function addSource(source: Omit<Source, 'id' | 'created_at'>) {
+    const { data, error } = await getClient()
+      .from('sources')
+      .insert([source])
+      .select()
+
+    if (error) throw error
+    return data[0] as Source
+  }
+
+  async function addFeeSchedule(schedule: Omit<FeeSchedule, 'id' | 'created_at'>) {
+    const { data, error } = await getClient()
+      .from('fee_schedules')
+      .insert([schedule])
+      .select()
+
+    if (error) throw error
+    return data[0] as FeeSchedule
+  }
+
+  async function updateSale(id: string, sale: Partial<Omit<Sale, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('sales')
+      .update(sale)
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select()
+
+    if (error) throw error
+    return (data[0] ?? null) as Sale | null
+  }
+
+  async function updateInventoryItem(id: string, item: Partial<Omit<InventoryItem, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('inventory')
+      .update(item)
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select()
+
+    if (error) throw error
+    return (data[0] ?? null) as InventoryItem | null
+  }
+
+  async function updateExpense(id: string, expense: Partial<Omit<Expense, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('expenses')
+      .update(expense)
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select()
+
+    if (error) throw error
+    return (data[0] ?? null) as Expense | null
+  }
+
+  async function updateLot(id: string, lot: Partial<Omit<Lot, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('lots')
+      .update(lot)
+      .eq('id', id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Lot
+  }
 
-export async function deleteExpense(id: string) {
-  const { error } = await supabase
-    .from('expenses')
-    .delete()
-    .eq('id', id)
+  async function updateSource(id: string, source: Partial<Omit<Source, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('sources')
+      .update(source)
+      .eq('id', id)
+      .select()
 
-  if (error) throw error
+    if (error) throw error
+    return data[0] as Source
+  }
+
+  async function updateFeeSchedule(id: string, schedule: Partial<Omit<FeeSchedule, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('fee_schedules')
+      .update(schedule)
+      .eq('id', id)
+      .select()
+
+    if (error) throw error
+    return data[0] as FeeSchedule
+  }
+
+  // Sales, inventory and expenses go to the trash rather than being deleted outright.
+  // Deleting one that's already there keeps when it was first deleted.
+  async function moveToTrash(table: TrashTable, id: string) {
+    const { error } = await getClient()
+      .from(table)
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('deleted_at', null)
+
+    if (error) throw error
+  }
+
+  async function deleteSale(id: string) {
+    await moveToTrash('sales', id)
+  }
+
+  async function deleteInventoryItem(id: string) {
+    await moveToTrash('inventory', id)
+  }
+
+  async function uploadPhoto(itemId: string, file: File) {
+    const path = photoPath(itemId, file)
+    const { error } = await getClient()
+      .storage
+      .from(PHOTO_BUCKET)
+      .upload(path, file, { contentType: PHOTO_EXTENSIONS[path.split('.').pop()!] })
+
+    if (error) throw error
+    return path
+  }
+
+  async function deletePhotos(paths: string[]) {
+    if (paths.length === 0) return
+    const { error } = await getClient()
+      .storage
+      .from(PHOTO_BUCKET)
+      .remove(paths)
+
+    if (error) throw error
+  }
+
+  // The bucket is public; paths are random, so a photo can only be found through its item
+  function photoUrl(path: string) {
+    return getClient().storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl
+  }
+
+  async function deleteExpense(id: string) {
+    await moveToTrash('expenses', id)
+  }
+
+  // Trash
+  async function getTrashed<T>(table: TrashTable) {
+    const { data, error } = await getClient()
+      .from(table)
+      .select('*')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+
+    if (error) throw error
+    return data as T[]
+  }
+
+  async function getTrash() {
+    const [sales, inventory, expenses] = await Promise.all([
+      getTrashed<Sale>('sales'),
+      getTrashed<InventoryItem>('inventory'),
+      getTrashed<Expense>('expenses')
+    ])
+    return { sales, inventory, expenses }
+  }
+
+  async function restoreFromTrash(table: TrashTable, id: string) {
+    const { data, error } = await getClient()
+      .from(table)
+      .update({ deleted_at: null })
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select('id')
+
+    if (error) throw error
+    return data.length > 0
+  }
+
+  // Purged inventory items take their photos with them
+  async function deletePurgedPhotos(table: TrashTable, rows: unknown[]) {
+    if (table !== 'inventory') return
+    await deletePhotos((rows as InventoryItem[]).flatMap(item => item.photos ?? []))
+  }
+
+  // Only rows already in the trash can be purged
+  async function purgeFromTrash(table: TrashTable, id: string) {
+    const { data, error } = await getClient()
+      .from(table)
+      .delete()
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select()
+
+    if (error) throw error
+    await deletePurgedPhotos(table, data)
+  }
+
+  async function purgeTrash(deletedBefore: string) {
+    for (const table of ['sales', 'inventory', 'expenses'] as const) {
+      const { data, error } = await getClient()
+        .from(table)
+        .delete()
+        .lt('deleted_at', deletedBefore)
+        .select()
+
+      if (error) throw error
+      await deletePurgedPhotos(table, data)
+    }
+  }
+
+  // Audit log — written by a trigger on each table, never by the app
+  async function queryAuditLog(query: AuditQuery) {
+    const { from, before } = auditBounds(query)
+
+    let request = getClient()
+      .from('audit_log')
+      .select('*', { count: 'exact' })
+    if (query.table) request = request.eq('table_name', query.table)
+    if (query.record_id) request = request.eq('record_id', query.record_id)
+    if (query.action) request = request.eq('action', query.action)
+    if (from) request = request.gte('created_at', from)
+    if (before) request = request.lt('created_at', before)
+
+    const { data, count, error } = await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(query.offset, query.offset + query.limit - 1)
+
+    if (error) throw error
+    return { rows: data as AuditEntry[], total: count ?? 0 }
+  }
+
+  // Settings — one row for the books; a team uses its first member's
+  async function getSettings() {
+    const { data, error } = await getClient()
+      .from('settings')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .limit(1)
+
+    if (error) throw error
+    return (data[0] ?? null) as Settings | null
+  }
+
+  async function saveSettings(settings: Omit<Settings, 'id' | 'created_at'>) {
+    const existing = await getSettings()
+    const { data, error } = existing
+      ? await getClient().from('settings').update(settings).eq('id', existing.id).select()
+      : await getClient().from('settings').insert([settings]).select()
+
+    if (error) throw error
+    return data[0] as Settings
+  }
+
+  async function deleteLot(id: string) {
+    const { error } = await getClient()
+      .from('lots')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  async function deleteSource(id: string) {
+    const { error } = await getClient()
+      .from('sources')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  async function deleteFeeSchedule(id: string) {
+    const { error } = await getClient()
+      .from('fee_schedules')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  // Mileage
+  async function getTrips() {
+    const { data, error } = await getClient()
+      .from('trips')
+      .select('*')
+      .order('trip_date', { ascending: false })
+
+    if (error) throw error
+    return data as Trip[]
+  }
+
+  async function addTrip(trip: Omit<Trip, 'id' | 'created_at'>) {
+    const { data, error } = await getClient()
+      .from('trips')
+      .insert([trip])
+      .select()
+
+    if (error) throw error
+    return data[0] as Trip
+  }
+
+  async function updateTrip(id: string, trip: Partial<Omit<Trip, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('trips')
+      .update(trip)
+      .eq('id', id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Trip
+  }
+
+  async function deleteTrip(id: string) {
+    const { error } = await getClient()
+      .from('trips')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  async function getMileageRates() {
+    const { data, error } = await getClient()
+      .from('mileage_rates')
+      .select('*')
+      .order('year', { ascending: false })
+
+    if (error) throw error
+    return data as MileageRate[]
+  }
+
+  async function addMileageRate(rate: Omit<MileageRate, 'id' | 'created_at'>) {
+    const { data, error } = await getClient()
+      .from('mileage_rates')
+      .insert([rate])
+      .select()
+
+    if (error) throw error
+    return data[0] as MileageRate
+  }
+
+  async function updateMileageRate(id: string, rate: Partial<Omit<MileageRate, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('mileage_rates')
+      .update(rate)
+      .eq('id', id)
+      .select()
+
+    if (error) throw error
+    return data[0] as MileageRate
+  }
+
+  async function deleteMileageRate(id: string) {
+    const { error } = await getClient()
+      .from('mileage_rates')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  async function getPayouts(platform: string, start: string, end: string) {
+    return readAll<Payout>((from, to) => getClient()
+      .from('payouts')
+      .select('*', { count: 'exact' })
+      .eq('platform', platform)
+      .gte('payout_date', start)
+      .lte('payout_date', end)
+      .order('payout_date', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, to))
+  }
+
+  async function addPayouts(payouts: NewPayout[]) {
+    const { data, error } = await getClient()
+      .from('payouts')
+      .upsert(payouts, { onConflict: 'user_id,platform,payout_date,order_number,reference,net,payout_line', ignoreDuplicates: true })
+      .select()
+
+    if (error) throw error
+    return data as Payout[]
+  }
+
+  async function deletePayout(id: string) {
+    const { error } = await getClient()
+      .from('payouts')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  async function getForms1099K() {
+    const { data, error } = await getClient()
+      .from('forms_1099k')
+      .select('*')
+      .order('year', { ascending: false })
+
+    if (error) throw error
+    return data as Form1099K[]
+  }
+
+  async function addForm1099K(form: Omit<Form1099K, 'id' | 'created_at'>) {
+    const { data, error } = await getClient()
+      .from('forms_1099k')
+      .insert([form])
+      .select()
+
+    if (error) throw error
+    return data[0] as Form1099K
+  }
+
+  async function updateForm1099K(id: string, form: Partial<Omit<Form1099K, 'id' | 'created_at'>>) {
+    const { data, error } = await getClient()
+      .from('forms_1099k')
+      .update(form)
+      .eq('id', id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Form1099K
+  }
+
+  async function deleteForm1099K(id: string) {
+    const { error } = await getClient()
+      .from('forms_1099k')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  // The deduction for trips in the expense date range, priced in the app like the rest of the mileage log
+  async function getMileageDeduction(expenses: ExpenseFilters) {
+    const { start, end } = dateBounds(expenses)
+
+    const trips = readAll<Pick<Trip, 'trip_date' | 'distance'>>((from, to) => {
+      let request = getClient()
+        .from('trips')
+        .select('trip_date, distance', { count: 'exact' })
+      if (start) request = request.gte('trip_date', start)
+      if (end) request = request.lte('trip_date', end)
+      return request
+        .order('trip_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    })
+
+    const [data, rates] = await Promise.all([trips, getMileageRates()])
+    return mileageDeduction(data, rates)
+  }
+
+  async function getDashboardStats(sales: SaleFilters, expenses: ExpenseFilters) {
+    const saleBounds = dateBounds(sales)
+    const expenseBounds = dateBounds(expenses)
+
+    const statsRequest = getClient().rpc('dashboard_stats', {
+      sale_search: sales.search || null,
+      sale_platform: sales.platform || null,
+      sale_status: sales.status || null,
+      sale_start: saleBounds.start ?? null,
+      sale_end: saleBounds.end ?? null,
+      expense_search: expenses.search || null,
+      expense_category: expenses.category || null,
+      expense_start: expenseBounds.start ?? null,
+      expense_end: expenseBounds.end ?? null
+    })
+    const [{ data, error }, mileage] = await Promise.all([statsRequest, getMileageDeduction(expenses)])
+
+    if (error) throw error
+    const stats = data as Omit<DashboardStats, 'mileageDeduction'>
+    return { ...stats, mileageDeduction: mileage, netProfit: stats.netProfit - mileage }
+  }
+
+  async function getYears() {
+    const { data, error } = await getClient().rpc('data_years')
+
+    if (error) throw error
+    return data as string[]
+  }
+
+  // Realtime — needs the tables in the supabase_realtime publication (see migrations)
+  function subscribeToChanges(callback: (change: DataChange) => void) {
+    const client = getClient()
+    const channel = client.channel('data-changes')
+
+    for (const table of ['sales', 'inventory', 'expenses'] as const) {
+      channel.on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+        if (payload.eventType === 'DELETE') {
+          // Deletes only carry the primary key
+          callback({ table, type: 'delete', id: (payload.old as { id: string }).id } as DataChange)
+        } else {
+          callback({ table, type: payload.eventType === 'INSERT' ? 'insert' : 'update', row: payload.new } as DataChange)
+        }
+      })
+    }
+    channel.subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }
+
+  return {
+    getCurrentUser,
+    onAuthChange,
+    signIn,
+    signUp,
+    signOut,
+    getTeam,
+    getTeamMembers,
+    createTeam,
+    joinTeam,
+    rotateInviteCode,
+    leaveTeam,
+    getSales,
+    getSale,
+    querySales,
+    getSalesByOrderNumbers,
+    addSale,
+    addSales,
+    updateSale,
+    deleteSale,
+    getInventory,
+    getInventoryItems,
+    queryInventory,
+    addInventoryItem,
+    updateInventoryItem,
+    deleteInventoryItem,
+    uploadPhoto,
+    deletePhotos,
+    photoUrl,
+    getExpenses,
+    queryExpenses,
+    addExpense,
+    updateExpense,
+    deleteExpense,
+    getTrash,
+    restoreFromTrash,
+    purgeFromTrash,
+    purgeTrash,
+    queryAuditLog,
+    getSettings,
+    saveSettings,
+    getLots,
+    addLot,
+    updateLot,
+    deleteLot,
+    getSources,
+    addSource,
+    updateSource,
+    deleteSource,
+    getPlatforms,
+    addPlatform,
+    updatePlatform,
+    deletePlatform,
+    getFeeSchedules,
+    addFeeSchedule,
+    updateFeeSchedule,
+    deleteFeeSchedule,
+    getTrips,
+    addTrip,
+    updateTrip,
+    deleteTrip,
+    getMileageRates,
+    addMileageRate,
+    updateMileageRate,
+    deleteMileageRate,
+    getPayouts,
+    addPayouts,
+    deletePayout,
+    getForms1099K,
+    addForm1099K,
+    updateForm1099K,
+    deleteForm1099K,
+    getDashboardStats,
+    getYears,
+    subscribeToChanges
+  }
 }
+
+export const supabaseRepository = createSupabaseRepository(getBrowserClient)
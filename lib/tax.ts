@@ -0,0 +1,81 @@
+import type { Expense, InventoryItem, MileageRate, Sale, Trip } from '@/lib/types'
+import { EXPENSE_CATEGORIES } from '@/lib/expenses'
+import { mileageDeduction } from '@/lib/mileage'
+import { isRefunded, saleRevenue } from '@/lib/sales'
+
+export type TaxLine = {
+  line: string
+  label: string
+  amount: number
+  // Subtotals and results are drawn bold
+  total?: boolean
+}
+
+export type TaxSummary = {
+  year: string
+  income: TaxLine[]
+  expenses: TaxLine[]
+  netProfit: number
+  endingInventory: number
+}
+
+// Year-end summary laid out like Schedule C (Form 1040), built from the
+// same records the stats cards use.
+export function buildTaxSummary(
+  year: string,
+  sales: Sale[],
+  inventory: InventoryItem[],
+  expenses: Expense[],
+  trips: Trip[],
+  rates: MileageRate[]
+): TaxSummary {
+  const yearSales = sales.filter(s => s.sale_date.startsWith(year))
+  const yearExpenses = expenses.filter(e => e.date_added.startsWith(year))
+  const yearTrips = trips.filter(t => t.trip_date.startsWith(year))
+  const sum = <T,>(rows: T[], amount: (row: T) => number) => rows.reduce((total, row) => total + amount(row), 0)
+
+  const grossReceipts = sum(yearSales, saleRevenue)
+  const returns = sum(yearSales.filter(isRefunded), saleRevenue)
+  const netReceipts = grossReceipts - returns
+
+  // Cost of the items that left for good — a restocked return's cost is back in inventory
+  const cogs = sum(yearSales.filter(s => !(isRefunded(s) && s.restocked)), s => s.item_cost)
+  const grossProfit = netReceipts - cogs
+
+  const platformFees = sum(yearSales, s => s.platform_fee - (s.fee_refunded ?? 0))
+  const shipping = sum(yearSales, s => s.shipping_cost + (s.return_shipping_cost ?? 0))
+  const byCategory = (category: string) => sum(yearExpenses.filter(e => e.category === category), e => e.amount)
+
+  const expenseLines: TaxLine[] = [
+    { line: '10', label: 'Commissions and fees (platform fees)', amount: platformFees },
+    { line: '27a', label: 'Shipping labels', amount: shipping },
+    ...EXPENSE_CATEGORIES.map(c => ({
+      line: c.scheduleCLine,
+      label: c.label,
+      amount: byCategory(c.category)
+    })),
+    {
+      line: '9',
+      label: `Standard mileage (${sum(yearTrips, t => t.distance).toFixed(1)} mi logged)`,
+      amount: mileageDeduction(yearTrips, rates)
+    }
+  ]
+  const totalExpenses = sum(expenseLines, l => l.amount)
+
+  return {
+    year,
+    income: [
+      { line: '1', label: 'Gross receipts', amount: grossReceipts },
+      { line: '2', label: 'Returns and allowances', amount: returns },
+      { line: '3', label: 'Net receipts', amount: netReceipts, total: true },
+      { line: '4', label: 'Cost of goods sold', amount: cogs },
+      { line: '5', label: 'Gross profit', amount: grossProfit, total: true }
+    ],
+    expenses: [
+      ...expenseLines,
+      { line: '28', label: 'Total expenses', amount: totalExpenses, total: true }
+    ],
+    netProfit: grossProfit - totalExpenses,
+    endingInventory: sum(inventory.filter(i => i.status === 'In Stock'), i => i.item_cost)
+  }
+}
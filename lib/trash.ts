@@ -0,0 +1,31 @@
+import type { Settings, Trash } from '@/lib/types'
+
+// Deleting a sale, inventory item or expense moves it to the trash by setting deleted_at.
+// It can be restored until it's purged, by hand or once it has been there for the retention period.
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+export const TRASH_RETENTION_CHOICES = [7, 14, 30, 60, 90, 365]
+
+// How long an undo is offered after deleting
+export const UNDO_WINDOW_MS = 8_000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function trashRetentionDays(settings: Settings | null) {
+  return settings?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS
+}
+
+// Records deleted before this time are due to be purged
+export function trashCutoff(retentionDays: number, now = new Date()) {
+  return new Date(now.getTime() - retentionDays * DAY_MS).toISOString()
+}
+
+// When a record deleted at deletedAt will be purged
+export function purgeDate(deletedAt: string, retentionDays: number) {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS)
+}
+
+export function trashCount(trash: Trash) {
+  return trash.sales.length + trash.inventory.length + trash.expenses.length
+}
@@ -0,0 +1,282 @@
+export type SaleStatus = 'Pending' | 'Shipped' | 'Delivered' | 'Returned' | 'Cancelled'
+
+export type Sale = {
+  id: string
+  item_name: string
+  // A name from the platform registry
+  platform: string
+  sale_date: string
+  sale_price: number
+  platform_fee: number
+  item_cost: number
+  // What the label cost us
+  shipping_cost: number
+  profit: number
+  // What the buyer paid for shipping, on top of sale_price
+  shipping_charged?: number | null
+  carrier?: string | null
+  shipping_service?: string | null
+  tracking_number?: string | null
+  // Package weight in ounces and dimensions in inches
+  package_weight?: number | null
+  package_length?: number | null
+  package_width?: number | null
+  package_height?: number | null
+  // When the platform expects it shipped by
+  ship_by?: string | null
+  gross_total?: number | null
+  actual_received?: number | null
+  order_number?: string | null
+  // Which item of a multi-item order it is, counting from 1 in the platform's report
+  order_line?: number | null
+  inventory_id?: string | null
+  // Copied from the inventory item, so the sale keeps its source if the item is deleted
+  source_id?: string | null
+  status: SaleStatus
+  // Set when a sale is returned or cancelled
+  fee_refunded?: number | null
+  return_shipping_cost?: number | null
+  restocked?: boolean | null
+  // Set while it's in the trash
+  deleted_at?: string | null
+  created_at: string
+}
+
+export type InventoryStatus = 'In Stock' | 'Sold' | 'Donated' | 'Lost'
+
+export type InventoryItem = {
+  id: string
+  item_name: string
+  item_cost: number
+  platforms: string[]
+  date_added: string | null
+  status: InventoryStatus
+  // Lot purchases: item_cost is allocated from the lot's total cost
+  lot_id?: string | null
+  lot_weight?: number | null
+  expected_price?: number | null
+  // Where it was bought
+  source_id?: string | null
+  // Printed on its label; made when the item is added
+  sku?: string | null
+  // Tote, bin or shelf it's stored in
+  bin?: string | null
+  // Storage paths of its photos; the first is the cover
+  photos?: string[]
+  deleted_at?: string | null
+  created_at: string
+}
+
+export type SourceKind =
+  | 'Thrift Store'
+  | 'Bins'
+  | 'Estate Sale'
+  | 'Garage Sale'
+  | 'Auction'
+  | 'Online'
+  | 'Wholesale'
+  | 'Other'
+
+// A place inventory is bought: a store, a sale, a supplier
+export type Source = {
+  id: string
+  name: string
+  kind: SourceKind
+  location: string | null
+  created_at: string
+}
+
+export type LotAllocationMethod = 'even' | 'weight' | 'expected_price'
+
+export type Lot = {
+  id: string
+  name: string
+  total_cost: number
+  purchase_date: string
+  allocation_method: LotAllocationMethod
+  created_at: string
+}
+
+// A business drive, deducted at the IRS standard mileage rate for its year
+export type Trip = {
+  id: string
+  trip_date: string
+  purpose: string
+  // Optional odometer readings; distance is worked out from them when both are given
+  start_odometer: number | null
+  end_odometer: number | null
+  // Miles
+  distance: number
+  // Where the trip went, e.g. an estate sale or the post office
+  location: string | null
+  created_at: string
+}
+
+// Overrides the built-in standard mileage rate for one year
+export type MileageRate = {
+  id: string
+  year: number
+  // Dollars per mile
+  rate: number
+  created_at: string
+}
+
+export type ExpenseCategory =
+  | 'Supplies'
+  | 'Postage'
+  | 'Software'
+  | 'Mileage'
+  | 'Fees'
+  | 'Advertising'
+  | 'Office'
+  | 'Other'
+
+export type Expense = {
+  id: string
+  name: string
+  amount: number
+  category: ExpenseCategory
+  date_added: string
+  deleted_at?: string | null
+  created_at: string
+}
+
+// What a platform gives back when a sale is undone: 'all' refunds the whole fee, 'none' keeps it,
+// 'variable' refunds all but the fixed per-order fee
+export type FeeRefundRule = 'all' | 'none' | 'variable'
+
+// A marketplace or other sales channel. Its fees are the fee schedules under the same name.
+export type Platform = {
+  id: string
+  name: string
+  // Badge and chart color, as hex
+  color: string
+  refund_on_return: FeeRefundRule
+  refund_on_cancel: FeeRefundRule
+  // Inactive platforms stay on past sales but aren't offered for new ones
+  active: boolean
+  created_at: string
+}
+
+// Money a platform paid out. A line from a platform's transaction report is one order and carries
+// its order number; a deposit entered by hand may have only the net amount.
+export type Payout = {
+  id: string
+  platform: string
+  payout_date: string
+  order_number: string | null
+  // What the buyer paid, including any sales tax the marketplace collected
+  gross: number | null
+  fees: number | null
+  // Sales tax the marketplace collected and remitted itself
+  sales_tax: number | null
+  // What landed in the bank account
+  net: number
+  // The platform's payout or transaction ID
+  reference: string | null
+  // Which of a report's identical lines it is, counting from 1. A payout entered by hand is line 1.
+  payout_line?: number
+  created_at: string
+}
+
+export type NewPayout = Omit<Payout, 'id' | 'created_at'>
+
+// Gross payments a platform reported on Form 1099-K for one year
+export type Form1099K = {
+  id: string
+  platform: string
+  year: number
+  gross_amount: number
+  transaction_count: number | null
+  created_at: string
+}
+
+export type FeeTier = {
+  up_to: number | null
+  percent: number
+  fixed: number
+}
+
+export type FeeSchedule = {
+  id: string
+  platform: string
+  effective_from: string
+  tier_mode: 'bracket' | 'marginal'
+  tiers: FeeTier[]
+  fixed_per_order: number
+  max_fee: number | null
+  created_at: string
+}
+
+export type NewSale = Omit<Sale, 'id' | 'created_at' | 'status'> & { status?: SaleStatus }
+
+// A team shares one set of books: members see and edit each other's rows
+export type Team = {
+  id: string
+  name: string
+  invite_code: string
+  // The invite code stops working after this; any member can replace it with a new one
+  invite_expires_at: string
+  created_at: string
+}
+
+export type TeamMember = {
+  team_id: string
+  user_id: string
+  email: string | null
+  created_at: string
+}
+
+// The signed-in account, independent of the auth provider
+export type AppUser = {
+  id: string
+  email: string | null
+}
+
+// A row inserted, updated or deleted in the data store, possibly by another device
+type TableChange<Table extends string, Row> =
+  | { table: Table, type: 'insert' | 'update', row: Row }
+  | { table: Table, type: 'delete', id: string }
+
+export type DataChange =
+  | TableChange<'sales', Sale>
+  | TableChange<'inventory', InventoryItem>
+  | TableChange<'expenses', Expense>
+
+// Deleted sales, inventory and expenses, kept until restored or purged
+export type Trash = {
+  sales: Sale[]
+  inventory: InventoryItem[]
+  expenses: Expense[]
+}
+
+export type TrashTable = keyof Trash
+
+// Preferences for the whole set of books; the defaults in lib/trash.ts apply until saved
+export type Settings = {
+  id: string
+  // Days a deleted record stays in the trash before it's purged
+  trash_retention_days: number
+  created_at: string
+}
+
+// mark_sold: an inventory item was sold. delete and restore move a record in and out of the
+// trash; purge deletes it for good.
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'mark_sold'
+
+// One change to a sale, inventory item or expense. The log is append-only.
+export type AuditEntry = {
+  id: string
+  table_name: DataChange['table']
+  record_id: string
+  // Its item name, or name for an expense, at the time
+  record_name: string | null
+  action: AuditAction
+  // Updates hold only the fields that changed; a create has the whole row after, a purge before
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  changed_by: string | null
+  changed_by_email: string | null
+  // When the change was made
+  created_at: string
+}
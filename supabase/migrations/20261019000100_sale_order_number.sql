@@ -0,0 +1,4 @@
+-- Marketplace order number, used to skip sales that were already imported from a CSV report
+alter table sales add column if not exists order_number text;
+
+create index if not exists sales_order_number_idx on sales (order_number);
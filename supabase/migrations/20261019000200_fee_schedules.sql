@@ -0,0 +1,24 @@
+-- Platform fee schedules, versioned by the date they take effect.
+-- A sale uses the latest schedule for its platform with effective_from <= sale_date.
+create table if not exists fee_schedules (
+  id uuid primary key default gen_random_uuid(),
+  platform text not null,
+  effective_from date not null,
+  -- 'bracket': whole price charged at the tier it falls under
+  -- 'marginal': each tier charges only the slice of the price inside it
+  tier_mode text not null default 'bracket' check (tier_mode in ('bracket', 'marginal')),
+  -- [{ "up_to": number | null, "percent": number, "fixed": number }]
+  tiers jsonb not null default '[]'::jsonb,
+  fixed_per_order numeric not null default 0,
+  max_fee numeric,
+  created_at timestamptz not null default now(),
+  unique (platform, effective_from)
+);
+
+-- Rates the app used before schedules were configurable
+insert into fee_schedules (platform, effective_from, tier_mode, tiers, fixed_per_order) values
+  ('eBay', '2000-01-01', 'bracket', '[{"up_to": null, "percent": 13.6, "fixed": 0}]', 0.40),
+  ('Mercari', '2000-01-01', 'bracket', '[{"up_to": null, "percent": 12.9, "fixed": 0}]', 0.30),
+  ('Poshmark', '2000-01-01', 'bracket', '[{"up_to": 15, "percent": 0, "fixed": 2.95}, {"up_to": null, "percent": 20, "fixed": 0}]', 0),
+  ('Depop', '2000-01-01', 'bracket', '[{"up_to": null, "percent": 3.3, "fixed": 0}]', 0.45)
+on conflict (platform, effective_from) do nothing;
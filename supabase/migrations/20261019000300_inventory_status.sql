@@ -0,0 +1,7 @@
+-- Inventory rows are kept after they leave stock so sales can be traced back to what we sourced
+alter table inventory add column if not exists status text not null default 'In Stock'
+  check (status in ('In Stock', 'Sold', 'Donated', 'Lost'));
+
+alter table sales add column if not exists inventory_id uuid references inventory (id) on delete set null;
+
+create index if not exists sales_inventory_id_idx on sales (inventory_id);
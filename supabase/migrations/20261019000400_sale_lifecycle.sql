@@ -0,0 +1,11 @@
+-- Sale lifecycle. Sales recorded before this had status 'Sold' and were all completed.
+update sales set status = 'Delivered' where status = 'Sold';
+
+alter table sales alter column status set default 'Pending';
+alter table sales add constraint sales_status_check
+  check (status in ('Pending', 'Shipped', 'Delivered', 'Returned', 'Cancelled'));
+
+-- Return/cancellation adjustments
+alter table sales add column if not exists fee_refunded numeric;
+alter table sales add column if not exists return_shipping_cost numeric;
+alter table sales add column if not exists restocked boolean;
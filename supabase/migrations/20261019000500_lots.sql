@@ -0,0 +1,16 @@
+-- Lot purchases (a bag or bin bought for one price). Each item's cost is a share of the lot total.
+create table if not exists lots (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  total_cost numeric not null default 0,
+  purchase_date date not null default current_date,
+  allocation_method text not null default 'even'
+    check (allocation_method in ('even', 'weight', 'expected_price')),
+  created_at timestamptz not null default now()
+);
+
+alter table inventory add column if not exists lot_id uuid references lots (id) on delete set null;
+alter table inventory add column if not exists lot_weight numeric;
+alter table inventory add column if not exists expected_price numeric;
+
+create index if not exists inventory_lot_id_idx on inventory (lot_id);
@@ -0,0 +1,3 @@
+-- Expense categories, laid out on the year-end tax summary by Schedule C line
+alter table expenses add column if not exists category text not null default 'Other'
+  check (category in ('Supplies', 'Postage', 'Software', 'Mileage', 'Fees', 'Advertising', 'Office', 'Other'));
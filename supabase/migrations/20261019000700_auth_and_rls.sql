@@ -0,0 +1,161 @@
+-- Per-user data. Every row is owned by the account that created it, and row-level
+-- security limits reads and writes to the owner and anyone on the owner's team.
+--
+-- Rows created before accounts existed have no owner and are hidden from everyone.
+-- After signing up, claim them from the SQL editor:
+--   select claim_unowned_rows('you@example.com');
+
+alter table sales add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table inventory add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table expenses add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table lots add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table fee_schedules add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+
+create index if not exists sales_user_id_idx on sales (user_id);
+create index if not exists inventory_user_id_idx on inventory (user_id);
+create index if not exists expenses_user_id_idx on expenses (user_id);
+create index if not exists lots_user_id_idx on lots (user_id);
+
+-- Each account keeps its own fee schedules
+alter table fee_schedules drop constraint if exists fee_schedules_platform_effective_from_key;
+alter table fee_schedules drop constraint if exists fee_schedules_user_platform_effective_from_key;
+alter table fee_schedules add constraint fee_schedules_user_platform_effective_from_key
+  unique (user_id, platform, effective_from);
+
+-- Teams: resellers sharing one set of books (e.g. a household). A user is on at most one team.
+create table if not exists teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  invite_code text not null unique default substr(md5(random()::text), 1, 8),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists team_members (
+  team_id uuid not null references teams (id) on delete cascade,
+  user_id uuid not null unique default auth.uid() references auth.users (id) on delete cascade,
+  email text,
+  created_at timestamptz not null default now(),
+  primary key (team_id, user_id)
+);
+
+-- True when the signed-in user may see rows owned by `owner`: their own, or a teammate's.
+-- security definer so policies can read team_members without recursing into its own policy.
+create or replace function shares_books(owner uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select owner = auth.uid() or exists (
+    select 1
+    from team_members mine
+    join team_members theirs on theirs.team_id = mine.team_id
+    where mine.user_id = auth.uid() and theirs.user_id = owner
+  )
+$$;
+
+create or replace function create_team(team_name text)
+returns teams
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  team teams;
+begin
+  if exists (select 1 from team_members where user_id = auth.uid()) then
+    raise exception 'Leave your current team before creating a new one';
+  end if;
+  insert into teams (name) values (team_name) returning * into team;
+  insert into team_members (team_id, user_id, email) values (team.id, auth.uid(), auth.jwt() ->> 'email');
+  return team;
+end;
+$$;
+
+create or replace function join_team(code text)
+returns teams
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  team teams;
+begin
+  select * into team from teams where invite_code = lower(trim(code));
+  if team.id is null then
+    raise exception 'No team has that invite code';
+  end if;
+  if exists (select 1 from team_members where user_id = auth.uid()) then
+    raise exception 'Leave your current team before joining another';
+  end if;
+  insert into team_members (team_id, user_id, email) values (team.id, auth.uid(), auth.jwt() ->> 'email');
+  return team;
+end;
+$$;
+
+-- Hand rows from before accounts existed to one user. Run from the SQL editor; not callable from the app.
+create or replace function claim_unowned_rows(owner_email text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner uuid;
+begin
+  select id into owner from auth.users where email = owner_email;
+  if owner is null then
+    raise exception 'No account for %', owner_email;
+  end if;
+  update sales set user_id = owner where user_id is null;
+  update inventory set user_id = owner where user_id is null;
+  update expenses set user_id = owner where user_id is null;
+  update lots set user_id = owner where user_id is null;
+  update fee_schedules set user_id = owner where user_id is null;
+end;
+$$;
+
+revoke execute on function claim_unowned_rows(text) from public, anon, authenticated;
+
+-- Row-level security
+alter table sales enable row level security;
+alter table inventory enable row level security;
+alter table expenses enable row level security;
+alter table lots enable row level security;
+alter table fee_schedules enable row level security;
+alter table teams enable row level security;
+alter table team_members enable row level security;
+
+drop policy if exists "Shared books" on sales;
+create policy "Shared books" on sales for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+drop policy if exists "Shared books" on inventory;
+create policy "Shared books" on inventory for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+drop policy if exists "Shared books" on expenses;
+create policy "Shared books" on expenses for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+drop policy if exists "Shared books" on lots;
+create policy "Shared books" on lots for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+drop policy if exists "Shared books" on fee_schedules;
+create policy "Shared books" on fee_schedules for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+-- Teams are created and joined through create_team/join_team; members can only see and leave
+drop policy if exists "Members read their team" on teams;
+create policy "Members read their team" on teams for select to authenticated
+  using (exists (select 1 from team_members where team_id = teams.id and user_id = auth.uid()));
+
+drop policy if exists "Members read teammates" on team_members;
+create policy "Members read teammates" on team_members for select to authenticated
+  using (shares_books(user_id));
+
+drop policy if exists "Members leave" on team_members;
+create policy "Members leave" on team_members for delete to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,79 @@
+-- Server-side filtering for the sales, inventory and expense lists, and the aggregates behind
+-- the stats cards, so the app no longer loads every row to show a page or a total.
+
+create extension if not exists pg_trgm;
+
+-- Search is a case-insensitive substring match on the name
+create index if not exists sales_item_name_trgm_idx on sales using gin (item_name gin_trgm_ops);
+create index if not exists inventory_item_name_trgm_idx on inventory using gin (item_name gin_trgm_ops);
+create index if not exists expenses_name_trgm_idx on expenses using gin (name gin_trgm_ops);
+
+create index if not exists sales_sale_date_idx on sales (sale_date);
+create index if not exists expenses_date_added_idx on expenses (date_added);
+create index if not exists inventory_status_idx on inventory (status);
+
+-- Escape LIKE wildcards so a search for "100%" matches the text literally
+create or replace function like_pattern(search text)
+returns text
+language sql
+immutable
+as $$
+  select '%' || replace(replace(replace(search, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+$$;
+
+-- Totals for the stats cards. Null arguments don't filter.
+-- Runs as the caller, so row-level security limits it to their books.
+create or replace function dashboard_stats(
+  sale_search text default null,
+  sale_platform text default null,
+  sale_status text default null,
+  sale_start date default null,
+  sale_end date default null,
+  expense_search text default null,
+  expense_category text default null,
+  expense_start date default null,
+  expense_end date default null
+)
+returns json
+language sql
+stable
+as $$
+  with filtered_sales as (
+    select * from sales
+    where (sale_search is null or item_name ilike like_pattern(sale_search))
+      and (sale_platform is null or platform = sale_platform)
+      and (sale_status is null or status = sale_status)
+      and (sale_start is null or sale_date >= sale_start)
+      and (sale_end is null or sale_date <= sale_end)
+  ),
+  filtered_expenses as (
+    select * from expenses
+    where (expense_search is null or name ilike like_pattern(expense_search))
+      and (expense_category is null or category = expense_category)
+      and (expense_start is null or date_added >= expense_start)
+      and (expense_end is null or date_added <= expense_end)
+  )
+  select json_build_object(
+    'totalSales', (select coalesce(sum(sale_price), 0) from filtered_sales where status not in ('Returned', 'Cancelled')),
+    'totalFees', (select coalesce(sum(platform_fee - coalesce(fee_refunded, 0)), 0) from filtered_sales),
+    'totalExpenses', (select coalesce(sum(amount), 0) from filtered_expenses),
+    'inventoryValue', (select coalesce(sum(item_cost), 0) from inventory where status = 'In Stock'),
+    'netProfit', (select coalesce(sum(profit), 0) from filtered_sales) - (select coalesce(sum(amount), 0) from filtered_expenses)
+  )
+$$;
+
+-- Years that have any sale, expense or inventory item, newest first, for the year picker
+create or replace function data_years()
+returns setof text
+language sql
+stable
+as $$
+  select distinct year from (
+    select to_char(sale_date, 'YYYY') as year from sales
+    union
+    select to_char(date_added, 'YYYY') from expenses
+    union
+    select to_char(date_added, 'YYYY') from inventory where date_added is not null
+  ) years
+  order by year desc
+$$;
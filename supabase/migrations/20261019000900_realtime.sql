@@ -0,0 +1,16 @@
+-- Broadcast changes to sales, inventory and expenses so other open devices update live.
+-- Realtime applies the same row-level security, so subscribers only hear about their own books.
+do $$
+declare
+  name text;
+begin
+  foreach name in array array['sales', 'inventory', 'expenses'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', name);
+    end if;
+  end loop;
+end;
+$$;
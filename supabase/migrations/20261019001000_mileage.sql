@@ -0,0 +1,56 @@
+-- Mileage log: business trips deducted at the IRS standard mileage rate for their year.
+-- The app has the published rates built in; mileage_rates overrides them per year.
+
+create table if not exists trips (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+  trip_date date not null default current_date,
+  purpose text not null,
+  start_odometer numeric,
+  end_odometer numeric,
+  distance numeric not null check (distance >= 0),
+  location text,
+  created_at timestamptz not null default now(),
+  check (start_odometer is null or end_odometer is null or end_odometer >= start_odometer)
+);
+
+create index if not exists trips_user_id_idx on trips (user_id);
+create index if not exists trips_trip_date_idx on trips (trip_date);
+
+create table if not exists mileage_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+  year integer not null,
+  rate numeric not null check (rate >= 0),
+  created_at timestamptz not null default now(),
+  unique (user_id, year)
+);
+
+alter table trips enable row level security;
+alter table mileage_rates enable row level security;
+
+drop policy if exists "Shared books" on trips;
+create policy "Shared books" on trips for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+drop policy if exists "Shared books" on mileage_rates;
+create policy "Shared books" on mileage_rates for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+-- Years with trips show in the year picker too
+create or replace function data_years()
+returns setof text
+language sql
+stable
+as $$
+  select distinct year from (
+    select to_char(sale_date, 'YYYY') as year from sales
+    union
+    select to_char(date_added, 'YYYY') from expenses
+    union
+    select to_char(date_added, 'YYYY') from inventory where date_added is not null
+    union
+    select to_char(trip_date, 'YYYY') from trips
+  ) years
+  order by year desc
+$$;
@@ -0,0 +1,24 @@
+-- Sources: where inventory is bought. Sales copy their item's source so it survives the item being deleted.
+create table if not exists sources (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  kind text not null default 'Other'
+    check (kind in ('Thrift Store', 'Bins', 'Estate Sale', 'Garage Sale', 'Auction', 'Online', 'Wholesale', 'Other')),
+  location text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sources_user_id_idx on sources (user_id);
+
+alter table inventory add column if not exists source_id uuid references sources (id) on delete set null;
+alter table sales add column if not exists source_id uuid references sources (id) on delete set null;
+
+create index if not exists inventory_source_id_idx on inventory (source_id);
+create index if not exists sales_source_id_idx on sales (source_id);
+
+alter table sources enable row level security;
+
+drop policy if exists "Shared books" on sources;
+create policy "Shared books" on sources for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
@@ -0,0 +1,10 @@
+-- SKUs for labels and a bin/shelf location for finding items when they sell.
+-- The app makes SKUs when items are added; existing items get one here in the same date-then-code form.
+alter table inventory add column if not exists sku text;
+alter table inventory add column if not exists bin text;
+
+update inventory
+set sku = to_char(coalesce(date_added, created_at::date), 'YYMMDD') || '-' || upper(substr(md5(id::text), 1, 4))
+where sku is null;
+
+create index if not exists inventory_sku_idx on inventory (sku);
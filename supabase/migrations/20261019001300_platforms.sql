@@ -0,0 +1,20 @@
+-- Platform registry. The app has eBay, Mercari, Poshmark, Depop, Facebook Marketplace, Etsy,
+-- Whatnot, Grailed and Local built in; a row here replaces the built-in one with the same name
+-- or adds a new platform. Sales, crosslistings and fee schedules refer to platforms by name.
+create table if not exists platforms (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  color text not null default '#6366f1',
+  refund_on_return text not null default 'all' check (refund_on_return in ('all', 'none', 'variable')),
+  refund_on_cancel text not null default 'all' check (refund_on_cancel in ('all', 'none', 'variable')),
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table platforms enable row level security;
+
+drop policy if exists "Shared books" on platforms;
+create policy "Shared books" on platforms for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
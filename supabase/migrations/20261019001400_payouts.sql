@@ -0,0 +1,42 @@
+-- Platform payouts and 1099-K totals, reconciled against recorded sales.
+-- Payouts imported from a platform's transaction report are one row per order.
+
+create table if not exists payouts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+  platform text not null,
+  payout_date date not null default current_date,
+  order_number text,
+  gross numeric,
+  fees numeric,
+  sales_tax numeric,
+  net numeric not null,
+  reference text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payouts_user_id_idx on payouts (user_id);
+create index if not exists payouts_payout_date_idx on payouts (payout_date);
+create index if not exists payouts_order_number_idx on payouts (platform, order_number);
+
+create table if not exists forms_1099k (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+  platform text not null,
+  year integer not null,
+  gross_amount numeric not null check (gross_amount >= 0),
+  transaction_count integer check (transaction_count >= 0),
+  created_at timestamptz not null default now(),
+  unique (user_id, platform, year)
+);
+
+alter table payouts enable row level security;
+alter table forms_1099k enable row level security;
+
+drop policy if exists "Shared books" on payouts;
+create policy "Shared books" on payouts for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+drop policy if exists "Shared books" on forms_1099k;
+create policy "Shared books" on forms_1099k for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
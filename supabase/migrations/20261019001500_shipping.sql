@@ -0,0 +1,62 @@
+-- Shipping details per sale. shipping_cost stays the label cost; shipping_charged is what the
+-- buyer paid for shipping and counts as revenue alongside sale_price.
+
+alter table sales add column if not exists shipping_charged numeric check (shipping_charged >= 0);
+alter table sales add column if not exists carrier text;
+alter table sales add column if not exists shipping_service text;
+alter table sales add column if not exists tracking_number text;
+alter table sales add column if not exists package_weight numeric check (package_weight >= 0);
+alter table sales add column if not exists package_length numeric check (package_length >= 0);
+alter table sales add column if not exists package_width numeric check (package_width >= 0);
+alter table sales add column if not exists package_height numeric check (package_height >= 0);
+alter table sales add column if not exists ship_by date;
+
+-- The awaiting-shipment queue
+create index if not exists sales_pending_ship_by_idx on sales (ship_by) where status = 'Pending';
+
+-- Total sales include buyer-paid shipping, and shipping profit joins the stats
+create or replace function dashboard_stats(
+  sale_search text default null,
+  sale_platform text default null,
+  sale_status text default null,
+  sale_start date default null,
+  sale_end date default null,
+  expense_search text default null,
+  expense_category text default null,
+  expense_start date default null,
+  expense_end date default null
+)
+returns json
+language sql
+stable
+as $$
+  with filtered_sales as (
+    select * from sales
+    where (sale_search is null or item_name ilike like_pattern(sale_search))
+      and (sale_platform is null or platform = sale_platform)
+      and (sale_status is null or status = sale_status)
+      and (sale_start is null or sale_date >= sale_start)
+      and (sale_end is null or sale_date <= sale_end)
+  ),
+  filtered_expenses as (
+    select * from expenses
+    where (expense_search is null or name ilike like_pattern(expense_search))
+      and (expense_category is null or category = expense_category)
+      and (expense_start is null or date_added >= expense_start)
+      and (expense_end is null or date_added <= expense_end)
+  )
+  select json_build_object(
+    'totalSales', (
+      select coalesce(sum(sale_price + coalesce(shipping_charged, 0)), 0) from filtered_sales
+      where status not in ('Returned', 'Cancelled')
+    ),
+    'totalFees', (select coalesce(sum(platform_fee - coalesce(fee_refunded, 0)), 0) from filtered_sales),
+    'totalExpenses', (select coalesce(sum(amount), 0) from filtered_expenses),
+    'inventoryValue', (select coalesce(sum(item_cost), 0) from inventory where status = 'In Stock'),
+    'shippingProfit', (
+      select coalesce(sum(shipping_charged - shipping_cost), 0) from filtered_sales
+      where status not in ('Returned', 'Cancelled') and shipping_charged is not null
+    ),
+    'netProfit', (select coalesce(sum(profit), 0) from filtered_sales) - (select coalesce(sum(amount), 0) from filtered_expenses)
+  )
+$$;
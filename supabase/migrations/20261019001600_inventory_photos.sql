@@ -0,0 +1,22 @@
+-- Inventory photos. Files live in the public "photos" Storage bucket under <item id>/;
+-- inventory.photos lists their paths in display order, the first being the cover.
+
+alter table inventory add column if not exists photos text[] not null default '{}';
+
+insert into storage.buckets (id, name, public)
+values ('photos', 'photos', true)
+on conflict (id) do nothing;
+
+-- Anyone can view a photo by its (random) path; only signed-in users upload, and only
+-- the uploader or someone sharing their books deletes. Storage needs select to delete.
+drop policy if exists "Read photos" on storage.objects;
+create policy "Read photos" on storage.objects for select
+  using (bucket_id = 'photos');
+
+drop policy if exists "Upload photos" on storage.objects;
+create policy "Upload photos" on storage.objects for insert to authenticated
+  with check (bucket_id = 'photos');
+
+drop policy if exists "Delete shared photos" on storage.objects;
+create policy "Delete shared photos" on storage.objects for delete to authenticated
+  using (bucket_id = 'photos' and public.shares_books(owner));
@@ -0,0 +1,92 @@
+-- Trash. Deleting a sale, inventory item or expense sets deleted_at; the app restores it by
+-- clearing deleted_at or purges it for good, by hand or after the retention period in settings.
+
+alter table sales add column if not exists deleted_at timestamptz;
+alter table inventory add column if not exists deleted_at timestamptz;
+alter table expenses add column if not exists deleted_at timestamptz;
+
+-- The trash view and purging
+create index if not exists sales_deleted_at_idx on sales (deleted_at) where deleted_at is not null;
+create index if not exists inventory_deleted_at_idx on inventory (deleted_at) where deleted_at is not null;
+create index if not exists expenses_deleted_at_idx on expenses (deleted_at) where deleted_at is not null;
+
+-- Preferences for the books. A team uses its first member's row.
+create table if not exists settings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+  trash_retention_days integer not null default 30 check (trash_retention_days > 0),
+  created_at timestamptz not null default now(),
+  unique (user_id)
+);
+
+alter table settings enable row level security;
+
+drop policy if exists "Shared books" on settings;
+create policy "Shared books" on settings for all to authenticated
+  using (shares_books(user_id)) with check (shares_books(user_id));
+
+-- Trashed rows leave the stats and the year list
+create or replace function dashboard_stats(
+  sale_search text default null,
+  sale_platform text default null,
+  sale_status text default null,
+  sale_start date default null,
+  sale_end date default null,
+  expense_search text default null,
+  expense_category text default null,
+  expense_start date default null,
+  expense_end date default null
+)
+returns json
+language sql
+stable
+as $$
+  with filtered_sales as (
+    select * from sales
+    where deleted_at is null
+      and (sale_search is null or item_name ilike like_pattern(sale_search))
+      and (sale_platform is null or platform = sale_platform)
+      and (sale_status is null or status = sale_status)
+      and (sale_start is null or sale_date >= sale_start)
+      and (sale_end is null or sale_date <= sale_end)
+  ),
+  filtered_expenses as (
+    select * from expenses
+    where deleted_at is null
+      and (expense_search is null or name ilike like_pattern(expense_search))
+      and (expense_category is null or category = expense_category)
+      and (expense_start is null or date_added >= expense_start)
+      and (expense_end is null or date_added <= expense_end)
+  )
+  select json_build_object(
+    'totalSales', (
+      select coalesce(sum(sale_price + coalesce(shipping_charged, 0)), 0) from filtered_sales
+      where status not in ('Returned', 'Cancelled')
+    ),
+    'totalFees', (select coalesce(sum(platform_fee - coalesce(fee_refunded, 0)), 0) from filtered_sales),
+    'totalExpenses', (select coalesce(sum(amount), 0) from filtered_expenses),
+    'inventoryValue', (select coalesce(sum(item_cost), 0) from inventory where status = 'In Stock' and deleted_at is null),
+    'shippingProfit', (
+      select coalesce(sum(shipping_charged - shipping_cost), 0) from filtered_sales
+      where status not in ('Returned', 'Cancelled') and shipping_charged is not null
+    ),
+    'netProfit', (select coalesce(sum(profit), 0) from filtered_sales) - (select coalesce(sum(amount), 0) from filtered_expenses)
+  )
+$$;
+
+create or replace function data_years()
+returns setof text
+language sql
+stable
+as $$
+  select distinct year from (
+    select to_char(sale_date, 'YYYY') as year from sales where deleted_at is null
+    union
+    select to_char(date_added, 'YYYY') from expenses where deleted_at is null
+    union
+    select to_char(date_added, 'YYYY') from inventory where date_added is not null and deleted_at is null
+    union
+    select to_char(trip_date, 'YYYY') from trips
+  ) years
+  order by year desc
+$$;
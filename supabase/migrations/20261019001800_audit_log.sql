@@ -0,0 +1,94 @@
+-- Change history for sales, inventory and expenses. A trigger on each table logs every insert,
+-- update and delete with the values before and after, who made it and when, so changes through
+-- the API and replayed offline writes are logged like any other. History starts from here.
+
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  -- Owner of the changed record, for sharing the log with the team
+  user_id uuid references auth.users (id) on delete cascade,
+  table_name text not null check (table_name in ('sales', 'inventory', 'expenses')),
+  record_id uuid not null,
+  record_name text,
+  action text not null check (action in ('create', 'update', 'delete', 'restore', 'purge', 'mark_sold')),
+  -- Updates keep only the columns that changed; a create has the whole row after, a purge before
+  before jsonb,
+  after jsonb,
+  changed_by uuid references auth.users (id) on delete set null,
+  changed_by_email text,
+  -- Clock time rather than now(), so changes made in one transaction keep their order
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists audit_log_record_idx on audit_log (table_name, record_id, created_at desc);
+create index if not exists audit_log_created_at_idx on audit_log (created_at desc);
+
+-- Append-only: readable across shared books, and written only by the trigger below
+alter table audit_log enable row level security;
+
+drop policy if exists "Shared books" on audit_log;
+create policy "Shared books" on audit_log for select to authenticated
+  using (shares_books(user_id));
+
+create or replace function record_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  before_row jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  after_row jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  record_row jsonb := coalesce(after_row, before_row);
+  changed text[];
+  entry_action text;
+begin
+  if tg_op = 'INSERT' then
+    entry_action := 'create';
+  elsif tg_op = 'DELETE' then
+    entry_action := 'purge';
+  else
+    select array_agg(key) into changed
+    from jsonb_each(after_row)
+    where after_row -> key is distinct from before_row -> key;
+
+    if changed is null then
+      return null;
+    end if;
+
+    entry_action := case
+      when before_row ->> 'deleted_at' is null and after_row ->> 'deleted_at' is not null then 'delete'
+      when before_row ->> 'deleted_at' is not null and after_row ->> 'deleted_at' is null then 'restore'
+      when tg_table_name = 'inventory' and before_row ->> 'status' is distinct from 'Sold' and after_row ->> 'status' = 'Sold' then 'mark_sold'
+      else 'update'
+    end;
+    before_row := (select jsonb_object_agg(key, before_row -> key) from unnest(changed) as key);
+    after_row := (select jsonb_object_agg(key, after_row -> key) from unnest(changed) as key);
+  end if;
+
+  insert into audit_log (user_id, table_name, record_id, record_name, action, before, after, changed_by, changed_by_email)
+  values (
+    (record_row ->> 'user_id')::uuid,
+    tg_table_name,
+    (record_row ->> 'id')::uuid,
+    coalesce(record_row ->> 'item_name', record_row ->> 'name'),
+    entry_action,
+    before_row,
+    after_row,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_sales on sales;
+create trigger audit_sales after insert or update or delete on sales
+  for each row execute function record_audit();
+
+drop trigger if exists audit_inventory on inventory;
+create trigger audit_inventory after insert or update or delete on inventory
+  for each row execute function record_audit();
+
+drop trigger if exists audit_expenses on expenses;
+create trigger audit_expenses after insert or update or delete on expenses
+  for each row execute function record_audit();
@@ -0,0 +1,82 @@
+-- Stronger team invites. Codes were 8 hex characters from random(), which isn't a secure
+-- random source and is small enough to guess. They're now 96 random bits from pgcrypto,
+-- last 7 days, can be replaced by any member, and join_team limits how many wrong codes
+-- one account can try. Existing codes are replaced, so share the new one from Settings.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- 16 URL-safe base64 characters
+create or replace function new_invite_code()
+returns text
+language sql
+volatile
+set search_path = public
+as $$
+  select translate(encode(extensions.gen_random_bytes(12), 'base64'), '+/', '-_')
+$$;
+
+alter table teams add column if not exists invite_expires_at timestamptz not null default now() + interval '7 days';
+alter table teams alter column invite_code set default new_invite_code();
+update teams set invite_code = new_invite_code(), invite_expires_at = now() + interval '7 days';
+
+-- Wrong codes tried, for limiting guesses. Only join_team reads or writes it.
+create table if not exists team_join_attempts (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists team_join_attempts_user_idx on team_join_attempts (user_id, attempted_at);
+
+alter table team_join_attempts enable row level security;
+
+-- A wrong or expired code returns null rather than raising, so the attempt it records is kept
+create or replace function join_team(code text)
+returns teams
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  team teams;
+begin
+  if (
+    select count(*) from team_join_attempts
+    where user_id = auth.uid() and attempted_at > now() - interval '1 hour'
+  ) >= 10 then
+    raise exception 'Too many wrong invite codes. Try again in an hour.';
+  end if;
+  if exists (select 1 from team_members where user_id = auth.uid()) then
+    raise exception 'Leave your current team before joining another';
+  end if;
+
+  select * into team from teams where invite_code = trim(code) and invite_expires_at > now();
+  if team.id is null then
+    insert into team_join_attempts (user_id) values (auth.uid());
+    return null;
+  end if;
+
+  insert into team_members (team_id, user_id, email) values (team.id, auth.uid(), auth.jwt() ->> 'email');
+  return team;
+end;
+$$;
+
+-- A fresh code for the caller's team, good for another 7 days. The old one stops working.
+create or replace function rotate_invite_code()
+returns teams
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  team teams;
+begin
+  update teams
+  set invite_code = new_invite_code(), invite_expires_at = now() + interval '7 days'
+  where id = (select team_id from team_members where user_id = auth.uid())
+  returning * into team;
+  if team.id is null then
+    raise exception 'You are not on a team';
+  end if;
+  return team;
+end;
+$$;
@@ -0,0 +1,14 @@
+-- Imports recognised a sale they'd already recorded by platform, order number and item name,
+-- so renaming an imported sale made the next import of the same report duplicate it. They now
+-- use the item's line within the order instead. Sales already imported are numbered in the
+-- order they were recorded, which is the order they appeared in their report.
+alter table sales add column if not exists order_line integer;
+
+update sales
+set order_line = numbered.line
+from (
+  select id, row_number() over (partition by user_id, platform, order_number order by created_at, id) as line
+  from sales
+  where order_number is not null
+) numbered
+where sales.id = numbered.id and sales.order_line is null;
@@ -0,0 +1,20 @@
+-- Payout imports skipped lines already recorded by checking the payouts loaded in the browser,
+-- which missed older rows once there were more than one response holds. The database now
+-- refuses the duplicates itself: adding payouts skips any already recorded. Duplicates that
+-- got in before are removed, keeping the first one recorded.
+
+delete from payouts later
+using payouts earlier
+where later.user_id is not distinct from earlier.user_id
+  and later.platform = earlier.platform
+  and later.payout_date = earlier.payout_date
+  and later.order_number is not distinct from earlier.order_number
+  and later.reference is not distinct from earlier.reference
+  and later.net = earlier.net
+  and (earlier.created_at, earlier.id) < (later.created_at, later.id);
+
+create unique index if not exists payouts_dedupe_idx
+  on payouts (user_id, platform, payout_date, order_number, reference, net) nulls not distinct;
+
+-- Reconciliation reads one platform's payouts over a date range
+create index if not exists payouts_platform_date_idx on payouts (platform, payout_date);
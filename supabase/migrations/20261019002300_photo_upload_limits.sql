@@ -0,0 +1,19 @@
+-- Photo uploads were open to any path, size or file type, so the public bucket could host
+-- anything. Uploads now have to go under an inventory item the uploader shares books with,
+-- and the bucket only takes images up to MAX_PHOTO_BYTES (lib/photos.ts).
+
+update storage.buckets
+set file_size_limit = 15 * 1024 * 1024,
+  allowed_mime_types = array['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic']
+where id = 'photos';
+
+drop policy if exists "Upload photos" on storage.objects;
+create policy "Upload photos" on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'photos'
+    and exists (
+      select 1 from public.inventory
+      where inventory.id::text = (storage.foldername(name))[1]
+        and public.shares_books(inventory.user_id)
+    )
+  );
@@ -0,0 +1,11 @@
+-- The sku_and_bin migration gave existing items SKUs ending in hex, which includes 0 and 1 —
+-- the characters generateSku (lib/sku.ts) leaves out so labels can't be misread. Those SKUs
+-- are redone with generateSku's alphabet, still derived from the id. SKUs made by the app or
+-- typed in are left alone; reprint labels for items whose SKU changed.
+
+update inventory
+set sku = left(sku, 7) || (
+  select string_agg(substr('23456789ABCDEFGHJKLMNPQRSTUVWXYZ', get_byte(decode(md5(id::text), 'hex'), i) % 32 + 1, 1), '' order by i)
+  from generate_series(0, 3) as i
+)
+where sku = to_char(coalesce(date_added, created_at::date), 'YYMMDD') || '-' || upper(substr(md5(id::text), 1, 4));
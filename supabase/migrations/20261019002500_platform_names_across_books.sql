@@ -0,0 +1,27 @@
+-- Platform names were unique per user and case-sensitive, so teammates could each save eBay,
+-- or one save "etsy" beside another's "Etsy", and the app picked one of the rows at random.
+-- A name is now refused if anyone sharing the books already has it in any case. Inserts take
+-- a lock so two teammates saving at once can't both get in. Duplicates saved before stay,
+-- and the app uses the first one saved (platformRegistry in lib/platforms.ts).
+
+create or replace function check_platform_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('platforms'));
+  if exists (
+    select 1 from platforms
+    where id <> new.id and lower(name) = lower(new.name) and shares_books(user_id)
+  ) then
+    raise exception '% is already a platform', new.name using errcode = '23505';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_platform_name on platforms;
+create trigger check_platform_name before insert or update of name on platforms
+  for each row execute function check_platform_name();
@@ -0,0 +1,10 @@
+-- The payout dedupe index had no line component, so a report listing the same amount twice
+-- for one order and date (two identical adjustments, say) kept only the first. Imports now
+-- number a report's identical lines, like order_line does for sales, and the index includes
+-- that number. Payouts already recorded, and ones entered by hand, are line 1.
+alter table payouts add column if not exists payout_line integer not null default 1;
+
+drop index if exists payouts_dedupe_idx;
+
+create unique index if not exists payouts_dedupe_idx
+  on payouts (user_id, platform, payout_date, order_number, reference, net, payout_line) nulls not distinct;
@@ -0,0 +1,71 @@
+-- Fee schedules, mileage rates and 1099-Ks were unique per user only, so teammates could each
+-- save one for the same platform and date, or year, and the app used whichever it read first.
+-- Like platform names (20261019002500), one is now refused if anyone sharing the books already
+-- has it, with a lock so two teammates saving at once can't both get in. Duplicates saved
+-- before stay, and the app uses the first one saved.
+
+create or replace function check_fee_schedule_date()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('fee_schedules'));
+  if exists (
+    select 1 from fee_schedules
+    where id <> new.id and platform = new.platform and effective_from = new.effective_from and shares_books(user_id)
+  ) then
+    raise exception '% already has a fee schedule from %', new.platform, new.effective_from using errcode = '23505';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_fee_schedule_date on fee_schedules;
+create trigger check_fee_schedule_date before insert or update of platform, effective_from on fee_schedules
+  for each row execute function check_fee_schedule_date();
+
+create or replace function check_mileage_rate_year()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('mileage_rates'));
+  if exists (
+    select 1 from mileage_rates
+    where id <> new.id and year = new.year and shares_books(user_id)
+  ) then
+    raise exception '% already has a mileage rate', new.year using errcode = '23505';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_mileage_rate_year on mileage_rates;
+create trigger check_mileage_rate_year before insert or update of year on mileage_rates
+  for each row execute function check_mileage_rate_year();
+
+create or replace function check_form_1099k_year()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('forms_1099k'));
+  if exists (
+    select 1 from forms_1099k
+    where id <> new.id and platform = new.platform and year = new.year and shares_books(user_id)
+  ) then
+    raise exception '% already has a % 1099-K', new.platform, new.year using errcode = '23505';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_form_1099k_year on forms_1099k;
+create trigger check_form_1099k_year before insert or update of platform, year on forms_1099k
+  for each row execute function check_form_1099k_year();